@@ -1,11 +1,433 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import {
+	McpServer,
+	ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { McpAgent } from "agents/mcp";
 import { z } from "zod";
 import searchSyntaxDoc from "../docs/scryfall-search-syntax.md";
+import { completeNameList } from "./scryfall/autocomplete.js";
+import { formatStaleNotice, SqliteResponseCache } from "./scryfall/cache.js";
+import {
+	CATALOG_DESCRIPTIONS,
+	filterCatalog,
+	formatCatalog,
+} from "./scryfall/catalog.js";
+import type { CardBackend } from "./scryfall/client";
 import { ScryfallAPIError, ScryfallClient } from "./scryfall/client";
-import { formatCard, formatCards } from "./scryfall/formatter.js";
-import type { CardField, CardFieldGroup } from "./scryfall/types.js";
-import { FIELD_GROUP_KEYS, FIELD_GROUP_MAPPINGS } from "./scryfall/types.js";
+import {
+	cheapestPrinting,
+	formatDeckPrice,
+	isPriceAvailable,
+	PRICE_CURRENCIES,
+	PRICE_FINISHES,
+	priceDeck,
+} from "./scryfall/deck-pricing.js";
+import type { DeckStats } from "./scryfall/deck-stats.js";
+import { analyzeDeck, formatDeckStats } from "./scryfall/deck-stats.js";
+import {
+	CONSTRUCTED_FORMAT_KEYS,
+	formatDeckValidation,
+	validateCommanderDeck,
+	validateConstructedDeck,
+} from "./scryfall/deck-validation.js";
+import type { ResolvedDecklist } from "./scryfall/decklist.js";
+import {
+	formatResolvedDecklist,
+	parseDecklist,
+	resolveDecklist,
+} from "./scryfall/decklist.js";
+import type { CardGroup } from "./scryfall/draw-odds.js";
+import {
+	compileCardGroup,
+	formatDrawOdds,
+	OPENING_HAND_SIZE,
+} from "./scryfall/draw-odds.js";
+import {
+	formatFieldReference,
+	formatFieldWarnings,
+	selectFields,
+} from "./scryfall/fields.js";
+import {
+	differingFields,
+	formatCard,
+	formatCardComparison,
+	formatCards,
+	formatNotFound,
+	formatRulings,
+	projectCard,
+	projectCards,
+} from "./scryfall/formatter.js";
+import type { ImageMode, ImageSize } from "./scryfall/images.js";
+import {
+	cardImages,
+	IMAGE_MODES,
+	IMAGE_SIZES,
+	toBase64,
+} from "./scryfall/images.js";
+import type { LocalIndexSource } from "./scryfall/local-index.js";
+import { formatIndexStatus, LocalCardIndex } from "./scryfall/local-index.js";
+import type { PlaytestState } from "./scryfall/playtest.js";
+import {
+	createPlaytest,
+	drawForTurn,
+	formatPlaytest,
+	keepHand,
+	mulligan,
+	newGame,
+	PlaytestError,
+	SqlitePlaytestStore,
+} from "./scryfall/playtest.js";
+import {
+	classifyPrinting,
+	formatPrintings,
+	PRINTING_TREATMENTS,
+	selectPrintings,
+} from "./scryfall/printings.js";
+import { buildQuery } from "./scryfall/query-builder.js";
+import {
+	explainQuery,
+	FORMATS,
+	formatQueryValidation,
+	RARITIES,
+	validateQuery,
+} from "./scryfall/query-parser.js";
+import {
+	filterSets,
+	formatSetDetails,
+	formatSets,
+	summarizeSetCards,
+} from "./scryfall/sets.js";
+import {
+	formatSimilarCards,
+	rankSimilarCards,
+	similarCardsQuery,
+} from "./scryfall/similarity.js";
+import { formatParsedMana, formatSymbology } from "./scryfall/symbology.js";
+import type {
+	CardField,
+	CardIdentifier,
+	ScryfallCard,
+	ScryfallList,
+} from "./scryfall/types.js";
+import {
+	BULK_DATA_TYPES,
+	CARD_OUTPUT_FORMATS,
+	CATALOG_TYPES,
+	FIELD_GROUP_KEYS,
+	FIELD_GROUP_MAPPINGS,
+} from "./scryfall/types.js";
+
+// Upper bound for search_cards max_results (six pages of 175 cards)
+const MAX_SEARCH_RESULTS = 1050;
+
+// Maximum search pages read when summarizing a set (175 printings per page)
+const SET_SUMMARY_MAX_PAGES = 5;
+
+// Upper bound for get_card_details names (a Commander deck plus a cube
+// section, looked up in four batches of 75)
+const MAX_CARD_DETAILS = 250;
+
+// Candidates ranked by find_similar_cards (two pages of 175 cards)
+const SIMILAR_CARD_CANDIDATES = 350;
+
+// Result options shared by search_cards and build_query
+const SEARCH_OPTIONS = {
+	unique: z
+		.enum(["cards", "art", "prints"])
+		.optional()
+		.describe("Strategy for omitting similar cards"),
+	order: z
+		.enum([
+			"name",
+			"set",
+			"released",
+			"rarity",
+			"color",
+			"usd",
+			"cmc",
+			"power",
+			"toughness",
+			"edhrec",
+		])
+		.optional()
+		.describe("Sort order"),
+	dir: z.enum(["auto", "asc", "desc"]).optional().describe("Sort direction"),
+	page: z.number().optional().describe("Page number for pagination"),
+	max_results: z
+		.number()
+		.int()
+		.min(1)
+		.max(MAX_SEARCH_RESULTS)
+		.optional()
+		.describe(
+			`Collect up to this many cards, following additional result pages (175 cards each) as needed. Use for complete answers like "all mono-red commons in MH3". Without it only the first 10 cards of one page are shown. Maximum ${MAX_SEARCH_RESULTS}.`,
+		),
+	fields: z
+		.union([z.array(z.string()), z.enum(FIELD_GROUP_KEYS)])
+		.default("minimal")
+		.describe(
+			"Optional field selection - either an array of field names (e.g., ['name', 'mana_cost', 'prices']) or a predefined group ('minimal', 'gameplay', 'pricing', 'imagery', 'full'). Defaults to 'minimal'. For a complete list of available fields, see the 'Available Card Fields' resource at scryfall://fields/reference",
+		),
+	format: z
+		.enum(CARD_OUTPUT_FORMATS)
+		.default("text")
+		.describe(
+			"Layout of the card list: 'text' (one block per card), 'table' (markdown table with one column per field, compact for comparing many cards) or 'csv'",
+		),
+};
+
+type SearchToolOptions = z.infer<z.ZodObject<typeof SEARCH_OPTIONS>>;
+
+// Text of a decklist report, optionally with structured output for tools
+// that declare an output schema
+type DecklistReport =
+	| string
+	| { text: string; structuredContent: Record<string, unknown> };
+
+// Card image options shared by get_card_details and get_random_card
+const IMAGE_OPTIONS = {
+	image: z
+		.enum(IMAGE_MODES)
+		.default("none")
+		.describe(
+			"Also return the card image: 'image' embeds the picture so clients with vision can see the card, 'link' returns a resource link to it. Double-faced cards return one image per face.",
+		),
+	image_size: z
+		.enum(IMAGE_SIZES as [ImageSize, ...ImageSize[]])
+		.default("normal")
+		.describe(
+			"Image size: 'small' (146×204), 'normal' (488×680), 'large' (672×936), 'png' (745×1040, transparent corners), 'art_crop' (just the art) or 'border_crop'",
+		),
+};
+
+// Fields compared by compare_cards unless others are chosen
+const COMPARISON_FIELDS = [
+	...new Set<CardField>([
+		...FIELD_GROUP_MAPPINGS.gameplay,
+		"legalities",
+		...FIELD_GROUP_MAPPINGS.pricing,
+	]),
+];
+
+// Structured output of tools that return cards; each card carries the same
+// selected fields as the text output
+const PROJECTED_CARD = z
+	.record(z.unknown())
+	.describe(
+		"Card reduced to the selected fields. Nested fields keep their dotted name (e.g. 'prices.usd'); multi-faced cards list face fields under 'faces'.",
+	);
+
+const FIELD_WARNINGS_OUTPUT = z
+	.array(z.string())
+	.optional()
+	.describe("Requested fields that are not recognized and were left out");
+
+const CARD_LIST_OUTPUT = {
+	total_cards: z.number().describe("Total number of matching cards"),
+	has_more: z
+		.boolean()
+		.describe("Whether more cards matched than are listed in 'cards'"),
+	cards: z.array(PROJECTED_CARD),
+	warnings: FIELD_WARNINGS_OUTPUT,
+};
+
+const NOT_FOUND_OUTPUT = z
+	.array(z.record(z.unknown()))
+	.optional()
+	.describe("Identifiers Scryfall could not match");
+
+const RANDOM_CARD_OUTPUT = {
+	card: PROJECTED_CARD,
+	warnings: FIELD_WARNINGS_OUTPUT,
+};
+
+// Fields of each printing in get_printings' structured output, matching the
+// text listing
+const PRINTING_FIELDS: CardField[] = [
+	"set",
+	"set_name",
+	"collector_number",
+	"released_at",
+	"rarity",
+	"finishes",
+	"digital",
+	"promo_types",
+	"prices",
+];
+
+// Fields of each card in find_similar_cards' structured output
+const SIMILAR_CARD_FIELDS: CardField[] = [
+	"name",
+	"mana_cost",
+	"type_line",
+	"oracle_text",
+	"prices.usd",
+];
+
+// Fields of each resolved card in import_decklist's structured output
+const DECKLIST_CARD_FIELDS: CardField[] = [
+	"name",
+	"mana_cost",
+	"type_line",
+	"set",
+	"collector_number",
+];
+
+const DECK_SECTION_OUTPUT = z.enum([
+	"mainboard",
+	"sideboard",
+	"commander",
+	"companion",
+]);
+
+const PRINTINGS_OUTPUT = {
+	name: z.string().describe("Name of the card"),
+	total_printings: z
+		.number()
+		.describe("Printings of the card before filtering by treatment"),
+	cards: z
+		.array(PROJECTED_CARD)
+		.describe(
+			"Listed printings in order, each with its 'treatments' (e.g. 'showcase'), empty for a regular printing",
+		),
+};
+
+const COMPARISON_OUTPUT = {
+	cards: z.array(PROJECTED_CARD),
+	differences: z
+		.array(z.string())
+		.describe("Compared fields whose values are not the same on every card"),
+	not_found: NOT_FOUND_OUTPUT,
+	warnings: FIELD_WARNINGS_OUTPUT,
+};
+
+const SIMILAR_CARDS_OUTPUT = {
+	name: z.string().describe("Name of the card similar cards were found for"),
+	query: z.string().describe("Scryfall query used to find candidates"),
+	cards: z.array(
+		z.object({
+			card: PROJECTED_CARD,
+			similarity: z
+				.object({
+					score: z.number(),
+					text: z.number(),
+					type: z.number(),
+					mana_value: z.number(),
+					color: z.number(),
+				})
+				.describe("Overall score and its parts, each from 0 to 1"),
+		}),
+	),
+};
+
+const RULINGS_OUTPUT = {
+	cards: z.array(
+		z.object({
+			card: PROJECTED_CARD,
+			rulings: z.array(
+				z.object({
+					source: z.string(),
+					published_at: z.string(),
+					comment: z.string(),
+				}),
+			),
+		}),
+	),
+	not_found: NOT_FOUND_OUTPUT,
+};
+
+const DECKLIST_OUTPUT = {
+	cards: z.array(
+		z.object({
+			quantity: z.number(),
+			section: DECK_SECTION_OUTPUT,
+			card: PROJECTED_CARD,
+		}),
+	),
+	unresolved: z
+		.array(
+			z.object({
+				quantity: z.number(),
+				name: z.string(),
+				section: DECK_SECTION_OUTPUT,
+				line: z.number(),
+			}),
+		)
+		.describe("Entries that parsed but matched no card"),
+	unparsed: z
+		.array(z.object({ line: z.number(), text: z.string(), reason: z.string() }))
+		.describe("Lines that could not be read as a decklist entry"),
+};
+
+const DECK_STATS_OUTPUT = {
+	cards: z.number(),
+	lands: z.number(),
+	mana_lands: z.number().describe("Lands that produce mana"),
+	curve: z
+		.object({ permanents: z.array(z.number()), spells: z.array(z.number()) })
+		.describe(
+			"Nonland cards by mana value from 0; the last entry counts everything above",
+		),
+	pips: z.record(
+		z.object({ plain: z.number(), hybrid: z.number(), phyrexian: z.number() }),
+	),
+	types: z.record(z.number()),
+	colors: z.record(z.number()),
+	identity: z.record(z.number()),
+	average_mana_value: z.number(),
+	average_mana_value_without_lands: z.number(),
+};
+
+/**
+ * Structured output of a resolved decklist, matching DECKLIST_OUTPUT
+ */
+function decklistOutput(deck: ResolvedDecklist): Record<string, unknown> {
+	return {
+		cards: deck.cards.map((entry) => ({
+			quantity: entry.quantity,
+			section: entry.section,
+			card: projectCard(entry.card, DECKLIST_CARD_FIELDS),
+		})),
+		unresolved: deck.unresolved.map(({ quantity, name, section, line }) => ({
+			quantity,
+			name,
+			section,
+			line,
+		})),
+		unparsed: deck.unparsed,
+	};
+}
+
+/**
+ * Structured output of deck statistics, matching DECK_STATS_OUTPUT
+ */
+function deckStatsOutput(stats: DeckStats): Record<string, unknown> {
+	return {
+		cards: stats.cards,
+		lands: stats.lands,
+		mana_lands: stats.manaLands,
+		curve: stats.curve,
+		pips: stats.pips,
+		types: stats.types,
+		colors: stats.colors,
+		identity: stats.identity,
+		average_mana_value: stats.averageManaValue,
+		average_mana_value_without_lands: stats.averageManaValueWithoutLands,
+	};
+}
+
+const BUILD_QUERY_OUTPUT = {
+	query: z.string().describe("The generated Scryfall query"),
+	explanation: z.string().describe("What the query matches, in plain English"),
+	total_cards: CARD_LIST_OUTPUT.total_cards.optional(),
+	has_more: CARD_LIST_OUTPUT.has_more.optional(),
+	cards: CARD_LIST_OUTPUT.cards
+		.optional()
+		.describe("Search results, when the query was run"),
+	warnings: FIELD_WARNINGS_OUTPUT,
+};
 
 // Define our MCP agent with Scryfall tools
 export class MyMCP extends McpAgent {
@@ -14,15 +436,246 @@ export class MyMCP extends McpAgent {
 		version: "0.1.0",
 	});
 
-	private scryfallClient = new ScryfallClient();
+	private localIndex = new LocalCardIndex(this.ctx.storage.sql);
+
+	private playtestStore = new SqlitePlaytestStore(this.ctx.storage.sql);
+
+	private scryfallClient = new ScryfallClient({
+		cache: new SqliteResponseCache(this.ctx.storage.sql),
+		localIndex: this.localIndex,
+	});
+
+	/**
+	 * Build a notice for tool output when any response came from a stale cache
+	 * @returns The notice prefixed with a blank line, or an empty string
+	 */
+	private staleNotice(...responses: unknown[]): string {
+		const staleSince = responses
+			.map((response) => this.scryfallClient.getStaleSince(response))
+			.filter((time): time is number => time !== undefined);
+
+		if (staleSince.length === 0) {
+			return "";
+		}
+
+		return `\n\n${formatStaleNotice(Math.min(...staleSince))}`;
+	}
+
+	/**
+	 * Build image or resource_link content for the images of some cards
+	 * Images that fail to download are returned as links instead.
+	 */
+	private async cardImageContent(
+		cards: ScryfallCard[],
+		mode: ImageMode,
+		size: ImageSize,
+	): Promise<CallToolResult["content"]> {
+		if (mode === "none") {
+			return [];
+		}
+
+		const images = cards.flatMap((card) => cardImages(card, size));
+		const content: CallToolResult["content"] = [];
+
+		for (const image of images) {
+			if (mode === "image") {
+				try {
+					const bytes = await this.scryfallClient.downloadImage(image.uri);
+					content.push({
+						type: "image",
+						data: toBase64(bytes),
+						mimeType: image.mimeType,
+					});
+					continue;
+				} catch (error) {
+					if (!(error instanceof ScryfallAPIError)) {
+						throw error;
+					}
+				}
+			}
+
+			content.push({
+				type: "resource_link",
+				uri: image.uri,
+				name: image.name,
+				mimeType: image.mimeType,
+			});
+		}
+
+		return content;
+	}
+
+	/**
+	 * Run a search and format the results for tool output
+	 * Follows additional pages when max_results is set.
+	 */
+	private async runSearch(
+		query: string,
+		{
+			unique,
+			order,
+			dir,
+			page,
+			max_results,
+			fields,
+			format,
+		}: SearchToolOptions,
+	): Promise<CallToolResult> {
+		try {
+			const options = { unique, order, dir, page };
+			const result = max_results
+				? await this.scryfallClient.searchAllCards(query, options, max_results)
+				: await this.scryfallClient.searchCards(query, options);
+
+			// Use the formatter with the specified (or default) fields and
+			// report the real total, not just what was fetched
+			const { fields: selected, warnings } = selectFields(fields);
+			const total = result.total_cards ?? result.data.length;
+			const formatted = formatCards(
+				result.data,
+				selected,
+				max_results,
+				total,
+				format,
+			);
+			const cards = projectCards(result.data, selected, max_results);
+			return {
+				content: [
+					{
+						type: "text",
+						text: `${formatted}${formatFieldWarnings(warnings)}${this.staleNotice(result)}`,
+					},
+				],
+				structuredContent: {
+					total_cards: total,
+					has_more: total > cards.length,
+					cards,
+					warnings: warnings.length > 0 ? warnings : undefined,
+				},
+			};
+		} catch (error) {
+			if (error instanceof ScryfallAPIError) {
+				return {
+					content: [
+						{
+							type: "text",
+							text: `Scryfall API Error: ${error.details}`,
+						},
+					],
+					isError: true,
+				};
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Resolve a decklist and build a report on it, such as a validation
+	 * @param action - What failed, for Scryfall errors, e.g. "pricing decklist"
+	 */
+	private async reportOnDecklist(
+		decklist: string,
+		report: (
+			deck: ResolvedDecklist,
+		) => DecklistReport | Promise<DecklistReport>,
+		action = "resolving decklist",
+	): Promise<CallToolResult> {
+		try {
+			const deck = await resolveDecklist(
+				this.scryfallClient,
+				parseDecklist(decklist),
+			);
+
+			if (deck.cards.length === 0) {
+				const details = formatResolvedDecklist(deck);
+				return {
+					content: [
+						{
+							type: "text",
+							text: `No cards could be resolved from the decklist.${details ? `\n\n${details}` : ""}`,
+						},
+					],
+					isError: true,
+				};
+			}
+
+			const result = await report(deck);
+			if (typeof result === "string") {
+				return { content: [{ type: "text", text: result }] };
+			}
+			return {
+				content: [{ type: "text", text: result.text }],
+				structuredContent: result.structuredContent,
+			};
+		} catch (error) {
+			if (error instanceof ScryfallAPIError) {
+				return {
+					content: [
+						{
+							type: "text",
+							text: `Error ${action}: ${error.details}`,
+						},
+					],
+					isError: true,
+				};
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Apply an action to the stored playtest sandbox and show the result
+	 */
+	private playtestAction(
+		action: (state: PlaytestState) => {
+			state: PlaytestState;
+			drawn?: string[];
+		},
+	): CallToolResult {
+		const current = this.playtestStore.get();
+		if (!current) {
+			return {
+				content: [
+					{
+						type: "text",
+						text: "No deck loaded. Load one with playtest_load_deck first.",
+					},
+				],
+				isError: true,
+			};
+		}
+
+		try {
+			const { state, drawn } = action(current);
+			this.playtestStore.set(state);
+			return {
+				content: [{ type: "text", text: formatPlaytest(state, drawn) }],
+			};
+		} catch (error) {
+			if (error instanceof PlaytestError) {
+				return {
+					content: [{ type: "text", text: error.message }],
+					isError: true,
+				};
+			}
+			throw error;
+		}
+	}
 
 	async init() {
+		// Restore the backend chosen with set_card_backend
+		const backend = await this.ctx.storage.get<CardBackend>("card_backend");
+		if (backend === "local" && this.localIndex.status()) {
+			this.scryfallClient.setBackend("local");
+		}
+
 		// Search for Magic: The Gathering cards
-		this.server.tool(
+		this.server.registerTool(
 			"search_cards",
 			{
-				query: z.string().describe(
-					`Scryfall search query. Common patterns:
+				inputSchema: {
+					query: z.string().describe(
+						`Scryfall search query. Common patterns:
 
 Basic Filters:
   - Card name: "lightning bolt" or name:"dark ritual"
@@ -53,100 +706,263 @@ Examples:
 
 Advanced Syntax:
 For complex queries including regex, display options, set filters, and more, access the complete documentation via the MCP resource "Scryfall Search Syntax - Complete Reference" (URI: scryfall://search-syntax/full).`,
-				),
-				unique: z
-					.enum(["cards", "art", "prints"])
-					.optional()
-					.describe("Strategy for omitting similar cards"),
-				order: z
-					.enum([
-						"name",
-						"set",
-						"released",
-						"rarity",
-						"color",
-						"usd",
-						"cmc",
-						"power",
-						"toughness",
-						"edhrec",
-					])
-					.optional()
-					.describe("Sort order"),
-				dir: z
-					.enum(["auto", "asc", "desc"])
-					.optional()
-					.describe("Sort direction"),
-				page: z.number().optional().describe("Page number for pagination"),
-				fields: z
-					.union([z.array(z.string()), z.enum(FIELD_GROUP_KEYS)])
-					.default("minimal")
-					.describe(
-						"Optional field selection - either an array of field names (e.g., ['name', 'mana_cost', 'prices']) or a predefined group ('minimal', 'gameplay', 'pricing', 'imagery', 'full'). Defaults to 'minimal'. For a complete list of available fields, see the 'Available Card Fields' resource at scryfall://fields/reference",
 					),
+					...SEARCH_OPTIONS,
+					validate: z
+						.boolean()
+						.default(false)
+						.describe(
+							"Check the query locally before searching, the same way validate_query does, and return the problems instead of calling Scryfall when it is invalid",
+						),
+				},
+				outputSchema: CARD_LIST_OUTPUT,
 			},
-			async ({ query, unique, order, dir, page, fields }) => {
-				try {
-					const result = await this.scryfallClient.searchCards(query, {
-						unique,
-						order,
-						dir,
-						page,
-					});
-
-					// Use the formatter with the specified (or default) fields
-					// Returns all cards from the current page (up to 175)
-					const formatted = formatCards(
-						result.data,
-						fields as CardField[] | CardFieldGroup,
-					);
-					return {
-						content: [
-							{
-								type: "text",
-								text: formatted,
-							},
-						],
-					};
-				} catch (error) {
-					if (error instanceof ScryfallAPIError) {
+			async ({ query, validate, ...options }) => {
+				if (validate) {
+					const validation = validateQuery(query);
+					if (!validation.valid) {
 						return {
 							content: [
 								{
 									type: "text",
-									text: `Scryfall API Error: ${error.details}`,
+									text: formatQueryValidation(query, validation),
 								},
 							],
 							isError: true,
 						};
 					}
-					throw error;
 				}
+
+				return this.runSearch(query, options);
 			},
 		);
 
-		// Get detailed information for one or more cards by name
+		// Check a search query without sending it to Scryfall
 		this.server.tool(
-			"get_card_details",
+			"validate_query",
 			{
-				names: z
-					.array(z.string())
-					.max(75)
-					.describe(
-						"Array of card names to search for (can be a single card or multiple cards). Maximum 75 cards per request.",
-					),
-				set: z
+				query: z
 					.string()
-					.optional()
-					.describe("Set code to filter by for all cards (e.g., 'mkm')"),
-				fields: z
-					.union([z.array(z.string()), z.enum(FIELD_GROUP_KEYS)])
-					.default("gameplay")
 					.describe(
-						"Optional field selection - either an array of field names (e.g., ['name', 'mana_cost', 'prices']) or a predefined group ('minimal', 'gameplay', 'pricing', 'imagery', 'full'). Defaults to 'gameplay'. For a complete list of available fields, see the 'Available Card Fields' resource at scryfall://fields/reference",
+						"Scryfall search query to check, e.g. 't:creature c:rg pow>=4'",
+					),
+			},
+			async ({ query }) => {
+				const validation = validateQuery(query);
+
+				return {
+					content: [
+						{
+							type: "text",
+							text: formatQueryValidation(query, validation),
+						},
+					],
+				};
+			},
+		);
+
+		// Compile structured criteria into a search query, optionally running it
+		const colorMatch = z.enum(["exactly", "including", "at_most"]).optional();
+		const range = (label: string) =>
+			z
+				.object({
+					min: z.number().optional().describe(`Minimum ${label}`),
+					max: z.number().optional().describe(`Maximum ${label}`),
+				})
+				.optional()
+				.describe(`${label} range; give min and max equal for an exact value`);
+
+		this.server.registerTool(
+			"build_query",
+			{
+				inputSchema: {
+					colors: z
+						.array(z.string())
+						.optional()
+						.describe(
+							"Card colors as letters (w, u, b, r, g, c for colorless) or names like 'red' or 'azorius'",
+						),
+					color_match: colorMatch.describe(
+						"How card colors compare to 'colors': 'exactly', 'including' (at least these, the default) or 'at_most' (no others)",
+					),
+					identity: z
+						.array(z.string())
+						.optional()
+						.describe(
+							"Color identity, same values as 'colors', e.g. a commander's colors",
+						),
+					identity_match: colorMatch.describe(
+						"How color identity compares to 'identity': 'exactly', 'including' or 'at_most' (fits in a deck of these colors, the default)",
 					),
+					types: z
+						.array(z.string())
+						.optional()
+						.describe("Types, supertypes or subtypes the card must have"),
+					exclude_types: z
+						.array(z.string())
+						.optional()
+						.describe("Types the card must not have"),
+					mana_value: range("mana value"),
+					power: range("power"),
+					toughness: range("toughness"),
+					oracle: z
+						.array(z.string())
+						.optional()
+						.describe(
+							"Phrases that must all appear in the rules text, e.g. 'draw a card'",
+						),
+					keywords: z
+						.array(z.string())
+						.optional()
+						.describe("Keyword abilities the card must have, e.g. 'flying'"),
+					formats: z
+						.array(z.enum(FORMATS))
+						.optional()
+						.describe("Formats the card must be legal in"),
+					rarity: z
+						.array(z.enum(RARITIES))
+						.optional()
+						.describe("Rarities to include; the card may have any of them"),
+					set: z.string().optional().describe("Set code, e.g. 'mh3'"),
+					max_usd: z.number().optional().describe("Maximum price in USD"),
+					max_eur: z.number().optional().describe("Maximum price in EUR"),
+					max_tix: z
+						.number()
+						.optional()
+						.describe("Maximum price in MTGO tickets"),
+					is: z
+						.array(z.string())
+						.optional()
+						.describe(
+							"is: flags the card must match, e.g. 'commander', 'fetchland', 'spell'",
+						),
+					not: z
+						.array(z.string())
+						.optional()
+						.describe("is: flags the card must not match, e.g. 'reprint'"),
+					run: z
+						.boolean()
+						.default(false)
+						.describe(
+							"Also run the query and include the results, as search_cards would",
+						),
+					...SEARCH_OPTIONS,
+				},
+				outputSchema: BUILD_QUERY_OUTPUT,
+			},
+			async ({
+				colors,
+				color_match,
+				identity,
+				identity_match,
+				types,
+				exclude_types,
+				mana_value,
+				power,
+				toughness,
+				oracle,
+				keywords,
+				formats,
+				rarity,
+				set,
+				max_usd,
+				max_eur,
+				max_tix,
+				is,
+				not,
+				run,
+				...options
+			}) => {
+				let query: string;
+				try {
+					query = buildQuery({
+						colors,
+						colorMatch: color_match,
+						identity,
+						identityMatch: identity_match,
+						types,
+						excludeTypes: exclude_types,
+						manaValue: mana_value,
+						power,
+						toughness,
+						oracle,
+						keywords,
+						formats,
+						rarity,
+						set,
+						maxUsd: max_usd,
+						maxEur: max_eur,
+						maxTix: max_tix,
+						is,
+						not,
+					});
+				} catch (error) {
+					return {
+						content: [
+							{
+								type: "text",
+								text: `Error building query: ${error instanceof Error ? error.message : String(error)}`,
+							},
+						],
+						isError: true,
+					};
+				}
+
+				const validation = validateQuery(query);
+				const summary = formatQueryValidation(query, validation);
+				if (!validation.valid) {
+					return {
+						content: [{ type: "text", text: summary }],
+						isError: true,
+					};
+				}
+				const built = {
+					query,
+					explanation: validation.ast ? explainQuery(validation.ast) : "",
+				};
+				if (!run) {
+					return {
+						content: [{ type: "text", text: summary }],
+						structuredContent: built,
+					};
+				}
+
+				const result = await this.runSearch(query, options);
+				return {
+					...result,
+					content: [{ type: "text", text: summary }, ...result.content],
+					structuredContent: { ...built, ...result.structuredContent },
+				};
+			},
+		);
+
+		// Get detailed information for one or more cards by name
+		this.server.registerTool(
+			"get_card_details",
+			{
+				inputSchema: {
+					names: z
+						.array(z.string())
+						.max(MAX_CARD_DETAILS)
+						.describe(
+							`Array of card names to search for (can be a single card or multiple cards), up to ${MAX_CARD_DETAILS}. Large lists, such as a full Commander deck, are looked up in batches automatically and every card found is returned.`,
+						),
+					set: z
+						.string()
+						.optional()
+						.describe("Set code to filter by for all cards (e.g., 'mkm')"),
+					fields: z
+						.union([z.array(z.string()), z.enum(FIELD_GROUP_KEYS)])
+						.default("gameplay")
+						.describe(
+							"Optional field selection - either an array of field names (e.g., ['name', 'mana_cost', 'prices']) or a predefined group ('minimal', 'gameplay', 'pricing', 'imagery', 'full'). Defaults to 'gameplay'. For a complete list of available fields, see the 'Available Card Fields' resource at scryfall://fields/reference",
+						),
+					format: SEARCH_OPTIONS.format,
+					...IMAGE_OPTIONS,
+				},
+				outputSchema: { ...CARD_LIST_OUTPUT, not_found: NOT_FOUND_OUTPUT },
 			},
-			async ({ names, set, fields }) => {
+			async ({ names, set, fields, format, image, image_size }) => {
 				try {
 					// Build identifiers for the collection endpoint
 					const identifiers = names.map((name) => {
@@ -156,7 +972,7 @@ For complex queries including regex, display options, set filters, and more, acc
 						return { name };
 					});
 
-					// Use the collection endpoint (single API call for all cards)
+					// Use the collection endpoint (batched by the client beyond 75 cards)
 					const result = await this.scryfallClient.getCollection(identifiers);
 
 					// If no cards were found, return error
@@ -184,31 +1000,41 @@ For complex queries including regex, display options, set filters, and more, acc
 					}
 
 					// Format the successful results
+					const { fields: selected, warnings } = selectFields(fields);
 					const formatted = formatCards(
 						result.data,
-						fields as CardField[] | CardFieldGroup,
+						selected,
+						result.data.length,
+						undefined,
+						format,
 					);
+					const cards = projectCards(result.data, selected, result.data.length);
 
 					// Add error messages if some cards weren't found
-					const errorSection =
-						result.not_found && result.not_found.length > 0
-							? `\n\n**Not found (${result.not_found.length}):**\n${result.not_found
-									.map((id) => {
-										if ("name" in id) {
-											return `- "${id.name}"${id.set ? ` (${id.set})` : ""}`;
-										}
-										return `- ${JSON.stringify(id)}`;
-									})
-									.join("\n")}`
-							: "";
+					const notFound = formatNotFound(result.not_found);
+					const errorSection = notFound ? `\n\n${notFound}` : "";
+
+					const images = await this.cardImageContent(
+						result.data,
+						image,
+						image_size,
+					);
 
 					return {
 						content: [
 							{
 								type: "text",
-								text: `${formatted}${errorSection}`,
+								text: `${formatted}${errorSection}${formatFieldWarnings(warnings)}${this.staleNotice(result)}`,
 							},
+							...images,
 						],
+						structuredContent: {
+							total_cards: result.data.length,
+							has_more: false,
+							cards,
+							not_found: result.not_found,
+							warnings: warnings.length > 0 ? warnings : undefined,
+						},
 					};
 				} catch (error) {
 					if (error instanceof ScryfallAPIError) {
@@ -228,38 +1054,46 @@ For complex queries including regex, display options, set filters, and more, acc
 		);
 
 		// Get a random card
-		this.server.tool(
+		this.server.registerTool(
 			"get_random_card",
 			{
-				query: z
-					.string()
-					.optional()
-					.describe(
-						"Optional search query to filter random selection (e.g., 'type:creature')",
-					),
-				fields: z
-					.union([z.array(z.string()), z.enum(FIELD_GROUP_KEYS)])
-					.default("gameplay")
-					.describe(
-						"Optional field selection - either an array of field names (e.g., ['name', 'mana_cost', 'prices']) or a predefined group ('minimal', 'gameplay', 'pricing', 'imagery', 'full'). Defaults to 'gameplay'. For a complete list of available fields, see the 'Available Card Fields' resource at scryfall://fields/reference",
-					),
+				inputSchema: {
+					query: z
+						.string()
+						.optional()
+						.describe(
+							"Optional search query to filter random selection (e.g., 'type:creature')",
+						),
+					fields: z
+						.union([z.array(z.string()), z.enum(FIELD_GROUP_KEYS)])
+						.default("gameplay")
+						.describe(
+							"Optional field selection - either an array of field names (e.g., ['name', 'mana_cost', 'prices']) or a predefined group ('minimal', 'gameplay', 'pricing', 'imagery', 'full'). Defaults to 'gameplay'. For a complete list of available fields, see the 'Available Card Fields' resource at scryfall://fields/reference",
+						),
+					...IMAGE_OPTIONS,
+				},
+				outputSchema: RANDOM_CARD_OUTPUT,
 			},
-			async ({ query, fields }) => {
+			async ({ query, fields, image, image_size }) => {
 				try {
 					const card = await this.scryfallClient.getRandomCard(query);
 
 					// Use the formatter with the specified (or default) fields
-					const formatted = formatCard(
-						card,
-						fields as CardField[] | CardFieldGroup,
-					);
+					const { fields: selected, warnings } = selectFields(fields);
+					const formatted = formatCard(card, selected);
+					const images = await this.cardImageContent([card], image, image_size);
 					return {
 						content: [
 							{
 								type: "text",
-								text: `**Random Card**\n\n${formatted}`,
+								text: `**Random Card**\n\n${formatted}${formatFieldWarnings(warnings)}${this.staleNotice(card)}`,
 							},
+							...images,
 						],
+						structuredContent: {
+							card: projectCard(card, selected),
+							warnings: warnings.length > 0 ? warnings : undefined,
+						},
 					};
 				} catch (error) {
 					if (error instanceof ScryfallAPIError) {
@@ -278,91 +1112,1287 @@ For complex queries including regex, display options, set filters, and more, acc
 			},
 		);
 
-		// Register comprehensive search syntax documentation resource
-		this.server.resource(
-			"Scryfall Search Syntax - Complete Reference",
-			"scryfall://search-syntax/full",
+		// Suggest card names for a partial or misspelled name
+		this.server.tool(
+			"autocomplete_card_name",
 			{
-				mimeType: "text/markdown",
-				description:
-					"Complete reference guide for constructing Scryfall search queries with all keywords, operators, and advanced filters",
+				query: z
+					.string()
+					.min(2)
+					.describe(
+						"Partial card name (at least 2 characters), e.g. 'lightn' or 'thalia'",
+					),
+				include_extras: z
+					.boolean()
+					.optional()
+					.describe("Also suggest tokens, emblems and other extras"),
 			},
-			async () => {
-				return {
-					contents: [
-						{
-							uri: "scryfall://search-syntax/full",
-							mimeType: "text/markdown",
-							text: searchSyntaxDoc,
-						},
-					],
-				};
+			async ({ query, include_extras }) => {
+				try {
+					const result = await this.scryfallClient.autocompleteCardName(query, {
+						include_extras,
+					});
+
+					if (result.data.length === 0) {
+						return {
+							content: [
+								{
+									type: "text",
+									text: `No card names match "${query}".`,
+								},
+							],
+						};
+					}
+
+					return {
+						content: [
+							{
+								type: "text",
+								text: `Card names matching "${query}":\n${result.data
+									.map((name) => `- ${name}`)
+									.join("\n")}${this.staleNotice(result)}`,
+							},
+						],
+					};
+				} catch (error) {
+					if (error instanceof ScryfallAPIError) {
+						return {
+							content: [
+								{
+									type: "text",
+									text: `Error autocompleting card name: ${error.details}`,
+								},
+							],
+							isError: true,
+						};
+					}
+					throw error;
+				}
 			},
 		);
 
-		// Register field reference resource
-		this.server.resource(
-			"Available Card Fields",
-			"scryfall://fields/reference",
+		// List every printing of a card with its treatments and prices
+		this.server.registerTool(
+			"get_printings",
 			{
-				mimeType: "text/markdown",
-				description:
-					"Complete list of available fields for card data formatting with custom field arrays",
+				inputSchema: {
+					name: z
+						.string()
+						.describe("Card name; close misspellings are matched fuzzily"),
+					treatment: z
+						.enum(PRINTING_TREATMENTS)
+						.optional()
+						.describe(
+							"Only list printings with this treatment, e.g. 'showcase' or 'borderless'",
+						),
+					order: z
+						.enum(["released", "price"])
+						.default("released")
+						.describe(
+							"'released' (newest first) or 'price' (cheapest USD price first)",
+						),
+				},
+				outputSchema: PRINTINGS_OUTPUT,
 			},
-			async () => {
-				const fieldDoc = `# Available Card Fields
+			async ({ name, treatment, order }) => {
+				try {
+					const card = await this.scryfallClient.getCardNamed(name, {
+						fuzzy: true,
+					});
+					const printings = await this.scryfallClient.getPrintings(card);
+					const selected = selectPrintings(printings.data, {
+						treatment,
+						order,
+					});
 
-This reference lists all available fields you can use when requesting card data with custom field arrays.
+					return {
+						content: [
+							{
+								type: "text",
+								text: `${formatPrintings(card.name, selected, printings.data.length, treatment)}${this.staleNotice(card, printings)}`,
+							},
+						],
+						structuredContent: {
+							name: card.name,
+							total_printings: printings.data.length,
+							cards: selected.map((printing) => ({
+								...projectCard(printing, PRINTING_FIELDS),
+								treatments: classifyPrinting(printing),
+							})),
+						},
+					};
+				} catch (error) {
+					if (error instanceof ScryfallAPIError) {
+						return {
+							content: [
+								{
+									type: "text",
+									text: `Error fetching printings: ${error.details}`,
+								},
+							],
+							isError: true,
+						};
+					}
+					throw error;
+				}
+			},
+		);
+
+		// Compare cards side by side, field by field
+		this.server.registerTool(
+			"compare_cards",
+			{
+				inputSchema: {
+					names: z
+						.array(z.string())
+						.min(2)
+						.max(6)
+						.describe("2 to 6 exact card names to compare"),
+					fields: z
+						.union([z.array(z.string()), z.enum(FIELD_GROUP_KEYS)])
+						.optional()
+						.describe(
+							"Optional field selection - either an array of field names (e.g., ['mana_cost', 'oracle_text', 'legalities']) or a predefined group ('minimal', 'gameplay', 'pricing', 'imagery', 'full'). Defaults to the gameplay fields plus legalities and prices.",
+						),
+					only_differences: z
+						.boolean()
+						.default(false)
+						.describe("Only show the fields where the cards differ"),
+				},
+				outputSchema: COMPARISON_OUTPUT,
+			},
+			async ({ names, fields, only_differences }) => {
+				try {
+					const result = await this.scryfallClient.getCollection(
+						names.map((name) => ({ name })),
+					);
+					const notFound = formatNotFound(result.not_found);
+
+					if (result.data.length < 2) {
+						return {
+							content: [
+								{
+									type: "text",
+									text: `Need at least two cards to compare.${notFound ? `\n\n${notFound}` : ""}`,
+								},
+							],
+							isError: true,
+						};
+					}
+
+					const { fields: selected, warnings } = selectFields(
+						fields ?? COMPARISON_FIELDS,
+					);
+					const table = formatCardComparison(
+						result.data,
+						selected,
+						only_differences,
+					);
+					return {
+						content: [
+							{
+								type: "text",
+								text: `${table}${notFound ? `\n\n${notFound}` : ""}${formatFieldWarnings(warnings)}${this.staleNotice(result)}`,
+							},
+						],
+						structuredContent: {
+							cards: projectCards(result.data, selected, result.data.length),
+							differences: differingFields(result.data, selected),
+							not_found: result.not_found,
+							warnings: warnings.length > 0 ? warnings : undefined,
+						},
+					};
+				} catch (error) {
+					if (error instanceof ScryfallAPIError) {
+						return {
+							content: [
+								{
+									type: "text",
+									text: `Error comparing cards: ${error.details}`,
+								},
+							],
+							isError: true,
+						};
+					}
+					throw error;
+				}
+			},
+		);
+
+		// Find cards with similar effects, e.g. budget swaps or replacements
+		this.server.registerTool(
+			"find_similar_cards",
+			{
+				inputSchema: {
+					name: z
+						.string()
+						.describe("Card name; close misspellings are matched fuzzily"),
+					format: z
+						.enum(FORMATS)
+						.optional()
+						.describe("Only suggest cards legal in this format"),
+					identity: z
+						.string()
+						.optional()
+						.describe(
+							"Only suggest cards that fit this color identity, as letters (e.g. 'rg') or a name (e.g. 'gruul')",
+						),
+					max_usd: z
+						.number()
+						.min(0)
+						.optional()
+						.describe("Only suggest cards costing at most this much in USD"),
+					limit: z
+						.number()
+						.int()
+						.min(1)
+						.max(25)
+						.default(10)
+						.describe("Number of similar cards to return"),
+				},
+				outputSchema: SIMILAR_CARDS_OUTPUT,
+			},
+			async ({ name, format, identity, max_usd, limit }) => {
+				try {
+					const card = await this.scryfallClient.getCardNamed(name, {
+						fuzzy: true,
+					});
+
+					let query: string;
+					try {
+						query = similarCardsQuery(card, {
+							format,
+							identity,
+							maxUsd: max_usd,
+						});
+					} catch (error) {
+						return {
+							content: [
+								{
+									type: "text",
+									text: `Error finding similar cards: ${error instanceof Error ? error.message : String(error)}`,
+								},
+							],
+							isError: true,
+						};
+					}
+
+					let candidates: ScryfallCard[] = [];
+					const responses: unknown[] = [card];
+					try {
+						const result = await this.scryfallClient.searchAllCards(
+							query,
+							{ order: "edhrec" },
+							SIMILAR_CARD_CANDIDATES,
+						);
+						candidates = result.data;
+						responses.push(result);
+					} catch (error) {
+						// Searches without any matches answer with a 404
+						if (!(error instanceof ScryfallAPIError && error.status === 404)) {
+							throw error;
+						}
+					}
+
+					const similar = rankSimilarCards(card, candidates, limit);
+					return {
+						content: [
+							{
+								type: "text",
+								text: `${formatSimilarCards(card, similar, query)}${this.staleNotice(...responses)}`,
+							},
+						],
+						structuredContent: {
+							name: card.name,
+							query,
+							cards: similar.map(({ card: match, similarity }) => ({
+								card: projectCard(match, SIMILAR_CARD_FIELDS),
+								similarity: {
+									score: similarity.score,
+									text: similarity.text,
+									type: similarity.type,
+									mana_value: similarity.manaValue,
+									color: similarity.color,
+								},
+							})),
+						},
+					};
+				} catch (error) {
+					if (error instanceof ScryfallAPIError) {
+						return {
+							content: [
+								{
+									type: "text",
+									text: `Error finding similar cards: ${error.details}`,
+								},
+							],
+							isError: true,
+						};
+					}
+					throw error;
+				}
+			},
+		);
+
+		// Get official rulings for one or more cards
+		this.server.registerTool(
+			"get_card_rulings",
+			{
+				inputSchema: {
+					names: z
+						.array(z.string())
+						.optional()
+						.describe("Exact card names to look up rulings for"),
+					ids: z
+						.array(z.string())
+						.optional()
+						.describe("Scryfall card IDs to look up rulings for"),
+					oracle_ids: z
+						.array(z.string())
+						.optional()
+						.describe(
+							"Oracle IDs to look up rulings for (shared by every printing of a card)",
+						),
+				},
+				outputSchema: RULINGS_OUTPUT,
+			},
+			async ({ names = [], ids = [], oracle_ids = [] }) => {
+				const identifiers: CardIdentifier[] = [
+					...names.map((name) => ({ name })),
+					...ids.map((id) => ({ id })),
+					...oracle_ids.map((oracle_id) => ({ oracle_id })),
+				];
+
+				if (identifiers.length === 0) {
+					return {
+						content: [
+							{
+								type: "text",
+								text: "Provide at least one card name, Scryfall ID or oracle ID.",
+							},
+						],
+						isError: true,
+					};
+				}
+
+				try {
+					const result = await this.scryfallClient.getCollection(identifiers);
+
+					// Rulings belong to the oracle card, so only fetch them once per oracle ID
+					const cards = result.data.filter(
+						(card, index, all) =>
+							all.findIndex((other) => other.oracle_id === card.oracle_id) ===
+							index,
+					);
+
+					const sections: string[] = [];
+					const responses: unknown[] = [result];
+					const structured: Record<string, unknown>[] = [];
+					for (const card of cards) {
+						const rulings = await this.scryfallClient.getRulings(card.id);
+						responses.push(rulings);
+						sections.push(formatRulings(card, rulings.data));
+						structured.push({
+							card: projectCard(card, ["name", "oracle_id"]),
+							rulings: rulings.data.map(
+								({ source, published_at, comment }) => ({
+									source,
+									published_at,
+									comment,
+								}),
+							),
+						});
+					}
+
+					const notFound = formatNotFound(result.not_found);
+					if (notFound) {
+						sections.push(notFound);
+					}
+
+					return {
+						content: [
+							{
+								type: "text",
+								text: `${sections.join("\n\n---\n\n")}${this.staleNotice(...responses)}`,
+							},
+						],
+						structuredContent: {
+							cards: structured,
+							not_found: result.not_found,
+						},
+						isError: cards.length === 0,
+					};
+				} catch (error) {
+					if (error instanceof ScryfallAPIError) {
+						return {
+							content: [
+								{
+									type: "text",
+									text: `Error fetching rulings: ${error.details}`,
+								},
+							],
+							isError: true,
+						};
+					}
+					throw error;
+				}
+			},
+		);
+
+		// Parse a pasted decklist and resolve every entry to a Scryfall card
+		this.server.registerTool(
+			"import_decklist",
+			{
+				inputSchema: {
+					decklist: z
+						.string()
+						.describe(
+							'Decklist text in MTGA, MTGO or plain format, one card per line (e.g., "4 Lightning Bolt (M10) 146", "4x Counterspell", "SB: 2 Duress"). Section headers like "Deck", "Sideboard", "Commander" and "Companion" are recognized; without headers, a blank line starts the sideboard.',
+						),
+				},
+				outputSchema: DECKLIST_OUTPUT,
+			},
+			async ({ decklist }) =>
+				this.reportOnDecklist(decklist, (deck) => ({
+					text: formatResolvedDecklist(deck),
+					structuredContent: decklistOutput(deck),
+				})),
+		);
+
+		// Check a decklist against the Commander deck construction rules
+		this.server.tool(
+			"validate_commander_deck",
+			{
+				decklist: z
+					.string()
+					.describe(
+						'Decklist text in the same formats as import_decklist, with the commander (or both partners) under a "Commander" header',
+					),
+				commanders: z
+					.array(z.string())
+					.optional()
+					.describe(
+						"Names of the commander(s) when the decklist has no Commander section; these cards are taken from the main deck or sideboard",
+					),
+			},
+			async ({ decklist, commanders }) =>
+				this.reportOnDecklist(decklist, (deck) =>
+					formatDeckValidation(validateCommanderDeck(deck, commanders), deck),
+				),
+		);
+
+		// Check a decklist against a 60-card constructed format
+		this.server.tool(
+			"validate_deck",
+			{
+				decklist: z
+					.string()
+					.describe(
+						'Decklist text in the same formats as import_decklist; the sideboard goes under a "Sideboard" header or after a blank line',
+					),
+				format: z
+					.enum(CONSTRUCTED_FORMAT_KEYS)
+					.describe("Constructed format to check, e.g. 'modern' or 'vintage'"),
+			},
+			async ({ decklist, format }) =>
+				this.reportOnDecklist(decklist, (deck) =>
+					formatDeckValidation(validateConstructedDeck(deck, format), deck),
+				),
+		);
+
+		// Mana curve, pips, types and colors of a decklist
+		this.server.registerTool(
+			"analyze_deck",
+			{
+				inputSchema: {
+					decklist: z
+						.string()
+						.describe("Decklist text in the same formats as import_decklist"),
+				},
+				outputSchema: DECK_STATS_OUTPUT,
+			},
+			async ({ decklist }) =>
+				this.reportOnDecklist(decklist, (deck) => {
+					const stats = analyzeDeck(deck);
+					return {
+						text: formatDeckStats(stats, deck),
+						structuredContent: deckStatsOutput(stats),
+					};
+				}),
+		);
+
+		// Hypergeometric odds of drawing groups of cards from a decklist
+		this.server.tool(
+			"draw_odds",
+			{
+				decklist: z
+					.string()
+					.describe("Decklist text in the same formats as import_decklist"),
+				groups: z
+					.array(
+						z.object({
+							label: z
+								.string()
+								.optional()
+								.describe("Name for the group, e.g. 'Red sources'"),
+							cards: z
+								.array(z.string())
+								.optional()
+								.describe("Card names in the group"),
+							query: z
+								.string()
+								.optional()
+								.describe(
+									"Scryfall query matched against the deck's cards, e.g. 't:land', 'mv=1 -t:land' or 'o:\"add {R}\"'",
+								),
+							at_least: z
+								.number()
+								.int()
+								.min(1)
+								.default(1)
+								.describe("Number of the group's cards wanted"),
+						}),
+					)
+					.min(1)
+					.describe(
+						"Groups of cards to draw, each by name, by query or both (cards matching either count)",
+					),
+				turn: z
+					.number()
+					.int()
+					.min(1)
+					.max(20)
+					.default(1)
+					.describe("Show odds up to this turn; turn 1 is the opening hand"),
+				on: z
+					.enum(["play", "draw"])
+					.default("play")
+					.describe("On the play (no draw on turn 1) or on the draw"),
+				hand_size: z
+					.number()
+					.int()
+					.min(1)
+					.max(OPENING_HAND_SIZE)
+					.default(OPENING_HAND_SIZE)
+					.describe(
+						"Cards kept after London mulligans, e.g. 6 after one mulligan",
+					),
+			},
+			async ({ decklist, groups, turn, on, hand_size }) => {
+				let cardGroups: CardGroup[];
+				try {
+					cardGroups = groups.map((group) =>
+						compileCardGroup({ ...group, atLeast: group.at_least }),
+					);
+				} catch (error) {
+					if (error instanceof ScryfallAPIError) {
+						return {
+							content: [
+								{
+									type: "text",
+									text: `Invalid card group: ${error.details}`,
+								},
+							],
+							isError: true,
+						};
+					}
+					throw error;
+				}
+
+				return this.reportOnDecklist(decklist, (deck) =>
+					formatDrawOdds(deck, cardGroups, {
+						turn,
+						onDraw: on === "draw",
+						handSize: hand_size,
+					}),
+				);
+			},
+		);
+
+		// Goldfish sandbox: load a deck, then shuffle, mulligan and draw
+		this.server.tool(
+			"playtest_load_deck",
+			{
+				decklist: z
+					.string()
+					.describe("Decklist text in the same formats as import_decklist"),
+			},
+			async ({ decklist }) =>
+				this.reportOnDecklist(decklist, (deck) => {
+					const state = createPlaytest(deck);
+					this.playtestStore.set(state);
+
+					const notFound =
+						deck.unresolved.length > 0
+							? `\n\n**Not found, so not in the deck (${deck.unresolved.length}):** ${deck.unresolved.map((entry) => `${entry.quantity} ${entry.name}`).join(", ")}`
+							: "";
+					return `${formatPlaytest(state)}${notFound}`;
+				}),
+		);
+
+		this.server.tool(
+			"playtest_shuffle",
+			{
+				seed: z
+					.number()
+					.int()
+					.min(0)
+					.optional()
+					.describe(
+						"Seed for the shuffle; the same seed gives the same game. Omit for a random seed, which is shown so the game can be replayed.",
+					),
+				on: z
+					.enum(["play", "draw"])
+					.default("play")
+					.describe("On the play (no draw on turn 1) or on the draw"),
+			},
+			async ({ seed, on }) =>
+				this.playtestAction((state) => ({
+					state: newGame(
+						state,
+						seed ?? Math.floor(Math.random() * 2 ** 32),
+						on === "draw",
+					),
+				})),
+		);
+
+		this.server.tool("playtest_mulligan", {}, async () =>
+			this.playtestAction((state) => ({ state: mulligan(state) })),
+		);
+
+		this.server.tool(
+			"playtest_keep",
+			{
+				bottom: z
+					.array(z.string())
+					.default([])
+					.describe(
+						"Names of the cards to put on the bottom, one per mulligan taken",
+					),
+			},
+			async ({ bottom }) =>
+				this.playtestAction((state) => ({ state: keepHand(state, bottom) })),
+		);
+
+		this.server.tool(
+			"playtest_draw",
+			{
+				count: z
+					.number()
+					.int()
+					.min(1)
+					.max(10)
+					.default(1)
+					.describe("Cards to draw this turn, for effects that draw extra"),
+			},
+			async ({ count }) =>
+				this.playtestAction((state) => drawForTurn(state, count)),
+		);
+
+		this.server.tool("playtest_status", {}, async () =>
+			this.playtestAction((state) => ({ state })),
+		);
+
+		// Total the price of a decklist, optionally at each card's cheapest printing
+		this.server.tool(
+			"price_deck",
+			{
+				decklist: z
+					.string()
+					.describe("Decklist text in the same formats as import_decklist"),
+				currency: z
+					.enum(PRICE_CURRENCIES)
+					.default("usd")
+					.describe(
+						"Currency: 'usd' (TCGplayer), 'eur' (Cardmarket) or 'tix' (MTGO)",
+					),
+				finish: z
+					.enum(PRICE_FINISHES)
+					.default("nonfoil")
+					.describe(
+						"Finish to price: 'nonfoil', 'foil' or 'etched' (USD only); ignored for tix",
+					),
+				cheapest: z
+					.boolean()
+					.default(false)
+					.describe(
+						"Price each card at its cheapest printing instead of the printing in the list. Looks up every printing of every card, so large decks take a while.",
+					),
+			},
+			async ({ decklist, currency, finish, cheapest }) => {
+				if (!isPriceAvailable(currency, finish)) {
+					return {
+						content: [
+							{
+								type: "text",
+								text: `Scryfall has no ${currency.toUpperCase()} prices for ${finish} cards`,
+							},
+						],
+						isError: true,
+					};
+				}
+
+				return this.reportOnDecklist(
+					decklist,
+					async (deck) => {
+						let replacements: Map<string, ScryfallCard> | undefined;
+						const responses: unknown[] = [];
+						if (cheapest) {
+							replacements = new Map();
+							for (const { card } of deck.cards) {
+								if (replacements.has(card.name)) continue;
+								const printings = await this.scryfallClient.getPrintings(card);
+								responses.push(printings);
+								replacements.set(
+									card.name,
+									cheapestPrinting(printings.data, currency, finish) ?? card,
+								);
+							}
+						}
+
+						const price = priceDeck(deck, currency, finish, replacements);
+						return `${formatDeckPrice(price, deck)}${this.staleNotice(...responses)}`;
+					},
+					"pricing decklist",
+				);
+			},
+		);
+
+		// List sets, optionally filtered
+		this.server.tool(
+			"list_sets",
+			{
+				set_type: z
+					.string()
+					.optional()
+					.describe(
+						"Only include sets of this type (e.g., 'expansion', 'core', 'masters', 'commander', 'draft_innovation', 'funny')",
+					),
+				released_after: z
+					.string()
+					.regex(/^\d{4}-\d{2}-\d{2}$/)
+					.optional()
+					.describe(
+						"Only include sets released on or after this date (YYYY-MM-DD)",
+					),
+				released_before: z
+					.string()
+					.regex(/^\d{4}-\d{2}-\d{2}$/)
+					.optional()
+					.describe(
+						"Only include sets released on or before this date (YYYY-MM-DD)",
+					),
+				digital: z
+					.boolean()
+					.optional()
+					.describe(
+						"true for digital-only sets (MTGO, Arena), false for paper sets",
+					),
+				name: z
+					.string()
+					.optional()
+					.describe(
+						"Case-insensitive substring of the set name, or an exact set code",
+					),
+				limit: z
+					.number()
+					.int()
+					.min(1)
+					.max(500)
+					.default(50)
+					.describe("Maximum number of sets to list. Defaults to 50."),
+			},
+			async ({
+				set_type,
+				released_after,
+				released_before,
+				digital,
+				name,
+				limit,
+			}) => {
+				try {
+					const result = await this.scryfallClient.getSets();
+					const sets = filterSets(result.data, {
+						setType: set_type,
+						releasedAfter: released_after,
+						releasedBefore: released_before,
+						digital,
+						name,
+					});
+
+					if (sets.length === 0) {
+						return {
+							content: [
+								{
+									type: "text",
+									text: "No sets match the given filters.",
+								},
+							],
+						};
+					}
+
+					return {
+						content: [
+							{
+								type: "text",
+								text: `${formatSets(sets, limit)}${this.staleNotice(result)}`,
+							},
+						],
+					};
+				} catch (error) {
+					if (error instanceof ScryfallAPIError) {
+						return {
+							content: [
+								{
+									type: "text",
+									text: `Error fetching sets: ${error.details}`,
+								},
+							],
+							isError: true,
+						};
+					}
+					throw error;
+				}
+			},
+		);
+
+		// Look up values in a Scryfall catalog (creature types, keywords, ...)
+		this.server.tool(
+			"lookup_catalog",
+			{
+				catalog: z
+					.enum(CATALOG_TYPES)
+					.describe(
+						"Catalog to search, e.g. 'creature-types' before writing t: queries or 'keyword-abilities' before writing kw: queries",
+					),
+				query: z
+					.string()
+					.optional()
+					.describe(
+						"Case-insensitive text to look for. Omit to list the whole catalog.",
+					),
+				match: z
+					.enum(["substring", "prefix", "exact"])
+					.default("substring")
+					.describe(
+						"How the query must match each value. Defaults to 'substring'.",
+					),
+				limit: z
+					.number()
+					.int()
+					.min(1)
+					.max(1000)
+					.default(100)
+					.describe("Maximum number of values to list. Defaults to 100."),
+			},
+			async ({ catalog, query, match, limit }) => {
+				try {
+					const result = await this.scryfallClient.getCatalog(catalog);
+					const values = filterCatalog(result.data, query, match);
+
+					if (values.length === 0) {
+						return {
+							content: [
+								{
+									type: "text",
+									text: `No values in ${catalog} match "${query}".`,
+								},
+							],
+						};
+					}
+
+					return {
+						content: [
+							{
+								type: "text",
+								text: `${formatCatalog(catalog, values, limit)}${this.staleNotice(result)}`,
+							},
+						],
+					};
+				} catch (error) {
+					if (error instanceof ScryfallAPIError) {
+						return {
+							content: [
+								{
+									type: "text",
+									text: `Error fetching catalog: ${error.details}`,
+								},
+							],
+							isError: true,
+						};
+					}
+					throw error;
+				}
+			},
+		);
+
+		// Parse a mana cost and explain each symbol
+		this.server.tool(
+			"parse_mana_cost",
+			{
+				cost: z
+					.string()
+					.describe(
+						'Mana cost to parse, in Comprehensive Rules notation or loose shorthand (e.g., "{2}{W}{W}", "2ww", "{G/P}", "xrr")',
+					),
+			},
+			async ({ cost }) => {
+				try {
+					const [parsed, symbology] = await Promise.all([
+						this.scryfallClient.parseMana(cost),
+						this.scryfallClient.getSymbology(),
+					]);
+
+					return {
+						content: [
+							{
+								type: "text",
+								text: `${formatParsedMana(parsed, symbology.data)}${this.staleNotice(parsed, symbology)}`,
+							},
+						],
+					};
+				} catch (error) {
+					if (error instanceof ScryfallAPIError) {
+						return {
+							content: [
+								{
+									type: "text",
+									text: `Error parsing mana cost: ${error.details}`,
+								},
+							],
+							isError: true,
+						};
+					}
+					throw error;
+				}
+			},
+		);
+
+		// Load or refresh the offline card index from a bulk data file
+		this.server.tool(
+			"load_card_index",
+			{
+				bulk_type: z
+					.enum(BULK_DATA_TYPES)
+					.optional()
+					.describe(
+						"Scryfall bulk data file to download: 'oracle_cards' (one entry per card, recommended) or 'default_cards' (every English printing, much larger). Defaults to 'oracle_cards'.",
+					),
+				url: z
+					.string()
+					.url()
+					.optional()
+					.describe(
+						"Download a bulk data file from this URL instead, e.g. a mirror reachable from an air-gapped network",
+					),
+				data: z
+					.string()
+					.optional()
+					.describe(
+						"Bulk data JSON (an array of Scryfall card objects) to load directly, with no network access",
+					),
+				refresh: z
+					.boolean()
+					.optional()
+					.describe(
+						"Reload from the same bulk data type or URL as the current index, ignoring the other parameters",
+					),
+			},
+			async ({ bulk_type, url, data, refresh }) => {
+				let source: LocalIndexSource;
+				if (refresh) {
+					const status = this.localIndex.status();
+					if (!status) {
+						return {
+							content: [
+								{
+									type: "text",
+									text: "The local card index is empty, so there is nothing to refresh.",
+								},
+							],
+							isError: true,
+						};
+					}
+					source = status.source;
+				} else if (data !== undefined) {
+					source = { kind: "inline" };
+				} else if (url) {
+					source = { kind: "url", url };
+				} else {
+					source = { kind: "bulk_data", bulkType: bulk_type ?? "oracle_cards" };
+				}
 
-## Field Groups
+				try {
+					const status = await this.localIndex.load(
+						this.scryfallClient,
+						source,
+						data,
+					);
+					const hint =
+						this.scryfallClient.getBackend() === "local"
+							? ""
+							: "\n\nUse set_card_backend with backend 'local' to answer card lookups from this index.";
 
-You can use predefined field groups for convenience:
+					return {
+						content: [
+							{
+								type: "text",
+								text: `${formatIndexStatus(status, this.scryfallClient.getBackend())}${hint}`,
+							},
+						],
+					};
+				} catch (error) {
+					// Malformed files surface as plain errors from the bulk data reader
+					const details =
+						error instanceof ScryfallAPIError
+							? error.details
+							: error instanceof Error
+								? error.message
+								: undefined;
+					if (details !== undefined) {
+						return {
+							content: [
+								{
+									type: "text",
+									text: `Error loading card index: ${details}`,
+								},
+							],
+							isError: true,
+						};
+					}
+					throw error;
+				}
+			},
+		);
 
-### minimal
-${FIELD_GROUP_MAPPINGS.minimal.map((f) => `- ${f}`).join("\n")}
+		// Switch card lookups between the Scryfall API and the local index
+		this.server.tool(
+			"set_card_backend",
+			{
+				backend: z
+					.enum(["api", "local"])
+					.optional()
+					.describe(
+						"'api' queries Scryfall; 'local' answers search_cards, get_card_details, get_random_card and autocomplete_card_name from the index built by load_card_index. Omit to report the current backend and index status.",
+					),
+			},
+			async ({ backend }) => {
+				const status = this.localIndex.status();
 
-### gameplay
-${FIELD_GROUP_MAPPINGS.gameplay.map((f) => `- ${f}`).join("\n")}
+				if (backend === "local" && !status) {
+					return {
+						content: [
+							{
+								type: "text",
+								text: "The local card index is empty. Load one with load_card_index first.",
+							},
+						],
+						isError: true,
+					};
+				}
 
-### pricing
-${FIELD_GROUP_MAPPINGS.pricing.map((f) => `- ${f}`).join("\n")}
+				if (backend) {
+					this.scryfallClient.setBackend(backend);
+					await this.ctx.storage.put("card_backend", backend);
+				}
 
-### imagery
-${FIELD_GROUP_MAPPINGS.imagery.map((f) => `- ${f}`).join("\n")}
+				return {
+					content: [
+						{
+							type: "text",
+							text: formatIndexStatus(status, this.scryfallClient.getBackend()),
+						},
+					],
+				};
+			},
+		);
 
-### full
-${FIELD_GROUP_MAPPINGS.full.map((f) => `- ${f}`).join("\n")}
+		// Register per-set resource with metadata and a rarity summary
+		this.server.resource(
+			"Scryfall Set",
+			new ResourceTemplate("scryfall://sets/{code}", {
+				list: undefined,
+				complete: {
+					code: async (value) => {
+						const result = await this.scryfallClient.getSets();
+						const prefix = value.toLowerCase();
+						return result.data
+							.map((set) => set.code)
+							.filter((code) => code.startsWith(prefix))
+							.slice(0, 100);
+					},
+				},
+			}),
+			{
+				mimeType: "text/markdown",
+				description:
+					"Set metadata (type, release date, card count) plus a card count by rarity, e.g. scryfall://sets/mh3",
+			},
+			async (uri, { code }) => {
+				const set = await this.scryfallClient.getSet(String(code));
 
-## All Valid Fields
+				// Walk the set's search results to count cards by rarity
+				const cards: ScryfallCard[] = [];
+				let nextPage: string | undefined = set.search_uri;
+				let pages = 0;
+				while (nextPage && pages < SET_SUMMARY_MAX_PAGES) {
+					try {
+						const page: ScryfallList<ScryfallCard> =
+							await this.scryfallClient.getListByUri(nextPage);
+						cards.push(...page.data);
+						nextPage = page.has_more ? page.next_page : undefined;
+					} catch (error) {
+						// Sets without any cards answer the search with a 404
+						if (error instanceof ScryfallAPIError && error.status === 404) {
+							nextPage = undefined;
+							break;
+						}
+						throw error;
+					}
+					pages++;
+				}
 
-The predefined field group "full" contains all valid fields. 
+				return {
+					contents: [
+						{
+							uri: uri.href,
+							mimeType: "text/markdown",
+							text: formatSetDetails(
+								set,
+								summarizeSetCards(cards, nextPage === undefined),
+							),
+						},
+					],
+				};
+			},
+		);
 
-## Usage Examples
+		// MCP completion only applies to prompts and resource templates, so mirror
+		// get_card_details as a prompt whose names argument offers card-name suggestions
+		this.server.prompt(
+			"get_card_details",
+			"Look up one or more cards by name with get_card_details",
+			{
+				names: completable(
+					z
+						.string()
+						.describe(
+							"Comma-separated card names, e.g. 'Lightning Bolt, Counterspell'",
+						),
+					async (value) =>
+						completeNameList(value, async (partial) => {
+							const result =
+								await this.scryfallClient.autocompleteCardName(partial);
+							return result.data;
+						}),
+				),
+			},
+			({ names }) => {
+				const cardNames = names
+					.split(",")
+					.map((name) => name.trim())
+					.filter((name) => name.length > 0);
 
-### Using a predefined group:
-\`\`\`
-{ "fields": "minimal" }
-\`\`\`
+				return {
+					messages: [
+						{
+							role: "user",
+							content: {
+								type: "text",
+								text: `Use the get_card_details tool to look up these cards: ${JSON.stringify(cardNames)}`,
+							},
+						},
+					],
+				};
+			},
+		);
 
-### Using a custom field array:
-\`\`\`
-{ "fields": ["name", "mana_cost", "prices"] }
-\`\`\`
+		// Register comprehensive search syntax documentation resource
+		this.server.resource(
+			"Scryfall Search Syntax - Complete Reference",
+			"scryfall://search-syntax/full",
+			{
+				mimeType: "text/markdown",
+				description:
+					"Complete reference guide for constructing Scryfall search queries with all keywords, operators, and advanced filters",
+			},
+			async () => {
+				return {
+					contents: [
+						{
+							uri: "scryfall://search-syntax/full",
+							mimeType: "text/markdown",
+							text: searchSyntaxDoc,
+						},
+					],
+				};
+			},
+		);
 
-### Using nested fields:
-\`\`\`
-{ "fields": ["name", "prices.usd", "prices.eur"] }
-\`\`\`
+		// Register card symbology reference resource
+		this.server.resource(
+			"Card Symbols",
+			"scryfall://symbology",
+			{
+				mimeType: "text/markdown",
+				description:
+					"Every mana and card-text symbol explained in English (hybrid, Phyrexian, snow, half mana, ...) with its SVG image URI",
+			},
+			async () => {
+				const result = await this.scryfallClient.getSymbology();
+				return {
+					contents: [
+						{
+							uri: "scryfall://symbology",
+							mimeType: "text/markdown",
+							text: formatSymbology(result.data),
+						},
+					],
+				};
+			},
+		);
 
-Note: Fields marked as objects (like "prices", "legalities", "image_uris") contain nested data. You can request the entire object or use dot notation for specific nested fields.
-`;
+		// Register one resource per Scryfall catalog
+		for (const catalogType of CATALOG_TYPES) {
+			const uri = `scryfall://catalog/${catalogType}`;
+			this.server.resource(
+				`Scryfall Catalog - ${catalogType}`,
+				uri,
+				{
+					mimeType: "text/markdown",
+					description: CATALOG_DESCRIPTIONS[catalogType],
+				},
+				async () => {
+					const result = await this.scryfallClient.getCatalog(catalogType);
+					return {
+						contents: [
+							{
+								uri,
+								mimeType: "text/markdown",
+								text: formatCatalog(catalogType, result.data),
+							},
+						],
+					};
+				},
+			);
+		}
 
+		// Register field reference resource
+		this.server.resource(
+			"Available Card Fields",
+			"scryfall://fields/reference",
+			{
+				mimeType: "text/markdown",
+				description:
+					"Complete list of available fields for card data formatting with custom field arrays",
+			},
+			async () => {
 				return {
 					contents: [
 						{
 							uri: "scryfall://fields/reference",
 							mimeType: "text/markdown",
-							text: fieldDoc,
+							text: formatFieldReference(),
 						},
 					],
 				};
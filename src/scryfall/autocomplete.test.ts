@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { completeNameList } from "./autocomplete.js";
+
+const suggest = async (partial: string) =>
+	["Counterspell", "Counterbalance", "Lightning Bolt"].filter((name) =>
+		name.toLowerCase().startsWith(partial.toLowerCase()),
+	);
+
+describe("completeNameList", () => {
+	it("completes a single partial name", async () => {
+		expect(await completeNameList("light", suggest)).toEqual([
+			"Lightning Bolt",
+		]);
+	});
+
+	it("completes the last name and keeps earlier names", async () => {
+		expect(await completeNameList("Lightning Bolt, counter", suggest)).toEqual([
+			"Lightning Bolt, Counterspell",
+			"Lightning Bolt, Counterbalance",
+		]);
+	});
+
+	it("does not look up fewer than 2 characters", async () => {
+		const calls: string[] = [];
+		const result = await completeNameList(
+			"Lightning Bolt, c",
+			async (partial) => {
+				calls.push(partial);
+				return [];
+			},
+		);
+		expect(result).toEqual([]);
+		expect(calls).toEqual([]);
+	});
+});
@@ -0,0 +1,29 @@
+/**
+ * Card name completion helpers
+ */
+
+// Scryfall's autocomplete endpoint ignores anything shorter than this
+export const MIN_AUTOCOMPLETE_LENGTH = 2;
+
+/**
+ * Complete the last name in a comma-separated list of card names
+ * Earlier names are kept as typed so a client can replace the whole value.
+ * @param value - Partial argument value, e.g. "Lightning Bolt, Counter"
+ * @param suggest - Looks up card names for a partial name
+ * @returns Full argument values with the last name completed
+ */
+export async function completeNameList(
+	value: string,
+	suggest: (partial: string) => Promise<string[]>,
+): Promise<string[]> {
+	const separator = value.lastIndexOf(",");
+	const prefix = separator === -1 ? "" : `${value.slice(0, separator + 1)} `;
+	const partial = value.slice(separator + 1).trim();
+
+	if (partial.length < MIN_AUTOCOMPLETE_LENGTH) {
+		return [];
+	}
+
+	const names = await suggest(partial);
+	return names.map((name) => `${prefix}${name}`);
+}
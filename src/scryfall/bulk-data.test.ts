@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { parseBulkLine, readBulkRecords, toScryfallCard } from "./bulk-data.js";
+import { mockCard } from "./test-helpers.js";
+
+async function collect(
+	source: ReadableStream<Uint8Array> | string,
+): Promise<unknown[]> {
+	const records: unknown[] = [];
+	for await (const record of readBulkRecords(source)) {
+		records.push(record);
+	}
+	return records;
+}
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder();
+	return new ReadableStream({
+		start(controller) {
+			for (const chunk of chunks) {
+				controller.enqueue(encoder.encode(chunk));
+			}
+			controller.close();
+		},
+	});
+}
+
+const BULK_FILE = `[
+{"object":"card","id":"a","name":"Opt"},
+{"object":"card","id":"b","name":"Ponder"}
+]
+`;
+
+describe("parseBulkLine", () => {
+	it("should strip trailing commas", () => {
+		expect(parseBulkLine('{"id":"a"},')).toEqual([{ id: "a" }]);
+	});
+
+	it("should ignore bracket-only and blank lines", () => {
+		expect(parseBulkLine("[")).toEqual([]);
+		expect(parseBulkLine("]")).toEqual([]);
+		expect(parseBulkLine("   ")).toEqual([]);
+	});
+
+	it("should handle records sharing a line with a bracket", () => {
+		expect(parseBulkLine('[{"id":"a"},')).toEqual([{ id: "a" }]);
+		expect(parseBulkLine('{"id":"b"}]')).toEqual([{ id: "b" }]);
+	});
+
+	it("should read a compact array on one line", () => {
+		expect(parseBulkLine('[{"id":"a"},{"id":"b"}]')).toHaveLength(2);
+	});
+
+	it("should report the line number of invalid JSON", () => {
+		expect(() => parseBulkLine("{oops", 7)).toThrow("line 7");
+	});
+});
+
+describe("readBulkRecords", () => {
+	it("should read records from text", async () => {
+		const records = await collect(BULK_FILE);
+		expect(records).toHaveLength(2);
+	});
+
+	it("should read records split across stream chunks", async () => {
+		const records = await collect(
+			streamOf(
+				BULK_FILE.slice(0, 20),
+				BULK_FILE.slice(20, 50),
+				BULK_FILE.slice(50),
+			),
+		);
+		expect(records).toEqual([
+			{ object: "card", id: "a", name: "Opt" },
+			{ object: "card", id: "b", name: "Ponder" },
+		]);
+	});
+
+	it("should read a file without a trailing newline", async () => {
+		const records = await collect(
+			streamOf('[{"object":"card","id":"a","name":"Opt"}]'),
+		);
+		expect(records).toHaveLength(1);
+	});
+});
+
+describe("toScryfallCard", () => {
+	it("should keep a complete card as is", () => {
+		const card = mockCard({ name: "Opt" });
+		expect(toScryfallCard(card)).toEqual(card);
+	});
+
+	it("should fill in missing fields", () => {
+		const card = toScryfallCard({ object: "card", id: "a", name: "Opt" });
+
+		expect(card?.legalities).toEqual({});
+		expect(card?.prices).toEqual({});
+		expect(card?.color_identity).toEqual([]);
+		expect(card?.oracle_id).toBe("a");
+	});
+
+	it("should take the oracle ID and type line from the front face", () => {
+		const card = toScryfallCard({
+			object: "card",
+			id: "a",
+			name: "Reversible // Reversible",
+			card_faces: [
+				{ object: "card_face", oracle_id: "o", type_line: "Creature — Elf" },
+				{ object: "card_face", oracle_id: "o", type_line: "Creature — Elf" },
+			],
+		});
+
+		expect(card?.oracle_id).toBe("o");
+		expect(card?.type_line).toBe("Creature — Elf");
+	});
+
+	it("should reject records that are not cards", () => {
+		expect(toScryfallCard({ object: "set", id: "a", name: "Alpha" })).toBe(
+			undefined,
+		);
+		expect(toScryfallCard(null)).toBe(undefined);
+		expect(toScryfallCard({ object: "card", name: "No ID" })).toBe(undefined);
+	});
+});
@@ -0,0 +1,137 @@
+/**
+ * Reading Scryfall bulk data files
+ * Bulk files are JSON arrays written one card per line, so they can be read
+ * line by line instead of holding a file of several hundred MB in memory.
+ * https://scryfall.com/docs/api/bulk-data
+ */
+
+import type { ScryfallCard } from "./types.js";
+
+/**
+ * Parse one line of a bulk data file
+ * Tolerates the array brackets and trailing commas around each record, and
+ * compact files where the whole array sits on a single line.
+ * @returns The records on the line (usually one, none for bracket-only lines)
+ */
+export function parseBulkLine(line: string, lineNumber = 1): unknown[] {
+	let text = line.trim();
+
+	if (text.startsWith("[") && !text.endsWith("]")) text = text.slice(1);
+	if (text.endsWith("]") && !text.startsWith("[")) text = text.slice(0, -1);
+	text = text.trim();
+	if (text.endsWith(",")) text = text.slice(0, -1);
+
+	if (text === "") {
+		return [];
+	}
+
+	let value: unknown;
+	try {
+		value = JSON.parse(text);
+	} catch {
+		throw new Error(`Invalid bulk data JSON on line ${lineNumber}`);
+	}
+
+	return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Read every record from a bulk data file
+ * @param source - The file as a byte stream (e.g. a download) or as text
+ */
+export async function* readBulkRecords(
+	source: ReadableStream<Uint8Array> | string,
+): AsyncGenerator<unknown> {
+	if (typeof source === "string") {
+		const lines = source.split("\n");
+		for (let i = 0; i < lines.length; i++) {
+			yield* parseBulkLine(lines[i], i + 1);
+		}
+		return;
+	}
+
+	const reader = source.pipeThrough(new TextDecoderStream()).getReader();
+	let buffer = "";
+	let lineNumber = 0;
+
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done) break;
+
+		buffer += value;
+		let newline = buffer.indexOf("\n");
+		while (newline !== -1) {
+			lineNumber++;
+			yield* parseBulkLine(buffer.slice(0, newline), lineNumber);
+			buffer = buffer.slice(newline + 1);
+			newline = buffer.indexOf("\n");
+		}
+	}
+
+	yield* parseBulkLine(buffer, lineNumber + 1);
+}
+
+/**
+ * Map a bulk data record to a card, filling in fields the record may omit
+ * Reversible cards keep their oracle ID and type line on each face, so those
+ * are taken from the front face.
+ * @returns The card, or undefined when the record is not a card
+ */
+export function toScryfallCard(record: unknown): ScryfallCard | undefined {
+	if (typeof record !== "object" || record === null) {
+		return undefined;
+	}
+
+	const card = record as Partial<ScryfallCard> & Record<string, unknown>;
+	if (
+		card.object !== "card" ||
+		typeof card.id !== "string" ||
+		typeof card.name !== "string"
+	) {
+		return undefined;
+	}
+
+	const front = card.card_faces?.[0] as
+		| (Record<string, unknown> & { oracle_id?: string; type_line?: string })
+		| undefined;
+
+	return {
+		...card,
+		object: "card",
+		id: card.id,
+		name: card.name,
+		oracle_id: card.oracle_id ?? front?.oracle_id ?? card.id,
+		lang: card.lang ?? "en",
+		released_at: card.released_at ?? "",
+		uri: card.uri ?? `https://api.scryfall.com/cards/${card.id}`,
+		scryfall_uri: card.scryfall_uri ?? "",
+		layout: card.layout ?? "normal",
+		highres_image: card.highres_image ?? false,
+		image_status: card.image_status ?? "missing",
+		cmc: card.cmc ?? 0,
+		type_line: card.type_line ?? front?.type_line ?? "",
+		color_identity: card.color_identity ?? [],
+		legalities: card.legalities ?? {},
+		reserved: card.reserved ?? false,
+		foil: card.foil ?? false,
+		nonfoil: card.nonfoil ?? true,
+		set: card.set ?? "",
+		set_name: card.set_name ?? "",
+		set_type: card.set_type ?? "",
+		set_uri: card.set_uri ?? "",
+		set_search_uri: card.set_search_uri ?? "",
+		scryfall_set_uri: card.scryfall_set_uri ?? "",
+		rulings_uri: card.rulings_uri ?? "",
+		prints_search_uri: card.prints_search_uri ?? "",
+		collector_number: card.collector_number ?? "",
+		digital: card.digital ?? false,
+		rarity: card.rarity ?? "common",
+		finishes: card.finishes ?? [],
+		promo: card.promo ?? false,
+		border_color: card.border_color ?? "black",
+		frame: card.frame ?? "",
+		full_art: card.full_art ?? false,
+		prices: card.prices ?? {},
+		related_uris: card.related_uris ?? {},
+	};
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { cacheKey, cacheTtlFor, formatStaleNotice } from "./cache.js";
+
+describe("cacheTtlFor", () => {
+	it("should keep reference data longer than card data", () => {
+		const symbology = cacheTtlFor("/symbology");
+		const catalog = cacheTtlFor("/catalog/creature-types");
+		const sets = cacheTtlFor("https://api.scryfall.com/sets/neo");
+		const card = cacheTtlFor("/cards/named?exact=Lightning%20Bolt");
+
+		expect(card).toBeGreaterThan(0);
+		expect(sets).toBeGreaterThan(card);
+		expect(catalog).toBeGreaterThan(card);
+		expect(symbology).toBeGreaterThanOrEqual(catalog);
+	});
+
+	it("should cache rulings longer than card data", () => {
+		expect(cacheTtlFor("/cards/abc/rulings")).toBeGreaterThan(
+			cacheTtlFor("/cards/abc"),
+		);
+	});
+
+	it("should never cache random cards", () => {
+		expect(cacheTtlFor("/cards/random?q=t%3Aelf")).toBe(0);
+	});
+
+	it("should not cache unknown endpoints", () => {
+		expect(cacheTtlFor("/bulk-data")).toBe(0);
+	});
+});
+
+describe("cacheKey", () => {
+	it("should default to GET without a body", () => {
+		expect(cacheKey("https://api.scryfall.com/sets")).toBe(
+			"GET https://api.scryfall.com/sets",
+		);
+	});
+
+	it("should include the method and body", () => {
+		const a = cacheKey("https://api.scryfall.com/cards/collection", {
+			method: "POST",
+			body: JSON.stringify({ identifiers: [{ name: "Opt" }] }),
+		});
+		const b = cacheKey("https://api.scryfall.com/cards/collection", {
+			method: "POST",
+			body: JSON.stringify({ identifiers: [{ name: "Ponder" }] }),
+		});
+
+		expect(a).toMatch(/^POST /);
+		expect(a).not.toBe(b);
+	});
+});
+
+describe("formatStaleNotice", () => {
+	it("should include when the data was fetched", () => {
+		const notice = formatStaleNotice(Date.UTC(2024, 0, 2, 3, 4, 5));
+		expect(notice).toContain("2024-01-02T03:04:05.000Z");
+		expect(notice).toContain("out of date");
+	});
+});
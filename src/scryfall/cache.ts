@@ -0,0 +1,128 @@
+/**
+ * Response cache for the Scryfall client
+ * Entries live in the Durable Object's SQLite storage so repeated lookups in a
+ * session don't hit Scryfall again, and expired entries can still be served
+ * when Scryfall is unreachable.
+ */
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export interface CachedResponse {
+	value: unknown;
+	storedAt: number; // ms since epoch
+	expiresAt: number; // ms since epoch
+}
+
+export interface ResponseCache {
+	get(
+		key: string,
+	): CachedResponse | undefined | Promise<CachedResponse | undefined>;
+	set(key: string, entry: CachedResponse): void | Promise<void>;
+}
+
+// Time-to-live per endpoint, checked in order; 0 disables caching.
+// Card data carries prices, which Scryfall refreshes daily, so it expires sooner.
+const CACHE_TTLS: { pattern: RegExp; ttl: number }[] = [
+	{ pattern: /^\/cards\/random/, ttl: 0 },
+	{ pattern: /^\/symbology/, ttl: 7 * DAY },
+	{ pattern: /^\/catalog\//, ttl: DAY },
+	{ pattern: /^\/sets/, ttl: DAY },
+	{ pattern: /^\/cards\/[^/]+\/rulings$/, ttl: DAY },
+	{ pattern: /^\/cards\/autocomplete/, ttl: DAY },
+	{ pattern: /^\/cards\//, ttl: HOUR },
+];
+
+/**
+ * Get how long a response from an endpoint may be served from the cache
+ * @param url - Absolute request URL or path relative to the API base URL
+ * @returns Time-to-live in milliseconds, or 0 when the endpoint is not cached
+ */
+export function cacheTtlFor(url: string): number {
+	const path = url.startsWith("http") ? new URL(url).pathname : url;
+
+	for (const { pattern, ttl } of CACHE_TTLS) {
+		if (pattern.test(path)) {
+			return ttl;
+		}
+	}
+
+	return 0;
+}
+
+/**
+ * Build the cache key for a request from its method, URL and body
+ */
+export function cacheKey(url: string, init?: RequestInit): string {
+	const method = init?.method ?? "GET";
+	const body = typeof init?.body === "string" ? `\n${init.body}` : "";
+	return `${method} ${url}${body}`;
+}
+
+/**
+ * Describe a stale cached response for tool output
+ * @param storedAt - When the response was fetched from Scryfall, in ms since epoch
+ */
+export function formatStaleNotice(storedAt: number): string {
+	return `⚠️ Scryfall could not be reached; this is cached data from ${new Date(storedAt).toISOString()} and may be out of date.`;
+}
+
+/**
+ * Response cache backed by Durable Object SQLite storage
+ */
+export class SqliteResponseCache implements ResponseCache {
+	constructor(
+		private sql: SqlStorage,
+		private maxStaleAge = 7 * DAY, // How long expired entries are kept as a fallback
+	) {
+		this.sql.exec(
+			`CREATE TABLE IF NOT EXISTS scryfall_response_cache (
+				key TEXT PRIMARY KEY,
+				body TEXT NOT NULL,
+				stored_at INTEGER NOT NULL,
+				expires_at INTEGER NOT NULL
+			)`,
+		);
+		this.prune();
+	}
+
+	get(key: string): CachedResponse | undefined {
+		const rows = this.sql
+			.exec<{ body: string; stored_at: number; expires_at: number }>(
+				"SELECT body, stored_at, expires_at FROM scryfall_response_cache WHERE key = ?",
+				key,
+			)
+			.toArray();
+
+		if (rows.length === 0) {
+			return undefined;
+		}
+
+		return {
+			value: JSON.parse(rows[0].body),
+			storedAt: rows[0].stored_at,
+			expiresAt: rows[0].expires_at,
+		};
+	}
+
+	set(key: string, entry: CachedResponse): void {
+		this.sql.exec(
+			"INSERT OR REPLACE INTO scryfall_response_cache (key, body, stored_at, expires_at) VALUES (?, ?, ?, ?)",
+			key,
+			JSON.stringify(entry.value),
+			entry.storedAt,
+			entry.expiresAt,
+		);
+	}
+
+	/**
+	 * Drop entries that are too old to be useful even as a stale fallback
+	 */
+	prune(now = Date.now()): void {
+		this.sql.exec(
+			"DELETE FROM scryfall_response_cache WHERE expires_at < ?",
+			now - this.maxStaleAge,
+		);
+	}
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { compileCardQuery } from "./card-matcher.js";
+import { ScryfallAPIError } from "./client.js";
+import { mockCard } from "./test-helpers.js";
+
+const bolt = mockCard({
+	name: "Lightning Bolt",
+	cmc: 1,
+	type_line: "Instant",
+	oracle_text: "Lightning Bolt deals 3 damage to any target.",
+	colors: ["R"],
+	color_identity: ["R"],
+	rarity: "common",
+	legalities: { modern: "legal", vintage: "legal" },
+	prices: { usd: "1.50" },
+});
+const tarmogoyf = mockCard({
+	name: "Tarmogoyf",
+	cmc: 2,
+	type_line: "Creature — Lhurgoyf",
+	power: "*",
+	toughness: "1+*",
+	colors: ["G"],
+	color_identity: ["G"],
+	rarity: "mythic",
+});
+const delver = mockCard({
+	name: "Delver of Secrets // Insectile Aberration",
+	cmc: 1,
+	type_line: "Creature — Human Wizard // Creature — Human Insect",
+	colors: undefined,
+	color_identity: ["U"],
+	card_faces: [
+		{
+			object: "card_face",
+			name: "Delver of Secrets",
+			mana_cost: "{U}",
+			type_line: "Creature — Human Wizard",
+			oracle_text: "At the beginning of your upkeep, look at the top card",
+			colors: ["U"],
+			power: "1",
+			toughness: "1",
+		},
+		{
+			object: "card_face",
+			name: "Insectile Aberration",
+			mana_cost: "",
+			type_line: "Creature — Human Insect",
+			oracle_text: "Flying",
+			colors: ["U"],
+		},
+	],
+});
+const helix = mockCard({
+	name: "Lightning Helix",
+	cmc: 2,
+	type_line: "Instant",
+	colors: ["R", "W"],
+	color_identity: ["R", "W"],
+});
+const cards = [bolt, tarmogoyf, delver, helix];
+
+function matching(query: string): string[] {
+	const matches = compileCardQuery(query);
+	return cards.filter(matches).map((card) => card.name);
+}
+
+describe("compileCardQuery", () => {
+	it("should match names, types and oracle text", () => {
+		expect(matching("lightning")).toEqual([
+			"Lightning Bolt",
+			"Lightning Helix",
+		]);
+		expect(matching('!"Insectile Aberration"')).toEqual([delver.name]);
+		expect(matching("t:creature")).toEqual([tarmogoyf.name, delver.name]);
+		expect(matching("o:flying")).toEqual([delver.name]);
+		expect(matching("o:/deals \\d damage/")).toEqual(["Lightning Bolt"]);
+	});
+
+	it("should combine terms with AND, OR and negation", () => {
+		expect(matching("mv=1 -t:creature")).toEqual(["Lightning Bolt"]);
+		expect(matching("t:lhurgoyf or c:u")).toEqual([
+			tarmogoyf.name,
+			delver.name,
+		]);
+		expect(matching("-(t:instant or t:creature)")).toEqual([]);
+	});
+
+	it("should compare colors like Scryfall", () => {
+		expect(matching("c:r")).toEqual(["Lightning Bolt", "Lightning Helix"]);
+		expect(matching("c=r")).toEqual(["Lightning Bolt"]);
+		expect(matching("c:m")).toEqual(["Lightning Helix"]);
+		expect(matching("id<=boros")).toEqual([
+			"Lightning Bolt",
+			"Lightning Helix",
+		]);
+		expect(matching("c:u")).toEqual([delver.name]);
+	});
+
+	it("should match only colorless cards with c:c", () => {
+		const signet = mockCard({
+			name: "Mind Stone",
+			type_line: "Artifact",
+			colors: [],
+			color_identity: [],
+		});
+		const withRock = [...cards, signet];
+		const names = (query: string) =>
+			withRock.filter(compileCardQuery(query)).map((card) => card.name);
+
+		expect(names("c:c")).toEqual(["Mind Stone"]);
+		expect(names("c>=c")).toEqual(["Mind Stone"]);
+		expect(names("id:c")).toEqual(["Mind Stone"]);
+		expect(names("c!=c")).toHaveLength(cards.length);
+	});
+
+	it("should compare numbers, skipping non-numeric stats", () => {
+		expect(matching("mv>=2")).toEqual([tarmogoyf.name, helix.name]);
+		expect(matching("pow>=0")).toEqual([]);
+		expect(matching("usd<2")).toEqual(["Lightning Bolt"]);
+		expect(matching("r>=rare")).toEqual([tarmogoyf.name]);
+	});
+
+	it("should check format legality", () => {
+		expect(matching("f:modern")).toEqual(["Lightning Bolt"]);
+	});
+
+	it("should reject keywords it can't answer", () => {
+		expect(() => compileCardQuery("is:commander")).toThrow(ScryfallAPIError);
+		expect(() => compileCardQuery("t:(")).toThrow(ScryfallAPIError);
+	});
+});
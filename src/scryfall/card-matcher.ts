@@ -0,0 +1,181 @@
+/**
+ * Evaluation of Scryfall search queries against cards in memory
+ * Used to pick cards out of a resolved decklist. Covers the same keywords as
+ * the local card index (name, type, oracle text, colors, mana value, stats,
+ * rarity, set, format legality, price, artist, year), and also accepts
+ * regular expressions for name, type and oracle text.
+ */
+
+import { cardOracleText } from "./card-utils.js";
+import type {
+	NumericKeyword,
+	TermEvaluator,
+	TextKeyword,
+} from "./local-query.js";
+import {
+	badQuery,
+	colorComparison,
+	evaluateTerm,
+	parseLocalQuery,
+	RARITY_RANKS,
+} from "./local-query.js";
+import type { QueryNode, QueryOperator, QueryTerm } from "./query-parser.js";
+import type { ScryfallCard } from "./types.js";
+
+export type CardPredicate = (card: ScryfallCard) => boolean;
+
+// Numeric keywords and how to read them from a card
+const NUMERIC_VALUES: Record<NumericKeyword, (card: ScryfallCard) => number> = {
+	manavalue: (card) => card.cmc,
+	power: (card) => statValue(card.power),
+	toughness: (card) => statValue(card.toughness),
+	loyalty: (card) => statValue(card.loyalty),
+	usd: (card) => Number.parseFloat(card.prices.usd ?? ""),
+	year: (card) => Number.parseInt(card.released_at.slice(0, 4), 10),
+};
+
+/**
+ * Numeric value of a stat; "*" and "1+*" are not numbers and never match
+ */
+function statValue(stat: string | undefined): number {
+	return stat !== undefined && /^-?\d+(\.\d+)?$/.test(stat)
+		? Number(stat)
+		: Number.NaN;
+}
+
+function compare(left: number, op: QueryOperator, right: number): boolean {
+	if (Number.isNaN(left) || Number.isNaN(right)) {
+		return false;
+	}
+	switch (op) {
+		case ":":
+		case "=":
+			return left === right;
+		case "!=":
+			return left !== right;
+		case "<":
+			return left < right;
+		case "<=":
+			return left <= right;
+		case ">":
+			return left > right;
+		case ">=":
+			return left >= right;
+	}
+}
+
+/**
+ * Match text by substring, or by regular expression for /regex/ values
+ */
+function textMatcher(term: QueryTerm): (text: string | undefined) => boolean {
+	if (term.valueKind === "regex") {
+		let pattern: RegExp;
+		try {
+			pattern = new RegExp(term.value, "i");
+		} catch {
+			throw badQuery(`"${term.value}" is not a valid regular expression`);
+		}
+		return (text) => text !== undefined && pattern.test(text);
+	}
+
+	const value = term.value.toLowerCase();
+	return (text) => text?.toLowerCase().includes(value) ?? false;
+}
+
+function cardNames(card: ScryfallCard): string[] {
+	return [card.name, ...(card.card_faces ?? []).map((face) => face.name)];
+}
+
+function cardColors(card: ScryfallCard): string[] {
+	return (
+		card.colors ?? [
+			...new Set((card.card_faces ?? []).flatMap((face) => face.colors ?? [])),
+		]
+	);
+}
+
+/**
+ * Compare a card's colors against a set of colors
+ * @param op - Comparison; ":" has already been mapped to >= or <=
+ */
+function colorMatcher(
+	colorsOf: (card: ScryfallCard) => string[],
+	op: QueryOperator,
+	value: string,
+): CardPredicate {
+	const { present, absent, count, negate } = colorComparison(op, value);
+
+	return (card) => {
+		const colors = colorsOf(card);
+		const matches =
+			present.every((color) => colors.includes(color)) &&
+			absent.every((color) => !colors.includes(color)) &&
+			(count === undefined || compare(colors.length, count.op, count.value));
+		return negate ? !matches : matches;
+	};
+}
+
+// Text each text keyword searches; a card matches if any of them does
+const TEXT_VALUES: Record<TextKeyword, (card: ScryfallCard) => string[]> = {
+	name: cardNames,
+	type: (card) => [card.type_line],
+	oracle: (card) => [cardOracleText(card)],
+	artist: (card) => (card.artist === undefined ? [] : [card.artist]),
+};
+
+const CARD_EVALUATOR: TermEvaluator<CardPredicate> = {
+	unsupported: "when matching deck cards",
+	exactName: (name) => {
+		const lower = name.toLowerCase();
+		return (card) =>
+			cardNames(card).some((cardName) => cardName.toLowerCase() === lower);
+	},
+	text: (keyword, term) => {
+		const matches = textMatcher(term);
+		return (card) => TEXT_VALUES[keyword](card).some(matches);
+	},
+	numeric: (keyword, op, value) => (card) =>
+		compare(NUMERIC_VALUES[keyword](card), op, value),
+	stats: (left, op, right) => (card) =>
+		compare(NUMERIC_VALUES[left](card), op, NUMERIC_VALUES[right](card)),
+	colors: (keyword, op, value) =>
+		colorMatcher(
+			keyword === "color" ? cardColors : (card) => card.color_identity,
+			op,
+			value,
+		),
+	rarity: (op, rank) => (card) =>
+		compare(RARITY_RANKS[card.rarity] ?? 0, op, rank),
+	set: (code) => (card) => card.set === code,
+	collectorNumber: (number) => (card) => card.collector_number === number,
+	legality: (format, statuses) => (card) =>
+		statuses.includes(card.legalities[format]),
+};
+
+function nodeMatcher(node: QueryNode): CardPredicate {
+	switch (node.type) {
+		case "term":
+			return evaluateTerm(node, CARD_EVALUATOR);
+		case "not": {
+			const child = nodeMatcher(node.child);
+			return (card) => !child(card);
+		}
+		case "and": {
+			const children = node.children.map(nodeMatcher);
+			return (card) => children.every((child) => child(card));
+		}
+		case "or": {
+			const children = node.children.map(nodeMatcher);
+			return (card) => children.some((child) => child(card));
+		}
+	}
+}
+
+/**
+ * Compile a Scryfall search query into a predicate over cards
+ * @param query - Query using Scryfall syntax, e.g. 't:land' or 'mv=1 -t:land'
+ * @throws ScryfallAPIError (bad_request) for syntax that can't be matched
+ */
+export function compileCardQuery(query: string): CardPredicate {
+	return nodeMatcher(parseLocalQuery(query));
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { cardOracleText, frontTypeLine } from "./card-utils.js";
+import { mockCard } from "./test-helpers.js";
+
+const smashing = mockCard({
+	name: "Shatterskull Smashing // Shatterskull, the Hammer Pass",
+	type_line: "Sorcery // Land",
+	oracle_text: undefined,
+	card_faces: [
+		{
+			object: "card_face",
+			name: "Shatterskull Smashing",
+			mana_cost: "{X}{R}{R}",
+			type_line: "Sorcery",
+			oracle_text: "Shatterskull Smashing deals X damage.",
+		},
+		{
+			object: "card_face",
+			name: "Shatterskull, the Hammer Pass",
+			mana_cost: "",
+			type_line: "Land",
+			oracle_text: "{T}: Add {R}.",
+		},
+	],
+});
+
+describe("cardOracleText", () => {
+	it("should read the card's own text", () => {
+		const bolt = mockCard({ oracle_text: "Deal 3 damage to any target." });
+		expect(cardOracleText(bolt)).toBe("Deal 3 damage to any target.");
+	});
+
+	it("should join the text of every face", () => {
+		expect(cardOracleText(smashing)).toBe(
+			"Shatterskull Smashing deals X damage.\n{T}: Add {R}.",
+		);
+	});
+});
+
+describe("frontTypeLine", () => {
+	it("should read the front face of multi-faced cards", () => {
+		expect(frontTypeLine(smashing)).toBe("Sorcery");
+		expect(frontTypeLine(mockCard({ type_line: "Instant // Sorcery" }))).toBe(
+			"Instant",
+		);
+		expect(frontTypeLine(mockCard({ type_line: "Creature — Goblin" }))).toBe(
+			"Creature — Goblin",
+		);
+	});
+});
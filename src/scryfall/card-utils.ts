@@ -0,0 +1,26 @@
+/**
+ * Reading card data that may live on the card or on its faces
+ * Multi-faced cards keep their rules text and type lines on each face, so
+ * anything that looks at what a card does reads it through these helpers.
+ */
+
+import type { ScryfallCard } from "./types.js";
+
+/**
+ * Rules text of a card, including every face of multi-faced cards
+ */
+export function cardOracleText(card: ScryfallCard): string {
+	if (card.oracle_text !== undefined) {
+		return card.oracle_text;
+	}
+	return (card.card_faces ?? [])
+		.map((face) => face.oracle_text ?? "")
+		.join("\n");
+}
+
+/**
+ * Type line of the front face, which decides what a card is in the deck
+ */
+export function frontTypeLine(card: ScryfallCard): string {
+	return card.card_faces?.[0]?.type_line ?? card.type_line.split(" // ")[0];
+}
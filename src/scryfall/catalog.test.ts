@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import {
+	CATALOG_DESCRIPTIONS,
+	filterCatalog,
+	formatCatalog,
+} from "./catalog.js";
+import { CATALOG_TYPES } from "./types.js";
+
+const creatureTypes = ["Elf", "Elemental", "Goblin", "Shapeshifter", "Self"];
+
+describe("filterCatalog", () => {
+	it("returns every value without a query", () => {
+		expect(filterCatalog(creatureTypes)).toEqual(creatureTypes);
+	});
+
+	it("matches substrings case-insensitively by default", () => {
+		expect(filterCatalog(creatureTypes, "EL")).toEqual([
+			"Elf",
+			"Elemental",
+			"Self",
+		]);
+	});
+
+	it("supports prefix matching", () => {
+		expect(filterCatalog(creatureTypes, "el", "prefix")).toEqual([
+			"Elf",
+			"Elemental",
+		]);
+	});
+
+	it("supports exact matching", () => {
+		expect(filterCatalog(creatureTypes, "elf", "exact")).toEqual(["Elf"]);
+		expect(filterCatalog(creatureTypes, "el", "exact")).toEqual([]);
+	});
+});
+
+describe("formatCatalog", () => {
+	it("lists values with a heading and description", () => {
+		const result = formatCatalog("creature-types", ["Elf", "Goblin"]);
+		expect(result).toContain("# Catalog: creature-types");
+		expect(result).toContain(CATALOG_DESCRIPTIONS["creature-types"]);
+		expect(result).toContain("Showing 2 of 2 values");
+		expect(result).toContain("- Elf\n- Goblin");
+		expect(result).not.toContain("more values");
+	});
+
+	it("respects the limit", () => {
+		const result = formatCatalog("creature-types", creatureTypes, 2);
+		expect(result).toContain("Showing 2 of 5 values");
+		expect(result).toContain("... and 3 more values");
+	});
+});
+
+describe("CATALOG_DESCRIPTIONS", () => {
+	it("describes every catalog type", () => {
+		for (const catalogType of CATALOG_TYPES) {
+			expect(CATALOG_DESCRIPTIONS[catalogType]).toBeTruthy();
+		}
+	});
+});
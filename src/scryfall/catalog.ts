@@ -0,0 +1,90 @@
+/**
+ * Descriptions, filtering and formatting for Scryfall catalogs
+ */
+
+import type { ScryfallCatalogType } from "./types.js";
+
+export type CatalogMatch = "substring" | "prefix" | "exact";
+
+// What each catalog contains and which search keyword it helps with
+export const CATALOG_DESCRIPTIONS: Record<ScryfallCatalogType, string> = {
+	"card-names": "Every English card name",
+	"artist-names": "Every artist name (use with a:)",
+	"word-bank": "Every English word of 2+ letters that appears in a card name",
+	"creature-types": "Every creature subtype, e.g. Elf, Wizard (use with t:)",
+	"planeswalker-types": "Every planeswalker subtype, e.g. Jace (use with t:)",
+	"land-types": "Every land subtype, e.g. Forest, Gate (use with t:)",
+	"artifact-types": "Every artifact subtype, e.g. Equipment (use with t:)",
+	"enchantment-types": "Every enchantment subtype, e.g. Aura (use with t:)",
+	"spell-types":
+		"Every instant and sorcery subtype, e.g. Adventure (use with t:)",
+	powers: "Every possible value in a creature's power (use with pow:)",
+	toughnesses: "Every possible value in a creature's toughness (use with tou:)",
+	loyalties: "Every possible planeswalker starting loyalty (use with loy:)",
+	watermarks: "Every card watermark (use with wm:)",
+	"keyword-abilities": "Every keyword ability, e.g. Flying (use with kw:)",
+	"keyword-actions": "Every keyword action, e.g. Scry (use with kw:)",
+	"ability-words": "Every ability word, e.g. Landfall (use with o:)",
+};
+
+/**
+ * Filter catalog values case-insensitively
+ * @param values - The catalog's values
+ * @param query - Text to match; every value matches when omitted
+ * @param match - How the query must match each value
+ */
+export function filterCatalog(
+	values: string[],
+	query?: string,
+	match: CatalogMatch = "substring",
+): string[] {
+	if (!query) {
+		return values;
+	}
+
+	const needle = query.toLowerCase();
+
+	return values.filter((value) => {
+		const haystack = value.toLowerCase();
+		switch (match) {
+			case "exact":
+				return haystack === needle;
+			case "prefix":
+				return haystack.startsWith(needle);
+			default:
+				return haystack.includes(needle);
+		}
+	});
+}
+
+/**
+ * Format catalog values as a markdown list
+ * @param catalogType - The catalog the values came from
+ * @param values - Values to list
+ * @param limit - Maximum number of values to list
+ * @returns Formatted string with a heading, counts and one value per line
+ */
+export function formatCatalog(
+	catalogType: ScryfallCatalogType,
+	values: string[],
+	limit = values.length,
+): string {
+	const valuesToShow = values.slice(0, limit);
+	const output: string[] = [];
+
+	output.push(`# Catalog: ${catalogType}`);
+	output.push("");
+	output.push(CATALOG_DESCRIPTIONS[catalogType]);
+	output.push("");
+	output.push(`Showing ${valuesToShow.length} of ${values.length} values:\n`);
+
+	for (const value of valuesToShow) {
+		output.push(`- ${value}`);
+	}
+
+	if (values.length > limit) {
+		output.push(`\n... and ${values.length - limit} more values`);
+	}
+
+	return output.join("\n");
+}
@@ -1,5 +1,21 @@
-import { beforeEach, describe, expect, it } from "vitest";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { CachedResponse, ResponseCache } from "./cache";
+import type { LocalCardSource } from "./client";
 import { ScryfallAPIError, ScryfallClient } from "./client";
+import { mockCard, mockList } from "./test-helpers";
+
+// In-memory stand-in for the SQLite cache
+class MemoryCache implements ResponseCache {
+	entries = new Map<string, CachedResponse>();
+
+	get(key: string): CachedResponse | undefined {
+		return this.entries.get(key);
+	}
+
+	set(key: string, entry: CachedResponse): void {
+		this.entries.set(key, entry);
+	}
+}
 
 describe("ScryfallClient", () => {
 	let client: ScryfallClient;
@@ -39,6 +55,70 @@ describe("ScryfallClient", () => {
 		});
 	});
 
+	describe("searchAllCards", () => {
+		it("should follow next_page until max results are collected", async () => {
+			const urls: string[] = [];
+			const fetchSpy = vi
+				.spyOn(globalThis, "fetch")
+				.mockImplementation(async (input) => {
+					const url = String(input);
+					urls.push(url);
+					const page = Number(new URL(url).searchParams.get("page") ?? "1");
+					return Response.json({
+						object: "list",
+						total_cards: 400,
+						has_more: page < 3,
+						next_page:
+							page < 3
+								? `https://api.scryfall.com/cards/search?q=t%3Aelf&page=${page + 1}`
+								: undefined,
+						data: Array.from({ length: page < 3 ? 175 : 50 }, (_, i) => ({
+							object: "card",
+							name: `Elf ${page}-${i}`,
+						})),
+					});
+				});
+
+			try {
+				const result = await client.searchAllCards("t:elf", {}, 200);
+
+				expect(urls).toHaveLength(2);
+				expect(result.data).toHaveLength(200);
+				expect(result.data[199].name).toBe("Elf 2-24");
+				expect(result.total_cards).toBe(400);
+				expect(result.has_more).toBe(true);
+			} finally {
+				fetchSpy.mockRestore();
+			}
+		});
+
+		it("should stop when there are no more pages", async () => {
+			const fetchSpy = vi
+				.spyOn(globalThis, "fetch")
+				.mockImplementation(async () =>
+					Response.json({
+						object: "list",
+						total_cards: 2,
+						has_more: false,
+						data: [
+							{ object: "card", name: "A" },
+							{ object: "card", name: "B" },
+						],
+					}),
+				);
+
+			try {
+				const result = await client.searchAllCards("t:elf", {}, 500);
+
+				expect(fetchSpy).toHaveBeenCalledTimes(1);
+				expect(result.data).toHaveLength(2);
+				expect(result.has_more).toBe(false);
+			} finally {
+				fetchSpy.mockRestore();
+			}
+		});
+	});
+
 	describe("getCardNamed", () => {
 		it("should get a card by exact name", async () => {
 			const card = await client.getCardNamed("Lightning Bolt");
@@ -62,6 +142,21 @@ describe("ScryfallClient", () => {
 		});
 	});
 
+	describe("autocompleteCardName", () => {
+		it("should suggest card names for a partial name", async () => {
+			const result = await client.autocompleteCardName("lightning bo");
+
+			expect(result.object).toBe("catalog");
+			expect(result.data).toContain("Lightning Bolt");
+		});
+
+		it("should return nothing for a single character", async () => {
+			const result = await client.autocompleteCardName("l");
+
+			expect(result.data).toEqual([]);
+		});
+	});
+
 	describe("getRandomCard", () => {
 		it("should get a random card", async () => {
 			const card = await client.getRandomCard();
@@ -95,6 +190,19 @@ describe("ScryfallClient", () => {
 		});
 	});
 
+	describe("getRulings", () => {
+		it("should get rulings for a card", async () => {
+			const card = await client.getCardNamed("Tarmogoyf");
+			const result = await client.getRulings(card.id);
+
+			expect(result.object).toBe("list");
+			expect(result.data.length).toBeGreaterThan(0);
+			expect(result.data[0].object).toBe("ruling");
+			expect(result.data[0].oracle_id).toBe(card.oracle_id);
+			expect(["wotc", "scryfall"]).toContain(result.data[0].source);
+		});
+	});
+
 	describe("getSets", () => {
 		it("should get all sets", async () => {
 			const result = await client.getSets();
@@ -110,6 +218,127 @@ describe("ScryfallClient", () => {
 		});
 	});
 
+	describe("getSet", () => {
+		it("should get a set by code", async () => {
+			const set = await client.getSet("lea");
+
+			expect(set.object).toBe("set");
+			expect(set.code).toBe("lea");
+			expect(set.name).toBe("Limited Edition Alpha");
+		});
+	});
+
+	describe("getListByUri", () => {
+		it("should follow a set's search_uri", async () => {
+			const set = await client.getSet("lea");
+			const result = await client.getListByUri(set.search_uri);
+
+			expect(result.object).toBe("list");
+			expect(result.data.length).toBeGreaterThan(0);
+		});
+	});
+
+	describe("getPrintings", () => {
+		it("should follow prints_search_uri across pages", async () => {
+			const card = mockCard({ name: "Opt" });
+			const urls: string[] = [];
+			const fetchSpy = vi
+				.spyOn(globalThis, "fetch")
+				.mockImplementation(async (input) => {
+					const url = String(input);
+					urls.push(url);
+					const second = url.endsWith("page=2");
+					return Response.json(
+						mockList(
+							[
+								mockCard({
+									name: "Opt",
+									set: second ? "xln" : "eld",
+								}),
+							],
+							{
+								has_more: !second,
+								next_page: second ? undefined : `${url}&page=2`,
+							},
+						),
+					);
+				});
+
+			try {
+				const result = await client.getPrintings(card);
+
+				expect(urls[0]).toBe(card.prints_search_uri);
+				expect(result.data.map((printing) => printing.set)).toEqual([
+					"eld",
+					"xln",
+				]);
+				expect(result.has_more).toBe(false);
+			} finally {
+				fetchSpy.mockRestore();
+			}
+		});
+
+		it("should stop following pages at maxResults", async () => {
+			const card = mockCard({ name: "Opt" });
+			const fetchSpy = vi
+				.spyOn(globalThis, "fetch")
+				.mockImplementation(async (input) =>
+					Response.json(
+						mockList([mockCard({ name: "Opt" }), mockCard({ name: "Opt" })], {
+							has_more: true,
+							next_page: `${String(input)}&page=2`,
+						}),
+					),
+				);
+
+			try {
+				const result = await client.getPrintings(card, 1);
+
+				expect(fetchSpy).toHaveBeenCalledTimes(1);
+				expect(result.data).toHaveLength(1);
+				expect(result.has_more).toBe(true);
+			} finally {
+				fetchSpy.mockRestore();
+			}
+		});
+	});
+
+	describe("downloadImage", () => {
+		it("should return the image bytes", async () => {
+			const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(
+				async () =>
+					new Response(new Uint8Array([0xff, 0xd8, 0xff]), {
+						headers: { "Content-Type": "image/jpeg" },
+					}),
+			);
+
+			try {
+				const bytes = await client.downloadImage(
+					"https://cards.scryfall.io/normal/front/a/b/ab.jpg",
+				);
+				expect([...bytes]).toEqual([0xff, 0xd8, 0xff]);
+			} finally {
+				fetchSpy.mockRestore();
+			}
+		});
+
+		it("should throw ScryfallAPIError when the download fails", async () => {
+			const fetchSpy = vi
+				.spyOn(globalThis, "fetch")
+				.mockImplementation(
+					async () => new Response("Not Found", { status: 404 }),
+				);
+
+			try {
+				await expect(
+					client.downloadImage("https://cards.scryfall.io/missing.jpg"),
+				).rejects.toMatchObject({ code: "image_error", status: 404 });
+			} finally {
+				fetchSpy.mockRestore();
+			}
+		});
+	});
+
 	describe("getSymbology", () => {
 		it("should get all card symbols", async () => {
 			const result = await client.getSymbology();
@@ -131,6 +360,13 @@ describe("ScryfallClient", () => {
 			expect(result.cmc).toBe(4);
 			expect(result.colors).toContain("R");
 		});
+
+		it("should normalize loose shorthand", async () => {
+			const result = await client.parseMana("2ww");
+
+			expect(result.cost).toBe("{2}{W}{W}");
+			expect(result.cmc).toBe(4);
+		});
 	});
 
 	describe("getCatalog", () => {
@@ -212,14 +448,296 @@ describe("ScryfallClient", () => {
 			);
 		});
 
-		it("should throw error for more than 75 identifiers", async () => {
-			const identifiers = Array.from({ length: 76 }, (_, i) => ({
-				name: `Card ${i}`,
-			}));
+		it("should batch more than 75 identifiers and merge in input order", async () => {
+			const requests: { name: string }[][] = [];
+			const fetchSpy = vi
+				.spyOn(globalThis, "fetch")
+				.mockImplementation(async (_url, init) => {
+					const { identifiers } = JSON.parse(String(init?.body)) as {
+						identifiers: { name: string }[];
+					};
+					requests.push(identifiers);
+					// Pretend every seventh card is unknown
+					const found = identifiers.filter((_, i) => i % 7 !== 0);
+					const missing = identifiers.filter((_, i) => i % 7 === 0);
+					return Response.json({
+						object: "list",
+						has_more: false,
+						data: found.map(({ name }) => ({ object: "card", name })),
+						not_found: missing,
+					});
+				});
+
+			try {
+				const identifiers = Array.from({ length: 160 }, (_, i) => ({
+					name: `Card ${i}`,
+				}));
+				const result = await client.getCollection(identifiers);
+
+				expect(requests.map((batch) => batch.length)).toEqual([75, 75, 10]);
+				expect(result.data.map((card) => card.name)).toEqual(
+					identifiers
+						.filter((_, i) => (i % 75) % 7 !== 0)
+						.map(({ name }) => name),
+				);
+				expect(result.not_found).toEqual(
+					identifiers.filter((_, i) => (i % 75) % 7 === 0),
+				);
+			} finally {
+				fetchSpy.mockRestore();
+			}
+		});
+	});
+
+	describe("response cache", () => {
+		let cache: MemoryCache;
+		let cachedClient: ScryfallClient;
+
+		beforeEach(() => {
+			cache = new MemoryCache();
+			cachedClient = new ScryfallClient({
+				requestDelay: 0,
+				maxRetries: 1,
+				initialBackoff: 1,
+				cache,
+			});
+		});
+
+		it("should serve repeated lookups from the cache", async () => {
+			const fetchSpy = vi
+				.spyOn(globalThis, "fetch")
+				.mockImplementation(async () =>
+					Response.json({ object: "card", name: "Lightning Bolt" }),
+				);
+
+			try {
+				const first = await cachedClient.getCardNamed("Lightning Bolt");
+				const second = await cachedClient.getCardNamed("Lightning Bolt");
+
+				expect(fetchSpy).toHaveBeenCalledTimes(1);
+				expect(second.name).toBe(first.name);
+				expect(cachedClient.getStaleSince(second)).toBeUndefined();
+			} finally {
+				fetchSpy.mockRestore();
+			}
+		});
+
+		it("should key collection requests by body", async () => {
+			const fetchSpy = vi
+				.spyOn(globalThis, "fetch")
+				.mockImplementation(async () =>
+					Response.json({ object: "list", has_more: false, data: [] }),
+				);
+
+			try {
+				await cachedClient.getCollection([{ name: "Opt" }]);
+				await cachedClient.getCollection([{ name: "Ponder" }]);
+				await cachedClient.getCollection([{ name: "Opt" }]);
+
+				expect(fetchSpy).toHaveBeenCalledTimes(2);
+			} finally {
+				fetchSpy.mockRestore();
+			}
+		});
+
+		it("should not cache random cards", async () => {
+			const fetchSpy = vi
+				.spyOn(globalThis, "fetch")
+				.mockImplementation(async () =>
+					Response.json({ object: "card", name: "Opt" }),
+				);
+
+			try {
+				await cachedClient.getRandomCard();
+				await cachedClient.getRandomCard();
+
+				expect(fetchSpy).toHaveBeenCalledTimes(2);
+			} finally {
+				fetchSpy.mockRestore();
+			}
+		});
+
+		it("should fall back to an expired entry when Scryfall fails", async () => {
+			const storedAt = Date.now() - 2 * 24 * 60 * 60 * 1000;
+			cache.set("GET https://api.scryfall.com/sets", {
+				value: { object: "list", has_more: false, data: [] },
+				storedAt,
+				expiresAt: storedAt + 1000,
+			});
+			const fetchSpy = vi
+				.spyOn(globalThis, "fetch")
+				.mockImplementation(async () =>
+					Response.json(
+						{ object: "error", code: "internal", status: 503, details: "down" },
+						{ status: 503 },
+					),
+				);
+			const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+			try {
+				const result = await cachedClient.getSets();
+
+				expect(result.object).toBe("list");
+				expect(cachedClient.getStaleSince(result)).toBe(storedAt);
+			} finally {
+				fetchSpy.mockRestore();
+				warnSpy.mockRestore();
+			}
+		});
 
-			await expect(client.getCollection(identifiers)).rejects.toThrow(
-				"Maximum 75 identifiers allowed",
+		it("should fall back to an expired entry on network errors", async () => {
+			const storedAt = Date.now() - 2 * 60 * 60 * 1000;
+			cache.set(
+				'POST https://api.scryfall.com/cards/collection\n{"identifiers":[{"name":"Opt"}]}',
+				{
+					value: {
+						object: "list",
+						has_more: false,
+						data: [{ object: "card", name: "Opt" }],
+					},
+					storedAt,
+					expiresAt: storedAt + 1000,
+				},
 			);
+			const fetchSpy = vi
+				.spyOn(globalThis, "fetch")
+				.mockRejectedValue(new TypeError("Network connection lost"));
+			const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+			try {
+				const result = await cachedClient.getCollection([{ name: "Opt" }]);
+
+				expect(result.data[0].name).toBe("Opt");
+				expect(cachedClient.getStaleSince(result)).toBe(storedAt);
+			} finally {
+				fetchSpy.mockRestore();
+				warnSpy.mockRestore();
+			}
+		});
+
+		it("should not mask client errors with stale data", async () => {
+			const storedAt = Date.now() - 2 * 60 * 60 * 1000;
+			cache.set("GET https://api.scryfall.com/cards/named?exact=Opt", {
+				value: { object: "card", name: "Opt" },
+				storedAt,
+				expiresAt: storedAt + 1000,
+			});
+			const fetchSpy = vi
+				.spyOn(globalThis, "fetch")
+				.mockImplementation(async () =>
+					Response.json(
+						{
+							object: "error",
+							code: "not_found",
+							status: 404,
+							details: "No card found",
+						},
+						{ status: 404 },
+					),
+				);
+
+			try {
+				await expect(cachedClient.getCardNamed("Opt")).rejects.toBeInstanceOf(
+					ScryfallAPIError,
+				);
+			} finally {
+				fetchSpy.mockRestore();
+			}
+		});
+
+		it("should return a fresh response even when caching it fails", async () => {
+			vi.spyOn(cache, "set").mockImplementation(() => {
+				throw new Error("string or blob too big");
+			});
+			const fetchSpy = vi
+				.spyOn(globalThis, "fetch")
+				.mockImplementation(async () =>
+					Response.json({ object: "card", name: "Opt" }),
+				);
+			const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+			try {
+				const card = await cachedClient.getCardNamed("Opt");
+
+				expect(card.name).toBe("Opt");
+				expect(cachedClient.getStaleSince(card)).toBeUndefined();
+				expect(warnSpy).toHaveBeenCalledWith(
+					expect.stringContaining("string or blob too big"),
+				);
+			} finally {
+				fetchSpy.mockRestore();
+				warnSpy.mockRestore();
+			}
+		});
+	});
+
+	describe("local backend", () => {
+		const localIndex: LocalCardSource = {
+			search: (query, options) => {
+				const page = options.page ?? 1;
+				return mockList(
+					Array.from({ length: page < 3 ? 175 : 10 }, (_, i) =>
+						mockCard({ name: `${query} ${page}-${i}` }),
+					),
+					{ total_cards: 360, has_more: page < 3 },
+				);
+			},
+			getNamed: (name) => mockCard({ name }),
+			getById: (id) => mockCard({ id }),
+			getRandom: () => mockCard({ name: "Random" }),
+			getCollection: (identifiers) =>
+				mockList(identifiers.map((_, i) => mockCard({ name: `Card ${i}` }))),
+			autocomplete: (query) => ({
+				object: "catalog",
+				uri: "local://cards/autocomplete",
+				total_values: 1,
+				data: [query],
+			}),
+		};
+
+		it("should require a local index", () => {
+			expect(() => client.setBackend("local")).toThrow();
+			expect(client.getBackend()).toBe("api");
+		});
+
+		it("should answer card lookups without the network", async () => {
+			const fetchSpy = vi.spyOn(globalThis, "fetch");
+			const localClient = new ScryfallClient({ backend: "local", localIndex });
+
+			try {
+				const named = await localClient.getCardNamed("Opt");
+				const collection = await localClient.getCollection([
+					{ name: "Opt" },
+					{ name: "Ponder" },
+				]);
+				const all = await localClient.searchAllCards("t:elf", {}, 360);
+
+				expect(named.name).toBe("Opt");
+				expect(collection.data).toHaveLength(2);
+				expect(all.data).toHaveLength(360);
+				expect(all.data[359].name).toBe("t:elf 3-9");
+				expect(all.has_more).toBe(false);
+				expect(fetchSpy).not.toHaveBeenCalled();
+			} finally {
+				fetchSpy.mockRestore();
+			}
+		});
+
+		it("should switch back to the API", async () => {
+			const localClient = new ScryfallClient({ backend: "local", localIndex });
+			localClient.setBackend("api");
+			const fetchSpy = vi
+				.spyOn(globalThis, "fetch")
+				.mockImplementation(async () =>
+					Response.json(mockCard({ name: "Opt" })),
+				);
+
+			try {
+				await localClient.getCardNamed("Opt");
+				expect(fetchSpy).toHaveBeenCalledTimes(1);
+			} finally {
+				fetchSpy.mockRestore();
+			}
 		});
 	});
 
@@ -4,12 +4,19 @@
  * https://scryfall.com/docs/api
  */
 
+import type { ResponseCache } from "./cache";
+import { cacheKey, cacheTtlFor } from "./cache";
 import type {
 	CardIdentifier,
+	ScryfallBulkData,
+	ScryfallBulkDataType,
 	ScryfallCard,
 	ScryfallCatalog,
+	ScryfallCatalogType,
 	ScryfallError,
 	ScryfallList,
+	ScryfallManaCost,
+	ScryfallRuling,
 	ScryfallSet,
 	ScryfallSymbol,
 } from "./types";
@@ -36,12 +43,73 @@ export class ScryfallAPIError extends Error {
 	}
 }
 
+/**
+ * Whether an error means Scryfall is unavailable rather than that the request
+ * was wrong: network failures, rate limiting and server errors
+ */
+function isTransientError(error: unknown): boolean {
+	if (error instanceof ScryfallAPIError) {
+		return error.status === 429 || error.status >= 500;
+	}
+	return true;
+}
+
+// Maximum identifiers the collection endpoint accepts in a single request
+export const COLLECTION_BATCH_SIZE = 75;
+
 export interface ScryfallClientOptions {
 	baseUrl?: string;
 	userAgent?: string;
 	requestDelay?: number; // Scryfall asks for 50-100ms between requests
 	maxRetries?: number; // Maximum number of retries for rate limit errors
 	initialBackoff?: number; // Initial backoff time in ms for exponential backoff
+	cache?: ResponseCache; // Optional response cache with stale fallback
+	backend?: CardBackend; // Where card lookups are answered; defaults to "api"
+	localIndex?: LocalCardSource; // Required for the "local" backend
+}
+
+export interface SearchCardsOptions {
+	unique?: "cards" | "art" | "prints";
+	order?:
+		| "name"
+		| "set"
+		| "released"
+		| "rarity"
+		| "color"
+		| "usd"
+		| "tix"
+		| "eur"
+		| "cmc"
+		| "power"
+		| "toughness"
+		| "edhrec"
+		| "penny"
+		| "artist"
+		| "review";
+	dir?: "auto" | "asc" | "desc";
+	include_extras?: boolean;
+	include_multilingual?: boolean;
+	include_variations?: boolean;
+	page?: number;
+}
+
+// "api" queries Scryfall; "local" answers card lookups from a bulk data index
+export type CardBackend = "api" | "local";
+
+// Offline card lookups (LocalCardIndex in production)
+export interface LocalCardSource {
+	search(
+		query: string,
+		options: SearchCardsOptions,
+	): ScryfallList<ScryfallCard>;
+	getNamed(
+		name: string,
+		options: { fuzzy?: boolean; set?: string },
+	): ScryfallCard;
+	getById(id: string): ScryfallCard;
+	getRandom(query?: string): ScryfallCard;
+	getCollection(identifiers: CardIdentifier[]): ScryfallList<ScryfallCard>;
+	autocomplete(query: string): ScryfallCatalog;
 }
 
 export class ScryfallClient {
@@ -51,6 +119,10 @@ export class ScryfallClient {
 	private requestDelay: number;
 	private maxRetries: number;
 	private initialBackoff: number;
+	private cache?: ResponseCache;
+	private staleResponses = new WeakMap<object, number>();
+	private backend: CardBackend = "api";
+	private localIndex?: LocalCardSource;
 
 	constructor(options: ScryfallClientOptions = {}) {
 		this.baseUrl = options.baseUrl || "https://api.scryfall.com";
@@ -58,6 +130,31 @@ export class ScryfallClient {
 		this.requestDelay = options.requestDelay || 100; // 100ms default (Scryfall recommends 50-100ms)
 		this.maxRetries = options.maxRetries || 3; // Default 3 retries for rate limit errors
 		this.initialBackoff = options.initialBackoff || 1000; // 1 second initial backoff
+		this.cache = options.cache;
+		this.localIndex = options.localIndex;
+		if (options.backend) this.setBackend(options.backend);
+	}
+
+	/**
+	 * Choose where card searches and lookups are answered
+	 * Sets, rulings, catalogs and symbology always come from the API.
+	 */
+	setBackend(backend: CardBackend): void {
+		if (backend === "local" && !this.localIndex) {
+			throw new Error("The local backend requires a local card index");
+		}
+		this.backend = backend;
+	}
+
+	getBackend(): CardBackend {
+		return this.backend;
+	}
+
+	/**
+	 * The local index, when card lookups should be answered from it
+	 */
+	private localSource(): LocalCardSource | undefined {
+		return this.backend === "local" ? this.localIndex : undefined;
 	}
 
 	/**
@@ -87,7 +184,90 @@ export class ScryfallClient {
 	 * Generic fetch method with error handling and retry logic
 	 */
 	private async fetch<T>(endpoint: string, init?: RequestInit): Promise<T> {
-		return this.fetchWithRetry<T>(endpoint, init, 0);
+		const url = this.resolveUrl(endpoint);
+		const ttl = this.cache ? cacheTtlFor(url) : 0;
+
+		if (!this.cache || ttl <= 0) {
+			return this.fetchWithRetry<T>(endpoint, init, 0);
+		}
+
+		const key = cacheKey(url, init);
+		const cached = await this.cache.get(key);
+		const now = Date.now();
+
+		if (cached && cached.expiresAt > now) {
+			return cached.value as T;
+		}
+
+		let value: T;
+		try {
+			value = await this.fetchWithRetry<T>(endpoint, init, 0);
+		} catch (error) {
+			// Fall back to an expired entry when Scryfall itself is failing
+			if (cached && isTransientError(error)) {
+				console.warn(
+					`Scryfall request failed; serving cached response from ${new Date(cached.storedAt).toISOString()}`,
+				);
+				this.markStale(cached.value, cached.storedAt);
+				return cached.value as T;
+			}
+			throw error;
+		}
+
+		// A response too big to store is still a good response
+		try {
+			await this.cache.set(key, {
+				value,
+				storedAt: now,
+				expiresAt: now + ttl,
+			});
+		} catch (error) {
+			console.warn(
+				`Failed to cache Scryfall response for ${url}: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+		return value;
+	}
+
+	/**
+	 * Resolve an endpoint to an absolute URL
+	 */
+	private resolveUrl(endpoint: string): string {
+		return endpoint.startsWith("http")
+			? endpoint
+			: `${this.baseUrl}${endpoint}`;
+	}
+
+	/**
+	 * Remember that a response was served from an expired cache entry
+	 */
+	private markStale(response: unknown, storedAt: number): void {
+		if (typeof response !== "object" || response === null) return;
+
+		const existing = this.staleResponses.get(response);
+		if (existing === undefined || storedAt < existing) {
+			this.staleResponses.set(response, storedAt);
+		}
+	}
+
+	/**
+	 * Carry a stale marker over to a response built from other responses
+	 */
+	private propagateStale(source: unknown, target: unknown): void {
+		const staleSince = this.getStaleSince(source);
+		if (staleSince !== undefined) {
+			this.markStale(target, staleSince);
+		}
+	}
+
+	/**
+	 * Get when a stale response was originally fetched
+	 * @param response - A value returned by one of the client's methods
+	 * @returns Milliseconds since epoch, or undefined when the response is fresh
+	 */
+	getStaleSince(response: unknown): number | undefined {
+		if (typeof response !== "object" || response === null) return undefined;
+		return this.staleResponses.get(response);
 	}
 
 	/**
@@ -100,11 +280,7 @@ export class ScryfallClient {
 	): Promise<T> {
 		await this.respectRateLimit();
 
-		const url = endpoint.startsWith("http")
-			? endpoint
-			: `${this.baseUrl}${endpoint}`;
-
-		const response = await fetch(url, {
+		const response = await fetch(this.resolveUrl(endpoint), {
 			...init,
 			headers: {
 				"User-Agent": this.userAgent,
@@ -150,31 +326,11 @@ export class ScryfallClient {
 	 */
 	async searchCards(
 		query: string,
-		options: {
-			unique?: "cards" | "art" | "prints";
-			order?:
-				| "name"
-				| "set"
-				| "released"
-				| "rarity"
-				| "color"
-				| "usd"
-				| "tix"
-				| "eur"
-				| "cmc"
-				| "power"
-				| "toughness"
-				| "edhrec"
-				| "penny"
-				| "artist"
-				| "review";
-			dir?: "auto" | "asc" | "desc";
-			include_extras?: boolean;
-			include_multilingual?: boolean;
-			include_variations?: boolean;
-			page?: number;
-		} = {},
+		options: SearchCardsOptions = {},
 	): Promise<ScryfallList<ScryfallCard>> {
+		const local = this.localSource();
+		if (local) return local.search(query, options);
+
 		const params = new URLSearchParams({ q: query });
 
 		if (options.unique) params.set("unique", options.unique);
@@ -193,6 +349,78 @@ export class ScryfallClient {
 		);
 	}
 
+	/**
+	 * Search for cards and follow next_page until maxResults cards have been
+	 * collected or there are no more pages. Each page is rate limited like
+	 * any other request.
+	 */
+	async searchAllCards(
+		query: string,
+		options: SearchCardsOptions = {},
+		maxResults = 175,
+	): Promise<ScryfallList<ScryfallCard>> {
+		const local = this.localSource();
+		const first = await this.searchCards(query, options);
+
+		return this.collectPages(first, maxResults, (page, pageCount) =>
+			local
+				? local.search(query, {
+						...options,
+						page: (options.page ?? 1) + pageCount,
+					})
+				: this.getNextPage(page),
+		);
+	}
+
+	/**
+	 * Follow pages of a list until maxResults items have been collected or
+	 * there are no more pages. The result is marked stale if any page was.
+	 * @param nextPage - Get the page after the given one, or undefined when
+	 * there is none; defaults to following next_page
+	 */
+	private async collectPages<T>(
+		first: ScryfallList<T>,
+		maxResults: number,
+		nextPage: (
+			page: ScryfallList<T>,
+			pageCount: number,
+		) => ScryfallList<T> | Promise<ScryfallList<T> | undefined> | undefined = (
+			page,
+		) => this.getNextPage(page),
+	): Promise<ScryfallList<T>> {
+		const data = [...first.data];
+		const pages = [first];
+		let page = first;
+
+		while (data.length < maxResults && page.has_more) {
+			const next = await nextPage(page, pages.length);
+			if (!next) break;
+			page = next;
+			pages.push(page);
+			data.push(...page.data);
+		}
+
+		const result: ScryfallList<T> = {
+			...page,
+			total_cards: first.total_cards,
+			has_more: data.length > maxResults || page.has_more,
+			data: data.slice(0, maxResults),
+			warnings: first.warnings,
+		};
+
+		for (const source of pages) {
+			this.propagateStale(source, result);
+		}
+
+		return result;
+	}
+
+	private async getNextPage<T>(
+		page: ScryfallList<T>,
+	): Promise<ScryfallList<T> | undefined> {
+		return page.next_page ? this.getListByUri<T>(page.next_page) : undefined;
+	}
+
 	/**
 	 * Get a card by exact name
 	 */
@@ -200,6 +428,9 @@ export class ScryfallClient {
 		name: string,
 		options: { fuzzy?: boolean; set?: string } = {},
 	): Promise<ScryfallCard> {
+		const local = this.localSource();
+		if (local) return local.getNamed(name, options);
+
 		const params = new URLSearchParams();
 
 		if (options.fuzzy) {
@@ -215,10 +446,35 @@ export class ScryfallClient {
 		return this.fetch<ScryfallCard>(`/cards/named?${params.toString()}`);
 	}
 
+	/**
+	 * Suggest up to 20 card names that start with or contain the given text
+	 * Returns an empty catalog for fewer than 2 characters
+	 * https://scryfall.com/docs/api/cards/autocomplete
+	 */
+	async autocompleteCardName(
+		query: string,
+		options: { include_extras?: boolean } = {},
+	): Promise<ScryfallCatalog> {
+		const local = this.localSource();
+		if (local) return local.autocomplete(query);
+
+		const params = new URLSearchParams({ q: query });
+
+		if (options.include_extras !== undefined)
+			params.set("include_extras", String(options.include_extras));
+
+		return this.fetch<ScryfallCatalog>(
+			`/cards/autocomplete?${params.toString()}`,
+		);
+	}
+
 	/**
 	 * Get a card by Scryfall ID
 	 */
 	async getCard(id: string): Promise<ScryfallCard> {
+		const local = this.localSource();
+		if (local) return local.getById(id);
+
 		return this.fetch<ScryfallCard>(`/cards/${id}`);
 	}
 
@@ -226,12 +482,24 @@ export class ScryfallClient {
 	 * Get a random card
 	 */
 	async getRandomCard(query?: string): Promise<ScryfallCard> {
+		const local = this.localSource();
+		if (local) return local.getRandom(query);
+
 		const params = query
 			? new URLSearchParams({ q: query })
 			: new URLSearchParams();
 		return this.fetch<ScryfallCard>(`/cards/random?${params.toString()}`);
 	}
 
+	/**
+	 * Get the rulings for a card by Scryfall ID
+	 * Rulings are shared by every printing with the same oracle ID
+	 * https://scryfall.com/docs/api/rulings
+	 */
+	async getRulings(id: string): Promise<ScryfallList<ScryfallRuling>> {
+		return this.fetch<ScryfallList<ScryfallRuling>>(`/cards/${id}/rulings`);
+	}
+
 	/**
 	 * Get all sets
 	 */
@@ -239,6 +507,43 @@ export class ScryfallClient {
 		return this.fetch<ScryfallList<ScryfallSet>>("/sets");
 	}
 
+	/**
+	 * Get a set by its set code
+	 */
+	async getSet(code: string): Promise<ScryfallSet> {
+		return this.fetch<ScryfallSet>(`/sets/${encodeURIComponent(code)}`);
+	}
+
+	/**
+	 * Fetch a list from an absolute Scryfall URI, such as a set's search_uri
+	 * or the next_page of a previous list
+	 */
+	async getListByUri<T>(uri: string): Promise<ScryfallList<T>> {
+		return this.fetch<ScryfallList<T>>(uri);
+	}
+
+	/**
+	 * Get every printing of a card, newest first, by following its
+	 * prints_search_uri (a unique=prints search on its oracle ID)
+	 * @param maxResults - Stop after this many printings
+	 */
+	async getPrintings(
+		card: ScryfallCard,
+		maxResults = 350,
+	): Promise<ScryfallList<ScryfallCard>> {
+		// The local index has no oracle ID search, so match the exact name
+		if (this.localSource() || !card.prints_search_uri) {
+			return this.searchAllCards(
+				`!"${card.name}"`,
+				{ unique: "prints", order: "released" },
+				maxResults,
+			);
+		}
+
+		const first = await this.getListByUri<ScryfallCard>(card.prints_search_uri);
+		return this.collectPages(first, maxResults);
+	}
+
 	/**
 	 * Get all card symbols
 	 */
@@ -248,42 +553,82 @@ export class ScryfallClient {
 
 	/**
 	 * Parse mana cost
+	 * Accepts loose input such as "2ww" and returns the normalized cost
 	 */
-	async parseMana(
-		cost: string,
-	): Promise<{ cost: string; cmc: number; colors: string[] }> {
+	async parseMana(cost: string): Promise<ScryfallManaCost> {
 		const params = new URLSearchParams({ cost });
-		return this.fetch(`/symbology/parse-mana?${params.toString()}`);
+		return this.fetch<ScryfallManaCost>(
+			`/symbology/parse-mana?${params.toString()}`,
+		);
 	}
 
 	/**
 	 * Get catalog of values (card names, artist names, etc.)
 	 */
-	async getCatalog(
-		catalogType:
-			| "card-names"
-			| "artist-names"
-			| "word-bank"
-			| "creature-types"
-			| "planeswalker-types"
-			| "land-types"
-			| "artifact-types"
-			| "enchantment-types"
-			| "spell-types"
-			| "powers"
-			| "toughnesses"
-			| "loyalties"
-			| "watermarks"
-			| "keyword-abilities"
-			| "keyword-actions"
-			| "ability-words",
-	): Promise<ScryfallCatalog> {
+	async getCatalog(catalogType: ScryfallCatalogType): Promise<ScryfallCatalog> {
 		return this.fetch<ScryfallCatalog>(`/catalog/${catalogType}`);
 	}
 
+	/**
+	 * Get the metadata for a bulk data file, including its download URI
+	 * https://scryfall.com/docs/api/bulk-data
+	 */
+	async getBulkData(type: ScryfallBulkDataType): Promise<ScryfallBulkData> {
+		return this.fetch<ScryfallBulkData>(`/bulk-data/${type}`);
+	}
+
+	/**
+	 * Download a bulk data file as a byte stream
+	 * Bulk files are too large to buffer, so they bypass the JSON handling and
+	 * the response cache.
+	 */
+	async downloadBulkData(uri: string): Promise<ReadableStream<Uint8Array>> {
+		await this.respectRateLimit();
+
+		const response = await fetch(uri, {
+			headers: { "User-Agent": this.userAgent },
+		});
+
+		if (!response.ok || !response.body) {
+			throw new ScryfallAPIError(
+				`Bulk data download failed: HTTP ${response.status}`,
+				"bulk_data_error",
+				response.status,
+				`Could not download ${uri} (HTTP ${response.status} ${response.statusText})`,
+			);
+		}
+
+		return response.body;
+	}
+
+	/**
+	 * Download a card image from Scryfall's image CDN
+	 * Images are binary, so they bypass the JSON handling and the response
+	 * cache.
+	 */
+	async downloadImage(uri: string): Promise<Uint8Array> {
+		await this.respectRateLimit();
+
+		const response = await fetch(uri, {
+			headers: { "User-Agent": this.userAgent },
+		});
+
+		if (!response.ok) {
+			throw new ScryfallAPIError(
+				`Image download failed: HTTP ${response.status}`,
+				"image_error",
+				response.status,
+				`Could not download ${uri} (HTTP ${response.status} ${response.statusText})`,
+			);
+		}
+
+		return new Uint8Array(await response.arrayBuffer());
+	}
+
 	/**
 	 * Get a collection of cards by identifiers
-	 * Maximum 75 identifiers per request
+	 * Scryfall accepts at most 75 identifiers per request, so larger lists are
+	 * split into rate-limited batches and merged back in input order
 	 * https://scryfall.com/docs/api/cards/collection
 	 */
 	async getCollection(
@@ -293,18 +638,37 @@ export class ScryfallClient {
 			throw new Error("At least one identifier is required");
 		}
 
-		if (identifiers.length > 75) {
-			throw new Error(
-				"Maximum 75 identifiers allowed per request. Use multiple requests for larger collections.",
+		const local = this.localSource();
+		if (local) return local.getCollection(identifiers);
+
+		const merged: ScryfallList<ScryfallCard> = {
+			object: "list",
+			has_more: false,
+			data: [],
+			not_found: [],
+		};
+
+		for (let i = 0; i < identifiers.length; i += COLLECTION_BATCH_SIZE) {
+			const batch = identifiers.slice(i, i + COLLECTION_BATCH_SIZE);
+			const result = await this.fetch<ScryfallList<ScryfallCard>>(
+				"/cards/collection",
+				{
+					method: "POST",
+					headers: {
+						"Content-Type": "application/json",
+					},
+					body: JSON.stringify({ identifiers: batch }),
+				},
 			);
+
+			this.propagateStale(result, merged);
+			merged.data.push(...result.data);
+			if (result.not_found) merged.not_found?.push(...result.not_found);
+			if (result.warnings) {
+				merged.warnings = [...(merged.warnings ?? []), ...result.warnings];
+			}
 		}
 
-		return this.fetch<ScryfallList<ScryfallCard>>("/cards/collection", {
-			method: "POST",
-			headers: {
-				"Content-Type": "application/json",
-			},
-			body: JSON.stringify({ identifiers }),
-		});
+		return merged;
 	}
 }
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import {
+	cardPrice,
+	cheapestPrinting,
+	formatDeckPrice,
+	isPriceAvailable,
+	priceDeck,
+} from "./deck-pricing.js";
+import type { ResolvedDecklist } from "./decklist.js";
+import { mockCard } from "./test-helpers.js";
+
+const bolt = mockCard({
+	name: "Lightning Bolt",
+	set: "m10",
+	collector_number: "146",
+	prices: { usd: "2.50", usd_foil: "10.00", eur: "1.80", tix: null },
+});
+const proxy = mockCard({ name: "Mystery Card", prices: {} });
+const island = mockCard({
+	name: "Island",
+	set: "dmu",
+	collector_number: "265",
+	prices: { usd: "0.10" },
+});
+
+function deck(): ResolvedDecklist {
+	return {
+		cards: [
+			{
+				quantity: 4,
+				name: "Lightning Bolt",
+				section: "mainboard",
+				line: 1,
+				card: bolt,
+			},
+			{
+				quantity: 1,
+				name: "Mystery Card",
+				section: "mainboard",
+				line: 2,
+				card: proxy,
+			},
+			{
+				quantity: 2,
+				name: "Island",
+				section: "sideboard",
+				line: 4,
+				card: island,
+			},
+		],
+		unresolved: [
+			{ quantity: 1, name: "Not A Card", section: "mainboard", line: 3 },
+		],
+		unparsed: [],
+	};
+}
+
+describe("cardPrice", () => {
+	it("should read the price for a currency and finish", () => {
+		expect(cardPrice(bolt, "usd", "nonfoil")).toBe(2.5);
+		expect(cardPrice(bolt, "usd", "foil")).toBe(10);
+		expect(cardPrice(bolt, "eur", "nonfoil")).toBe(1.8);
+	});
+
+	it("should return undefined for missing prices", () => {
+		expect(cardPrice(bolt, "tix", "nonfoil")).toBeUndefined();
+		expect(cardPrice(bolt, "usd", "etched")).toBeUndefined();
+	});
+
+	it("should know which finishes have prices", () => {
+		expect(isPriceAvailable("usd", "etched")).toBe(true);
+		expect(isPriceAvailable("eur", "etched")).toBe(false);
+	});
+});
+
+describe("cheapestPrinting", () => {
+	it("should pick the lowest priced printing and skip unpriced ones", () => {
+		const printings = [
+			bolt,
+			mockCard({ name: "Lightning Bolt", set: "sld", prices: {} }),
+			mockCard({ name: "Lightning Bolt", set: "a25", prices: { usd: "1.25" } }),
+		];
+		expect(cheapestPrinting(printings, "usd", "nonfoil")?.set).toBe("a25");
+		expect(cheapestPrinting(printings, "tix", "nonfoil")).toBeUndefined();
+	});
+});
+
+describe("priceDeck", () => {
+	it("should total priced entries and flag unpriced ones", () => {
+		const price = priceDeck(deck(), "usd", "nonfoil");
+		expect(price.total).toBeCloseTo(10.2);
+		expect(price.cheapest).toBe(false);
+		expect(price.unpriced.map((priced) => priced.entry.name)).toEqual([
+			"Mystery Card",
+		]);
+	});
+
+	it("should price replacement printings by name", () => {
+		const cheap = mockCard({
+			name: "Lightning Bolt",
+			set: "a25",
+			prices: { usd: "1.00" },
+		});
+		const price = priceDeck(
+			deck(),
+			"usd",
+			"nonfoil",
+			new Map([["Lightning Bolt", cheap]]),
+		);
+		expect(price.total).toBeCloseTo(4.2);
+		expect(price.entries[0].printing.set).toBe("a25");
+	});
+});
+
+describe("formatDeckPrice", () => {
+	it("should list cards by section with unpriced and missing cards flagged", () => {
+		const text = formatDeckPrice(priceDeck(deck(), "usd", "nonfoil"), deck());
+		expect(text).toContain("# Deck price: $10.20 (USD nonfoil)");
+		expect(text).toContain("⚠️ 1 entry has no price and is not included");
+		expect(text).toContain("## Mainboard ($10.00)");
+		expect(text).toContain(
+			"- 4 Lightning Bolt (M10 146) — $10.00 ($2.50 each)",
+		);
+		expect(text).toContain("- 1 Mystery Card (TST 1) — ⚠️ no price");
+		expect(text).toContain("## Sideboard ($0.20)");
+		expect(text).toContain("**Not found, so not priced (1):** 1 Not A Card");
+	});
+});
@@ -0,0 +1,212 @@
+/**
+ * Deck pricing from Scryfall's daily price data
+ * Cards without a price in the chosen currency and finish are reported
+ * separately instead of being counted as free.
+ */
+
+import type {
+	DeckSection,
+	ResolvedDeckEntry,
+	ResolvedDecklist,
+} from "./decklist.js";
+import { DECK_SECTIONS } from "./decklist.js";
+import type { ScryfallCard } from "./types.js";
+
+export const PRICE_CURRENCIES = ["usd", "eur", "tix"] as const;
+export type PriceCurrency = (typeof PRICE_CURRENCIES)[number];
+
+export const PRICE_FINISHES = ["nonfoil", "foil", "etched"] as const;
+export type PriceFinish = (typeof PRICE_FINISHES)[number];
+
+type PriceKey = keyof ScryfallCard["prices"];
+
+// Price field for each currency and finish; MTGO tickets have a single price
+const PRICE_KEYS: Record<
+	PriceCurrency,
+	Partial<Record<PriceFinish, PriceKey>>
+> = {
+	usd: { nonfoil: "usd", foil: "usd_foil", etched: "usd_etched" },
+	eur: { nonfoil: "eur", foil: "eur_foil" },
+	tix: { nonfoil: "tix", foil: "tix", etched: "tix" },
+};
+
+export interface PricedDeckEntry {
+	entry: ResolvedDeckEntry;
+	printing: ScryfallCard; // The printing that was priced
+	unitPrice?: number; // Undefined when the printing has no price
+	total?: number;
+}
+
+export interface DeckPrice {
+	currency: PriceCurrency;
+	finish: PriceFinish;
+	cheapest: boolean;
+	entries: PricedDeckEntry[];
+	total: number; // Sum of the priced entries only
+	unpriced: PricedDeckEntry[];
+}
+
+/**
+ * Whether Scryfall publishes prices for a currency and finish
+ */
+export function isPriceAvailable(
+	currency: PriceCurrency,
+	finish: PriceFinish,
+): boolean {
+	return PRICE_KEYS[currency][finish] !== undefined;
+}
+
+/**
+ * Price of one copy of a card
+ * @returns The price, or undefined when Scryfall has none for this printing
+ */
+export function cardPrice(
+	card: ScryfallCard,
+	currency: PriceCurrency,
+	finish: PriceFinish,
+): number | undefined {
+	const key = PRICE_KEYS[currency][finish];
+	const value = key ? card.prices[key] : undefined;
+	if (value === undefined || value === null) {
+		return undefined;
+	}
+
+	const price = Number.parseFloat(value);
+	return Number.isNaN(price) ? undefined : price;
+}
+
+/**
+ * Pick the cheapest printing that has a price
+ * @returns The printing, or undefined when none of them is priced
+ */
+export function cheapestPrinting(
+	printings: ScryfallCard[],
+	currency: PriceCurrency,
+	finish: PriceFinish,
+): ScryfallCard | undefined {
+	let cheapest: ScryfallCard | undefined;
+	let lowest = Number.POSITIVE_INFINITY;
+
+	for (const printing of printings) {
+		const price = cardPrice(printing, currency, finish);
+		if (price !== undefined && price < lowest) {
+			cheapest = printing;
+			lowest = price;
+		}
+	}
+
+	return cheapest;
+}
+
+function sectionTotal(entries: PricedDeckEntry[]): number {
+	return entries.reduce((sum, priced) => sum + (priced.total ?? 0), 0);
+}
+
+/**
+ * Price every entry of a resolved deck
+ * @param replacements - Printing to price instead, keyed by card name (used
+ * for cheapest-printing mode)
+ */
+export function priceDeck(
+	deck: ResolvedDecklist,
+	currency: PriceCurrency,
+	finish: PriceFinish,
+	replacements?: Map<string, ScryfallCard>,
+): DeckPrice {
+	const entries = deck.cards.map((entry): PricedDeckEntry => {
+		const printing = replacements?.get(entry.card.name) ?? entry.card;
+		const unitPrice = cardPrice(printing, currency, finish);
+		return {
+			entry,
+			printing,
+			unitPrice,
+			total: unitPrice === undefined ? undefined : unitPrice * entry.quantity,
+		};
+	});
+
+	return {
+		currency,
+		finish,
+		cheapest: replacements !== undefined,
+		entries,
+		total: sectionTotal(entries),
+		unpriced: entries.filter((priced) => priced.unitPrice === undefined),
+	};
+}
+
+/**
+ * Format an amount in a currency, e.g. "$12.50", "€3.00" or "0.45 tix"
+ */
+export function formatPrice(amount: number, currency: PriceCurrency): string {
+	const fixed = amount.toFixed(2);
+	switch (currency) {
+		case "usd":
+			return `$${fixed}`;
+		case "eur":
+			return `€${fixed}`;
+		case "tix":
+			return `${fixed} tix`;
+	}
+}
+
+function sectionLabel(section: DeckSection): string {
+	return section.charAt(0).toUpperCase() + section.slice(1);
+}
+
+/**
+ * Format a deck price for tool output
+ * Lists each card with its unit and line price, grouped by section, with
+ * unpriced and unresolved cards flagged and excluded from the totals.
+ */
+export function formatDeckPrice(
+	price: DeckPrice,
+	deck: ResolvedDecklist,
+): string {
+	const { currency } = price;
+	const output: string[] = [];
+	const finish = currency === "tix" ? "" : ` ${price.finish}`;
+
+	output.push(
+		`# Deck price: ${formatPrice(price.total, currency)} (${currency.toUpperCase()}${finish}${price.cheapest ? ", cheapest printings" : ""})`,
+	);
+	if (price.unpriced.length > 0) {
+		output.push(
+			`⚠️ ${price.unpriced.length} ${price.unpriced.length === 1 ? "entry has" : "entries have"} no price and ${price.unpriced.length === 1 ? "is" : "are"} not included in the total`,
+		);
+	}
+	output.push("");
+
+	for (const section of DECK_SECTIONS) {
+		const entries = price.entries.filter(
+			(priced) => priced.entry.section === section,
+		);
+		if (entries.length === 0) continue;
+
+		output.push(
+			`## ${sectionLabel(section)} (${formatPrice(sectionTotal(entries), currency)})`,
+		);
+		for (const { entry, printing, unitPrice, total } of entries) {
+			const where = `${printing.set.toUpperCase()} ${printing.collector_number}`;
+			if (unitPrice === undefined || total === undefined) {
+				output.push(
+					`- ${entry.quantity} ${printing.name} (${where}) — ⚠️ no price`,
+				);
+				continue;
+			}
+			const each =
+				entry.quantity > 1 ? ` (${formatPrice(unitPrice, currency)} each)` : "";
+			output.push(
+				`- ${entry.quantity} ${printing.name} (${where}) — ${formatPrice(total, currency)}${each}`,
+			);
+		}
+		output.push("");
+	}
+
+	if (deck.unresolved.length > 0) {
+		output.push(
+			`**Not found, so not priced (${deck.unresolved.length}):** ${deck.unresolved.map((entry) => `${entry.quantity} ${entry.name}`).join(", ")}`,
+		);
+	}
+
+	return output.join("\n").trim();
+}
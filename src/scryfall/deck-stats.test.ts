@@ -0,0 +1,236 @@
+import { describe, expect, it } from "vitest";
+import {
+	analyzeDeck,
+	cardTypes,
+	countPips,
+	formatDeckStats,
+	producesMana,
+} from "./deck-stats.js";
+import type { DeckSection, ResolvedDecklist } from "./decklist.js";
+import { mockCard } from "./test-helpers.js";
+import type { ScryfallCard } from "./types.js";
+
+const bolt = mockCard({
+	name: "Lightning Bolt",
+	mana_cost: "{R}",
+	cmc: 1,
+	type_line: "Instant",
+	colors: ["R"],
+	color_identity: ["R"],
+});
+const kitesail = mockCard({
+	name: "Kitesail Freebooter",
+	mana_cost: "{1}{B}",
+	cmc: 2,
+	type_line: "Artifact Creature — Pirate",
+	colors: ["B"],
+	color_identity: ["B"],
+});
+const expressiveIteration = mockCard({
+	name: "Expressive Iteration",
+	mana_cost: "{U}{R}",
+	cmc: 2,
+	type_line: "Sorcery",
+	colors: ["U", "R"],
+	color_identity: ["U", "R"],
+});
+const mutagenic = mockCard({
+	name: "Mutagenic Growth",
+	mana_cost: "{G/P}",
+	cmc: 1,
+	type_line: "Instant",
+	colors: ["G"],
+	color_identity: ["G"],
+});
+const emrakul = mockCard({
+	name: "Emrakul, the Aeons Torn",
+	mana_cost: "{15}",
+	cmc: 15,
+	type_line: "Legendary Creature — Eldrazi",
+});
+const mountain = mockCard({
+	name: "Mountain",
+	type_line: "Basic Land — Mountain",
+	color_identity: ["R"],
+	produced_mana: ["R"],
+});
+const fetchland = mockCard({
+	name: "Bloodstained Mire",
+	type_line: "Land",
+	oracle_text:
+		"{T}, Pay 1 life, Sacrifice Bloodstained Mire: Search your library for a Swamp or Mountain card, put it onto the battlefield, then shuffle.",
+});
+const shatterskull = mockCard({
+	name: "Shatterskull Smashing // Shatterskull, the Hammer Pass",
+	mana_cost: undefined,
+	cmc: 2,
+	type_line: "Sorcery // Land",
+	colors: undefined,
+	color_identity: ["R"],
+	card_faces: [
+		{
+			object: "card_face",
+			name: "Shatterskull Smashing",
+			mana_cost: "{X}{R}{R}",
+			type_line: "Sorcery",
+			colors: ["R"],
+		},
+		{
+			object: "card_face",
+			name: "Shatterskull, the Hammer Pass",
+			mana_cost: "",
+			type_line: "Land",
+			colors: [],
+		},
+	],
+});
+
+function deck(
+	...entries: [number, ScryfallCard, DeckSection?][]
+): ResolvedDecklist {
+	return {
+		cards: entries.map(([quantity, card, section = "mainboard"], index) => ({
+			quantity,
+			name: card.name,
+			section,
+			line: index + 1,
+			card,
+		})),
+		unresolved: [],
+		unparsed: [],
+	};
+}
+
+describe("cardTypes", () => {
+	it("should list every type on the front face", () => {
+		expect(cardTypes(kitesail)).toEqual(["Creature", "Artifact"]);
+		expect(cardTypes(shatterskull)).toEqual(["Sorcery"]);
+		expect(cardTypes(mountain)).toEqual(["Land"]);
+	});
+});
+
+describe("countPips", () => {
+	it("should count plain, hybrid and Phyrexian pips", () => {
+		const pips = {
+			W: { plain: 0, hybrid: 0, phyrexian: 0 },
+			U: { plain: 0, hybrid: 0, phyrexian: 0 },
+			B: { plain: 0, hybrid: 0, phyrexian: 0 },
+			R: { plain: 0, hybrid: 0, phyrexian: 0 },
+			G: { plain: 0, hybrid: 0, phyrexian: 0 },
+			C: { plain: 0, hybrid: 0, phyrexian: 0 },
+		};
+		countPips("{2}{R}{R/G}{2/W}{G/P}{C}{X}", pips, 2);
+
+		expect(pips.R).toEqual({ plain: 2, hybrid: 2, phyrexian: 0 });
+		expect(pips.G).toEqual({ plain: 0, hybrid: 2, phyrexian: 2 });
+		expect(pips.W).toEqual({ plain: 0, hybrid: 2, phyrexian: 0 });
+		expect(pips.C).toEqual({ plain: 2, hybrid: 0, phyrexian: 0 });
+		expect(pips.U).toEqual({ plain: 0, hybrid: 0, phyrexian: 0 });
+	});
+});
+
+describe("producesMana", () => {
+	it("should use produced_mana, then the oracle text", () => {
+		expect(producesMana(mountain)).toBe(true);
+		expect(producesMana(fetchland)).toBe(false);
+		expect(
+			producesMana(
+				mockCard({ type_line: "Land", oracle_text: "{T}: Add {C}." }),
+			),
+		).toBe(true);
+	});
+});
+
+describe("analyzeDeck", () => {
+	const stats = analyzeDeck(
+		deck(
+			[4, bolt],
+			[3, kitesail],
+			[2, expressiveIteration],
+			[1, mutagenic],
+			[1, emrakul],
+			[2, shatterskull],
+			[16, mountain],
+			[4, fetchland],
+			[3, bolt, "sideboard"],
+		),
+	);
+
+	it("should skip the sideboard", () => {
+		expect(stats.cards).toBe(33);
+		expect(stats.lands).toBe(20);
+		expect(stats.manaLands).toBe(16);
+	});
+
+	it("should split the curve into permanents and spells", () => {
+		expect(stats.curve.permanents).toEqual([0, 0, 3, 0, 0, 0, 0, 1]);
+		expect(stats.curve.spells).toEqual([0, 5, 4, 0, 0, 0, 0, 0]);
+	});
+
+	it("should count pips for each copy, from the front face of DFCs", () => {
+		expect(stats.pips.R).toEqual({ plain: 10, hybrid: 0, phyrexian: 0 });
+		expect(stats.pips.U.plain).toBe(2);
+		expect(stats.pips.B.plain).toBe(3);
+		expect(stats.pips.G).toEqual({ plain: 0, hybrid: 0, phyrexian: 1 });
+	});
+
+	it("should count types, colors and identity", () => {
+		expect(stats.types).toMatchObject({
+			Creature: 4,
+			Artifact: 3,
+			Instant: 5,
+			Sorcery: 4,
+			Land: 20,
+		});
+		expect(stats.colors).toEqual({
+			R: 8,
+			B: 3,
+			U: 2,
+			G: 1,
+			multicolor: 2,
+			colorless: 1,
+		});
+		expect(stats.identity).toEqual({
+			R: 24,
+			B: 3,
+			U: 2,
+			G: 1,
+			colorless: 5,
+		});
+	});
+
+	it("should average mana value with and without lands", () => {
+		// 4×1 + 3×2 + 2×2 + 1×1 + 1×15 + 2×2 = 34
+		expect(stats.averageManaValue).toBeCloseTo(34 / 33);
+		expect(stats.averageManaValueWithoutLands).toBeCloseTo(34 / 13);
+	});
+});
+
+describe("formatDeckStats", () => {
+	it("should render compact markdown", () => {
+		const resolved = deck([4, bolt], [1, emrakul], [17, mountain]);
+		resolved.unresolved.push({
+			quantity: 1,
+			name: "Lightnig Bolt",
+			section: "mainboard",
+			line: 4,
+		});
+		const text = formatDeckStats(analyzeDeck(resolved), resolved);
+
+		expect(text).toContain("# Deck stats (22 cards, 17 lands, 5 nonland)");
+		expect(text).toContain(
+			"Average mana value: 3.80 without lands, 0.86 with lands",
+		);
+		expect(text).toContain("Mana-producing lands: 17 of 17");
+		expect(text).toContain("| 1 | 0 | 4 | 4 |");
+		expect(text).toContain("| 7+ | 1 | 0 | 1 |");
+		expect(text).not.toContain("| 3 |");
+		expect(text).toContain("**Pips:** {R} 4");
+		expect(text).toContain("**Types:** Creature 1, Instant 4, Land 17");
+		expect(text).toContain("**Colors (nonland):** R 4, colorless 1");
+		expect(text).toContain("**Color identity:** R 21, colorless 1");
+		expect(text).toContain(
+			"**Not found, so not counted (1):** 1 Lightnig Bolt",
+		);
+	});
+});
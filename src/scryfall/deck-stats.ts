@@ -0,0 +1,286 @@
+/**
+ * Deck statistics: mana curve, colored pips, card types and colors
+ * Covers the commander and mainboard; the sideboard and companion are not
+ * part of the deck that is drawn from.
+ */
+
+import { cardOracleText, frontTypeLine } from "./card-utils.js";
+import type { ResolvedDecklist } from "./decklist.js";
+import { splitManaSymbols } from "./symbology.js";
+import type { ScryfallCard } from "./types.js";
+
+// Highest mana value with its own curve column; anything above is "7+"
+export const CURVE_MAX = 7;
+
+export const PIP_COLORS = ["W", "U", "B", "R", "G", "C"] as const;
+export type PipColor = (typeof PIP_COLORS)[number];
+
+// Card types in the order they are listed; a card counts once for each type
+export const CARD_TYPES = [
+	"Creature",
+	"Planeswalker",
+	"Battle",
+	"Artifact",
+	"Enchantment",
+	"Instant",
+	"Sorcery",
+	"Land",
+] as const;
+export type CardType = (typeof CARD_TYPES)[number];
+
+const PERMANENT_TYPES: CardType[] = [
+	"Creature",
+	"Planeswalker",
+	"Battle",
+	"Artifact",
+	"Enchantment",
+];
+
+const COLORS = ["W", "U", "B", "R", "G"];
+
+export interface PipCount {
+	plain: number; // e.g. {R}
+	hybrid: number; // e.g. {R/G} or {2/R}, counted once for each color
+	phyrexian: number; // e.g. {R/P} or {R/G/P}
+}
+
+export interface DeckStats {
+	cards: number;
+	lands: number;
+	manaLands: number; // Lands that produce mana
+	// Nonland cards by mana value; index CURVE_MAX holds everything above
+	curve: { permanents: number[]; spells: number[] };
+	pips: Record<PipColor, PipCount>;
+	types: Record<CardType, number>;
+	colors: Record<string, number>; // Nonland cards by color, "multicolor" and "colorless"
+	identity: Record<string, number>; // All cards by color identity color, and "colorless"
+	averageManaValue: number;
+	averageManaValueWithoutLands: number;
+}
+
+/**
+ * Card types on a card's front face
+ * A modal double-faced card with a land back counts as its front.
+ */
+export function cardTypes(card: ScryfallCard): CardType[] {
+	const typeLine = frontTypeLine(card).split(" — ")[0];
+	return CARD_TYPES.filter((type) =>
+		new RegExp(`\\b${type}\\b`).test(typeLine),
+	);
+}
+
+/**
+ * Mana cost to count pips from
+ * Split and adventure cards have both halves in the card's own cost;
+ * double-faced cards are cast from the front.
+ */
+function castingCost(card: ScryfallCard): string {
+	return card.mana_cost || card.card_faces?.[0]?.mana_cost || "";
+}
+
+function emptyPips(): Record<PipColor, PipCount> {
+	return Object.fromEntries(
+		PIP_COLORS.map((color) => [color, { plain: 0, hybrid: 0, phyrexian: 0 }]),
+	) as Record<PipColor, PipCount>;
+}
+
+/**
+ * Add the colored pips of a mana cost to a count
+ * @param copies - Number of copies of the card
+ */
+export function countPips(
+	cost: string,
+	pips: Record<PipColor, PipCount>,
+	copies = 1,
+): void {
+	for (const symbol of splitManaSymbols(cost)) {
+		const parts = symbol.slice(1, -1).toUpperCase().split("/");
+		const colors = parts.filter((part): part is PipColor =>
+			(PIP_COLORS as readonly string[]).includes(part),
+		);
+		const kind: keyof PipCount = parts.includes("P")
+			? "phyrexian"
+			: parts.length > 1
+				? "hybrid"
+				: "plain";
+
+		for (const color of colors) {
+			pips[color][kind] += copies;
+		}
+	}
+}
+
+/**
+ * Whether a land produces mana
+ * Uses Scryfall's produced_mana, falling back to the oracle text when a card
+ * comes without it.
+ */
+export function producesMana(card: ScryfallCard): boolean {
+	if (card.produced_mana !== undefined) {
+		return card.produced_mana.length > 0;
+	}
+	return /\bAdd\b[^.]*(\{[WUBRGC]\}|mana)/.test(cardOracleText(card));
+}
+
+function cardColors(card: ScryfallCard): string[] {
+	return card.colors ?? card.card_faces?.[0]?.colors ?? [];
+}
+
+function increment(counts: Record<string, number>, key: string, by: number) {
+	counts[key] = (counts[key] ?? 0) + by;
+}
+
+/**
+ * Compute the statistics of a resolved deck
+ */
+export function analyzeDeck(deck: ResolvedDecklist): DeckStats {
+	const entries = deck.cards.filter(
+		(entry) => entry.section === "commander" || entry.section === "mainboard",
+	);
+	const curve = {
+		permanents: new Array<number>(CURVE_MAX + 1).fill(0),
+		spells: new Array<number>(CURVE_MAX + 1).fill(0),
+	};
+	const pips = emptyPips();
+	const types = Object.fromEntries(
+		CARD_TYPES.map((type) => [type, 0]),
+	) as Record<CardType, number>;
+	const colors: Record<string, number> = {};
+	const identity: Record<string, number> = {};
+	let cards = 0;
+	let lands = 0;
+	let manaLands = 0;
+	let manaValue = 0;
+
+	for (const { card, quantity } of entries) {
+		const cardTypeList = cardTypes(card);
+		const isLand = cardTypeList.includes("Land");
+
+		cards += quantity;
+		manaValue += card.cmc * quantity;
+		for (const type of cardTypeList) {
+			types[type] += quantity;
+		}
+
+		if (card.color_identity.length === 0) {
+			increment(identity, "colorless", quantity);
+		}
+		for (const color of card.color_identity) {
+			increment(identity, color, quantity);
+		}
+
+		if (isLand) {
+			lands += quantity;
+			if (producesMana(card)) manaLands += quantity;
+			continue;
+		}
+
+		const column = Math.min(Math.floor(card.cmc), CURVE_MAX);
+		const permanent = cardTypeList.some((type) =>
+			PERMANENT_TYPES.includes(type),
+		);
+		(permanent ? curve.permanents : curve.spells)[column] += quantity;
+
+		countPips(castingCost(card), pips, quantity);
+
+		const colorList = cardColors(card);
+		if (colorList.length === 0) {
+			increment(colors, "colorless", quantity);
+		} else if (colorList.length > 1) {
+			increment(colors, "multicolor", quantity);
+		}
+		for (const color of colorList) {
+			increment(colors, color, quantity);
+		}
+	}
+
+	const nonland = cards - lands;
+	return {
+		cards,
+		lands,
+		manaLands,
+		curve,
+		pips,
+		types,
+		colors,
+		identity,
+		averageManaValue: cards > 0 ? manaValue / cards : 0,
+		// Lands have mana value 0, so the total is the same without them
+		averageManaValueWithoutLands: nonland > 0 ? manaValue / nonland : 0,
+	};
+}
+
+function formatCounts(counts: Record<string, number>): string {
+	const keys = [...COLORS, "multicolor", "colorless"].filter(
+		(key) => counts[key],
+	);
+	return keys.length > 0
+		? keys.map((key) => `${key} ${counts[key]}`).join(", ")
+		: "none";
+}
+
+function formatPipCount(color: PipColor, count: PipCount): string | undefined {
+	const total = count.plain + count.hybrid + count.phyrexian;
+	if (total === 0) {
+		return undefined;
+	}
+	const details = [
+		count.hybrid > 0 ? `${count.hybrid} hybrid` : "",
+		count.phyrexian > 0 ? `${count.phyrexian} Phyrexian` : "",
+	].filter(Boolean);
+	return `{${color}} ${total}${details.length > 0 ? ` (${details.join(", ")})` : ""}`;
+}
+
+/**
+ * Format deck statistics as compact markdown
+ */
+export function formatDeckStats(
+	stats: DeckStats,
+	deck: ResolvedDecklist,
+): string {
+	const output: string[] = [];
+
+	output.push(
+		`# Deck stats (${stats.cards} cards, ${stats.lands} lands, ${stats.cards - stats.lands} nonland)`,
+	);
+	output.push(
+		`Average mana value: ${stats.averageManaValueWithoutLands.toFixed(2)} without lands, ${stats.averageManaValue.toFixed(2)} with lands`,
+	);
+	output.push(`Mana-producing lands: ${stats.manaLands} of ${stats.lands}`);
+	output.push("");
+
+	output.push("## Mana curve");
+	output.push("| MV | Permanents | Spells | Total |");
+	output.push("| --- | --- | --- | --- |");
+	for (let column = 0; column <= CURVE_MAX; column++) {
+		const permanents = stats.curve.permanents[column];
+		const spells = stats.curve.spells[column];
+		if (permanents + spells === 0) continue;
+		const label = column === CURVE_MAX ? `${CURVE_MAX}+` : String(column);
+		output.push(
+			`| ${label} | ${permanents} | ${spells} | ${permanents + spells} |`,
+		);
+	}
+	output.push("");
+
+	const pips = PIP_COLORS.map((color) =>
+		formatPipCount(color, stats.pips[color]),
+	).filter((pip): pip is string => pip !== undefined);
+	output.push(`**Pips:** ${pips.length > 0 ? pips.join(", ") : "none"}`);
+
+	const types = CARD_TYPES.filter((type) => stats.types[type] > 0).map(
+		(type) => `${type} ${stats.types[type]}`,
+	);
+	output.push(`**Types:** ${types.length > 0 ? types.join(", ") : "none"}`);
+	output.push(`**Colors (nonland):** ${formatCounts(stats.colors)}`);
+	output.push(`**Color identity:** ${formatCounts(stats.identity)}`);
+
+	if (deck.unresolved.length > 0) {
+		output.push("");
+		output.push(
+			`**Not found, so not counted (${deck.unresolved.length}):** ${deck.unresolved.map((entry) => `${entry.quantity} ${entry.name}`).join(", ")}`,
+		);
+	}
+
+	return output.join("\n");
+}
@@ -0,0 +1,387 @@
+import { describe, expect, it } from "vitest";
+import {
+	copyLimit,
+	formatDeckValidation,
+	validateCommanderDeck,
+	validateConstructedDeck,
+} from "./deck-validation.js";
+import type {
+	DeckSection,
+	ResolvedDeckEntry,
+	ResolvedDecklist,
+} from "./decklist.js";
+import { mockCard } from "./test-helpers.js";
+import type { ScryfallCard } from "./types.js";
+
+const LEGAL = { commander: "legal" } as const;
+
+function entry(
+	card: ScryfallCard,
+	quantity = 1,
+	section: DeckSection = "mainboard",
+): ResolvedDeckEntry {
+	return { quantity, name: card.name, section, line: 1, card };
+}
+
+function deckOf(...cards: ResolvedDeckEntry[]): ResolvedDecklist {
+	return { cards, unresolved: [], unparsed: [] };
+}
+
+function commander(overrides: Partial<ScryfallCard> = {}): ScryfallCard {
+	return mockCard({
+		name: "Test Commander",
+		type_line: "Legendary Creature — Elf",
+		color_identity: ["G"],
+		legalities: LEGAL,
+		...overrides,
+	});
+}
+
+// A legal 100-card deck: the commander, 60 singletons and 39 Forests
+function legalDeck(lead = commander()): ResolvedDeckEntry[] {
+	const singles = Array.from({ length: 60 }, (_, i) =>
+		entry(
+			mockCard({
+				name: `Card ${i}`,
+				color_identity: ["G"],
+				legalities: LEGAL,
+			}),
+		),
+	);
+	const forest = mockCard({
+		name: "Forest",
+		type_line: "Basic Land — Forest",
+		legalities: LEGAL,
+	});
+	return [entry(lead, 1, "commander"), ...singles, entry(forest, 39)];
+}
+
+describe("copyLimit", () => {
+	it("should allow any number of basic lands and 'any number' cards", () => {
+		const snow = mockCard({ type_line: "Basic Snow Land — Island" });
+		const rats = mockCard({
+			name: "Relentless Rats",
+			oracle_text:
+				"Relentless Rats gets +1/+1 for each other creature you control named Relentless Rats.\nA deck can have any number of cards named Relentless Rats.",
+		});
+		expect(copyLimit(snow, 1)).toBe(Number.POSITIVE_INFINITY);
+		expect(copyLimit(rats, 4)).toBe(Number.POSITIVE_INFINITY);
+	});
+
+	it("should read limits like Seven Dwarves from oracle text", () => {
+		const dwarves = mockCard({
+			oracle_text: "A deck can have up to seven cards named Seven Dwarves.",
+		});
+		expect(copyLimit(dwarves, 4)).toBe(7);
+		expect(copyLimit(mockCard(), 4)).toBe(4);
+	});
+});
+
+describe("validateCommanderDeck", () => {
+	it("should accept a legal deck", () => {
+		const result = validateCommanderDeck(deckOf(...legalDeck()));
+		expect(result.violations).toEqual([]);
+		expect(result.valid).toBe(true);
+		expect(result.notes).toContain("Color identity: G");
+	});
+
+	it("should report size, singleton, identity and legality problems", () => {
+		const [lead, ...rest] = legalDeck();
+		const bolt = mockCard({
+			name: "Lightning Bolt",
+			color_identity: ["R"],
+			legalities: LEGAL,
+		});
+		const banned = mockCard({
+			name: "Primeval Titan",
+			color_identity: ["G"],
+			legalities: { commander: "banned" },
+		});
+		const result = validateCommanderDeck(
+			deckOf(lead, ...rest.slice(2), entry(bolt, 2), entry(banned)),
+		);
+
+		expect(result.violations.map((violation) => violation.rule)).toEqual([
+			"Deck size",
+			"Singleton",
+			"Color identity",
+			"Banned",
+		]);
+		expect(result.violations[0].message).toContain("101 cards");
+	});
+
+	it("should take commanders named from the main deck", () => {
+		const [lead, ...rest] = legalDeck();
+		const result = validateCommanderDeck(
+			deckOf({ ...lead, section: "mainboard" }, ...rest),
+			["test commander"],
+		);
+		expect(result.valid).toBe(true);
+	});
+
+	it("should take commanders named from the sideboard", () => {
+		const [lead, ...rest] = legalDeck();
+		const result = validateCommanderDeck(
+			deckOf(...rest, { ...lead, section: "sideboard" }),
+			["Test Commander"],
+		);
+		expect(result.valid).toBe(true);
+		expect(result.notes).toContain("Commander: Test Commander");
+		expect(result.notes).not.toContain(
+			"Sideboard cards are not part of a Commander deck and were ignored",
+		);
+	});
+
+	it("should not call a deck with unresolved cards legal", () => {
+		const deck = {
+			...deckOf(...legalDeck()),
+			unresolved: [
+				{
+					quantity: 2,
+					name: "Nonexistent Card",
+					section: "mainboard" as const,
+					line: 3,
+				},
+			],
+		};
+		const result = validateCommanderDeck(deck);
+		expect(result.valid).toBe(false);
+		expect(result.violations).toEqual([
+			{
+				rule: "Not found",
+				message: "2 cards were not found and could not be checked",
+			},
+		]);
+		expect(validateConstructedDeck(deck, "modern").violations).toContainEqual(
+			result.violations[0],
+		);
+	});
+
+	it("should not call a deck with unparsed lines legal", () => {
+		const deck = {
+			...deckOf(...legalDeck()),
+			unparsed: [
+				{ line: 4, text: "0 Island", reason: "Quantity must be at least 1" },
+			],
+		};
+		const result = validateCommanderDeck(deck);
+		expect(result.valid).toBe(false);
+		expect(result.violations).toEqual([
+			{
+				rule: "Could not parse",
+				message:
+					"1 line of the decklist could not be parsed and was not checked",
+			},
+		]);
+		expect(validateConstructedDeck(deck, "modern").violations).toContainEqual(
+			result.violations[0],
+		);
+	});
+
+	it("should reject missing and ineligible commanders", () => {
+		const [, ...rest] = legalDeck();
+		expect(validateCommanderDeck(deckOf(...rest)).violations[0].message).toBe(
+			'No commander found; put it under a "Commander" header or name it with the commanders parameter',
+		);
+
+		const result = validateCommanderDeck(
+			deckOf(...legalDeck(commander({ type_line: "Legendary Artifact" }))),
+		);
+		expect(result.violations[0].rule).toBe("Commander");
+	});
+
+	it("should accept planeswalkers that can be your commander", () => {
+		const walker = commander({
+			type_line: "Legendary Planeswalker — Freyalise",
+			oracle_text: "Freyalise can be your commander.",
+		});
+		expect(validateCommanderDeck(deckOf(...legalDeck(walker))).valid).toBe(
+			true,
+		);
+	});
+
+	describe("pairings", () => {
+		function pair(first: ScryfallCard, second: ScryfallCard) {
+			const [, ...rest] = legalDeck();
+			return validateCommanderDeck(
+				deckOf(
+					entry(first, 1, "commander"),
+					entry(second, 1, "commander"),
+					...rest.slice(1),
+				),
+			);
+		}
+
+		it("should accept Partner, Partner with, Friends forever and Backgrounds", () => {
+			const partner = (name: string, text = "Partner") =>
+				commander({ name, oracle_text: text });
+			expect(pair(partner("A"), partner("B")).valid).toBe(true);
+			expect(
+				pair(
+					partner(
+						"Pir, Imaginative Rascal",
+						"Partner with Toothy, Imaginary Friend (When this creature enters, target player may put Toothy into their hand from their library, then shuffle.)",
+					),
+					partner(
+						"Toothy, Imaginary Friend",
+						"Partner with Pir, Imaginative Rascal",
+					),
+				).valid,
+			).toBe(true);
+			expect(
+				pair(partner("A", "Friends forever"), partner("B", "Friends forever"))
+					.valid,
+			).toBe(true);
+			expect(
+				pair(
+					partner("A", "Choose a Background"),
+					commander({
+						name: "Raised by Giants",
+						type_line: "Legendary Enchantment — Background",
+					}),
+				).valid,
+			).toBe(true);
+		});
+
+		it("should reject mismatched pairs", () => {
+			const result = pair(
+				commander({ name: "A", oracle_text: "Partner with C" }),
+				commander({ name: "B", oracle_text: "Partner" }),
+			);
+			expect(result.violations).toEqual([
+				{
+					rule: "Commander pairing",
+					message: "A can only partner with C",
+				},
+			]);
+			expect(
+				pair(commander({ name: "A" }), commander({ name: "B" })).valid,
+			).toBe(false);
+		});
+	});
+});
+
+describe("validateConstructedDeck", () => {
+	const MODERN = { modern: "legal", vintage: "legal" } as const;
+
+	// 15 playsets and 20 Mountains, plus a 15-card sideboard
+	function modernDeck(): ResolvedDeckEntry[] {
+		const playsets = Array.from({ length: 10 }, (_, i) =>
+			entry(mockCard({ name: `Card ${i}`, legalities: MODERN }), 4),
+		);
+		const mountain = mockCard({
+			name: "Mountain",
+			type_line: "Basic Land — Mountain",
+			legalities: MODERN,
+		});
+		const sideboard = Array.from({ length: 5 }, (_, i) =>
+			entry(
+				mockCard({ name: `Side ${i}`, legalities: MODERN }),
+				3,
+				"sideboard",
+			),
+		);
+		return [...playsets, entry(mountain, 20), ...sideboard];
+	}
+
+	it("should accept a legal deck", () => {
+		const result = validateConstructedDeck(deckOf(...modernDeck()), "modern");
+		expect(result.violations).toEqual([]);
+		expect(result.notes).toEqual(["Main deck: 60", "Sideboard: 15"]);
+	});
+
+	it("should count copies across the main deck and sideboard", () => {
+		const extra = entry(
+			mockCard({ name: "Card 0", legalities: MODERN }),
+			1,
+			"sideboard",
+		);
+		const result = validateConstructedDeck(
+			deckOf(...modernDeck().slice(1), extra),
+			"modern",
+		);
+		expect(result.violations).toEqual([
+			{
+				rule: "Deck size",
+				message: "Main deck has 56 cards; Modern needs at least 60",
+			},
+			{
+				rule: "Sideboard size",
+				message: "Sideboard has 16 cards; the maximum is 15",
+			},
+		]);
+	});
+
+	it("should report copy limits, banned and restricted cards", () => {
+		const lotus = mockCard({
+			name: "Black Lotus",
+			legalities: { vintage: "restricted", modern: "not_legal" },
+		});
+		const bauble = mockCard({
+			name: "Mishra's Bauble",
+			legalities: { vintage: "legal", modern: "banned" },
+		});
+		const rats = mockCard({
+			name: "Relentless Rats",
+			oracle_text: "A deck can have any number of cards named Relentless Rats.",
+			legalities: MODERN,
+		});
+		const cards = [
+			...modernDeck(),
+			entry(lotus, 2),
+			entry(bauble, 5),
+			entry(rats, 12),
+		];
+
+		expect(
+			validateConstructedDeck(deckOf(...cards), "vintage").violations,
+		).toEqual([
+			{
+				rule: "Restricted",
+				card: "Black Lotus",
+				message:
+					"2 copies of Black Lotus, which is restricted to one in Vintage",
+			},
+			{
+				rule: "Copy limit",
+				card: "Mishra's Bauble",
+				message: "5 copies of Mishra's Bauble; the limit is 4",
+			},
+		]);
+		expect(
+			validateConstructedDeck(deckOf(...cards), "modern").violations.map(
+				(violation) => `${violation.rule}: ${violation.card}`,
+			),
+		).toEqual([
+			"Copy limit: Mishra's Bauble",
+			"Not legal: Black Lotus",
+			"Banned: Mishra's Bauble",
+		]);
+	});
+});
+
+describe("formatDeckValidation", () => {
+	it("should list violations and cards that were not checked", () => {
+		const [, ...rest] = legalDeck();
+		const deck = {
+			...deckOf(...rest),
+			unresolved: [
+				{
+					quantity: 1,
+					name: "Nonexistent Card",
+					section: "mainboard" as const,
+					line: 3,
+				},
+			],
+		};
+		const text = formatDeckValidation(validateCommanderDeck(deck), deck);
+		expect(text).toContain("❌ 3 problems for Commander");
+		expect(text).toContain("- **Deck size**: Deck has 99 cards");
+		expect(text).toContain(
+			"- **Not found**: 1 card was not found and could not be checked",
+		);
+		expect(text).toContain(
+			"**Not found, so not checked (1):** 1 Nonexistent Card",
+		);
+	});
+});
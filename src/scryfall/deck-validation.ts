@@ -0,0 +1,548 @@
+/**
+ * Deck legality checks for resolved decklists
+ * Rules are read from card data (type line, oracle text, color identity and
+ * legalities) rather than hard-coded card lists, so new printings of
+ * "any number" cards or partner commanders are handled automatically.
+ */
+
+import { cardOracleText, frontTypeLine } from "./card-utils.js";
+import type {
+	DecklistEntry,
+	ResolvedDeckEntry,
+	ResolvedDecklist,
+} from "./decklist.js";
+import { countSection } from "./decklist.js";
+import type { ScryfallCard } from "./types.js";
+
+export interface DeckViolation {
+	rule: string; // Short rule name, e.g. "Singleton" or "Color identity"
+	card?: string; // Offending card, when the rule is about one card
+	message: string;
+}
+
+export interface DeckValidation {
+	format: string; // Display name, e.g. "Commander"
+	valid: boolean;
+	violations: DeckViolation[];
+	notes: string[]; // Facts about the deck shown above the violations
+}
+
+const COLOR_ORDER = ["W", "U", "B", "R", "G"];
+
+const NUMBER_WORDS: Record<string, number> = {
+	one: 1,
+	two: 2,
+	three: 3,
+	four: 4,
+	five: 5,
+	six: 6,
+	seven: 7,
+	eight: 8,
+	nine: 9,
+	ten: 10,
+};
+
+// Keyword lines that let two cards share the command zone
+const PLAIN_PARTNER = /^Partner(?:\s*\(|$)/m;
+const PARTNER_WITH = /^Partner with ([^(\n]+?)\s*(?:\(|$)/m;
+const FRIENDS_FOREVER = /^Friends forever\b/m;
+const CHOOSE_A_BACKGROUND = /^Choose a Background\b/m;
+const DOCTORS_COMPANION = /^Doctor's companion\b/m;
+
+/**
+ * Whether a card is a basic land (including snow basics and Wastes)
+ */
+export function isBasicLand(card: ScryfallCard): boolean {
+	const typeLine = frontTypeLine(card);
+	return /\bBasic\b/.test(typeLine) && /\bLand\b/.test(typeLine);
+}
+
+/**
+ * Maximum copies of a card allowed in a deck
+ * Basic lands and cards reading "A deck can have any number of cards named
+ * ..." are unlimited; cards like Seven Dwarves state their own limit.
+ * @param normalLimit - The format's usual limit (1 for Commander, 4 otherwise)
+ */
+export function copyLimit(card: ScryfallCard, normalLimit: number): number {
+	if (isBasicLand(card)) {
+		return Number.POSITIVE_INFINITY;
+	}
+
+	const text = cardOracleText(card);
+	if (/A deck can have any number of cards named/i.test(text)) {
+		return Number.POSITIVE_INFINITY;
+	}
+
+	const upTo = /A deck can have up to (\w+) cards named/i.exec(text);
+	if (upTo) {
+		const word = upTo[1].toLowerCase();
+		const limit = NUMBER_WORDS[word] ?? Number.parseInt(word, 10);
+		if (!Number.isNaN(limit)) {
+			return limit;
+		}
+	}
+
+	return normalLimit;
+}
+
+/**
+ * Total copies of each card across the given entries, keyed by card name
+ * Different printings of the same card count together.
+ */
+export function countCopies(
+	entries: ResolvedDeckEntry[],
+): Map<string, { card: ScryfallCard; quantity: number }> {
+	const copies = new Map<string, { card: ScryfallCard; quantity: number }>();
+
+	for (const entry of entries) {
+		const existing = copies.get(entry.card.name);
+		if (existing) {
+			existing.quantity += entry.quantity;
+		} else {
+			copies.set(entry.card.name, {
+				card: entry.card,
+				quantity: entry.quantity,
+			});
+		}
+	}
+
+	return copies;
+}
+
+function sortColors(colors: Iterable<string>): string[] {
+	const unique = new Set(colors);
+	return COLOR_ORDER.filter((color) => unique.has(color));
+}
+
+/**
+ * Whether a card can lead a Commander deck on its own
+ */
+function isCommanderEligible(card: ScryfallCard): boolean {
+	const typeLine = frontTypeLine(card);
+	return (
+		(/\bLegendary\b/.test(typeLine) && /\bCreature\b/.test(typeLine)) ||
+		/can be your commander/i.test(cardOracleText(card))
+	);
+}
+
+function isBackground(card: ScryfallCard): boolean {
+	return /\bBackground\b/.test(frontTypeLine(card));
+}
+
+function isTimeLordDoctor(card: ScryfallCard): boolean {
+	return /\bTime Lord Doctor\b/.test(frontTypeLine(card));
+}
+
+/**
+ * Check whether two commanders are allowed together
+ * @returns Why the pair is invalid, or undefined when it is a legal pairing
+ */
+function checkPairing(
+	first: ScryfallCard,
+	second: ScryfallCard,
+): string | undefined {
+	const firstText = cardOracleText(first);
+	const secondText = cardOracleText(second);
+
+	const partnerWith = PARTNER_WITH.exec(firstText)?.[1];
+	const otherPartnerWith = PARTNER_WITH.exec(secondText)?.[1];
+	if (partnerWith || otherPartnerWith) {
+		if (partnerWith === second.name && otherPartnerWith === first.name) {
+			return undefined;
+		}
+		const [card, partner] = partnerWith
+			? [first, partnerWith]
+			: [second, otherPartnerWith];
+		return `${card.name} can only partner with ${partner}`;
+	}
+
+	if (PLAIN_PARTNER.test(firstText) && PLAIN_PARTNER.test(secondText)) {
+		return undefined;
+	}
+	if (FRIENDS_FOREVER.test(firstText) && FRIENDS_FOREVER.test(secondText)) {
+		return undefined;
+	}
+
+	for (const [card, other] of [
+		[first, second],
+		[second, first],
+	]) {
+		const text = cardOracleText(card);
+		if (CHOOSE_A_BACKGROUND.test(text) && isBackground(other)) {
+			return undefined;
+		}
+		if (DOCTORS_COMPANION.test(text) && isTimeLordDoctor(other)) {
+			return undefined;
+		}
+	}
+
+	return `${first.name} and ${second.name} cannot be commanders together; both need Partner or Friends forever, a matching "Partner with", or a "Choose a Background" commander with a Background`;
+}
+
+function checkCommanders(commanders: ScryfallCard[]): DeckViolation[] {
+	if (commanders.length === 0) {
+		return [
+			{
+				rule: "Commander",
+				message:
+					'No commander found; put it under a "Commander" header or name it with the commanders parameter',
+			},
+		];
+	}
+
+	if (commanders.length > 2) {
+		return [
+			{
+				rule: "Commander",
+				message: `A deck can have at most two commanders, found ${commanders.length}: ${commanders.map((card) => card.name).join(", ")}`,
+			},
+		];
+	}
+
+	const violations: DeckViolation[] = [];
+
+	for (const card of commanders) {
+		const other = commanders.find((commander) => commander !== card);
+		// A Background is only a commander alongside "Choose a Background"
+		const pairedBackground =
+			other !== undefined &&
+			isBackground(card) &&
+			CHOOSE_A_BACKGROUND.test(cardOracleText(other));
+
+		if (!isCommanderEligible(card) && !pairedBackground) {
+			violations.push({
+				rule: "Commander",
+				card: card.name,
+				message: `${card.name} is not a legendary creature and does not say it can be your commander`,
+			});
+		}
+	}
+
+	if (commanders.length === 2) {
+		const problem = checkPairing(commanders[0], commanders[1]);
+		if (problem) {
+			violations.push({ rule: "Commander pairing", message: problem });
+		}
+	}
+
+	return violations;
+}
+
+function checkFormatLegality(
+	entries: ResolvedDeckEntry[],
+	format: string,
+	formatName: string,
+): DeckViolation[] {
+	const violations: DeckViolation[] = [];
+
+	for (const { card } of countCopies(entries).values()) {
+		const legality = card.legalities[format] ?? "not_legal";
+		if (legality === "banned") {
+			violations.push({
+				rule: "Banned",
+				card: card.name,
+				message: `${card.name} is banned in ${formatName}`,
+			});
+		} else if (legality === "not_legal") {
+			violations.push({
+				rule: "Not legal",
+				card: card.name,
+				message: `${card.name} is not legal in ${formatName}`,
+			});
+		}
+	}
+
+	return violations;
+}
+
+/**
+ * Cards that could not be found and lines that could not be parsed were
+ * never checked, so a deck with any of them cannot be called legal
+ */
+function checkUnchecked(deck: ResolvedDecklist): DeckViolation[] {
+	const violations: DeckViolation[] = [];
+
+	const count = deck.unresolved.reduce((sum, entry) => sum + entry.quantity, 0);
+	if (count > 0) {
+		violations.push({
+			rule: "Not found",
+			message: `${count} ${count === 1 ? "card was" : "cards were"} not found and could not be checked`,
+		});
+	}
+
+	const lines = deck.unparsed.length;
+	if (lines > 0) {
+		violations.push({
+			rule: "Could not parse",
+			message: `${lines} ${lines === 1 ? "line" : "lines"} of the decklist could not be parsed and ${lines === 1 ? "was" : "were"} not checked`,
+		});
+	}
+
+	return violations;
+}
+
+/**
+ * Check a resolved deck against the Commander deck construction rules
+ * The commander comes from the deck's Commander section, or from the
+ * mainboard or sideboard cards named in commanderNames (some exports put
+ * the commander in the sideboard). The companion is checked for legality
+ * and color identity but not counted in the 100 cards; the rest of the
+ * sideboard is ignored.
+ */
+export function validateCommanderDeck(
+	deck: ResolvedDecklist,
+	commanderNames: string[] = [],
+): DeckValidation {
+	const wanted = new Set(commanderNames.map((name) => name.toLowerCase()));
+	const isCommander = (entry: ResolvedDeckEntry) =>
+		entry.section === "commander" ||
+		((entry.section === "mainboard" || entry.section === "sideboard") &&
+			(wanted.has(entry.name.toLowerCase()) ||
+				wanted.has(entry.card.name.toLowerCase())));
+
+	const commandZone = deck.cards.filter(isCommander);
+	const mainboard = deck.cards.filter(
+		(entry) => entry.section === "mainboard" && !isCommander(entry),
+	);
+	const companion = deck.cards.filter((entry) => entry.section === "companion");
+	const ignored = deck.cards.filter(
+		(entry) => entry.section === "sideboard" && !isCommander(entry),
+	);
+	const commanders = [...countCopies(commandZone).values()].map(
+		({ card }) => card,
+	);
+
+	const violations: DeckViolation[] = [];
+	violations.push(...checkCommanders(commanders));
+
+	const total = [...commandZone, ...mainboard].reduce(
+		(sum, entry) => sum + entry.quantity,
+		0,
+	);
+	if (total !== 100) {
+		violations.push({
+			rule: "Deck size",
+			message: `Deck has ${total} cards including the commander; Commander decks need exactly 100`,
+		});
+	}
+
+	for (const { card, quantity } of countCopies([
+		...commandZone,
+		...mainboard,
+	]).values()) {
+		const limit = copyLimit(card, 1);
+		if (quantity > limit) {
+			violations.push({
+				rule: "Singleton",
+				card: card.name,
+				message: `${quantity} copies of ${card.name}; the limit is ${limit}`,
+			});
+		}
+	}
+
+	const identity = sortColors(
+		commanders.flatMap((commander) => commander.color_identity),
+	);
+	if (commanders.length > 0) {
+		for (const { card } of countCopies([...mainboard, ...companion]).values()) {
+			const outside = sortColors(card.color_identity).filter(
+				(color) => !identity.includes(color),
+			);
+			if (outside.length > 0) {
+				violations.push({
+					rule: "Color identity",
+					card: card.name,
+					message: `${card.name} has ${outside.join("")} outside the commander's color identity`,
+				});
+			}
+		}
+	}
+
+	violations.push(
+		...checkFormatLegality(
+			[...commandZone, ...mainboard, ...companion],
+			"commander",
+			"Commander",
+		),
+	);
+	violations.push(...checkUnchecked(deck));
+
+	const notes: string[] = [];
+	if (commanders.length > 0) {
+		notes.push(`Commander: ${commanders.map((card) => card.name).join(" + ")}`);
+		notes.push(
+			`Color identity: ${identity.length > 0 ? identity.join("") : "colorless"}`,
+		);
+	}
+	notes.push(`Cards: ${total}`);
+	if (ignored.length > 0) {
+		notes.push(
+			"Sideboard cards are not part of a Commander deck and were ignored",
+		);
+	}
+
+	return {
+		format: "Commander",
+		valid: violations.length === 0,
+		violations,
+		notes,
+	};
+}
+
+// 60-card constructed formats and their display names
+export const CONSTRUCTED_FORMATS = {
+	standard: "Standard",
+	pioneer: "Pioneer",
+	modern: "Modern",
+	legacy: "Legacy",
+	vintage: "Vintage",
+	pauper: "Pauper",
+	historic: "Historic",
+	explorer: "Explorer",
+	timeless: "Timeless",
+	alchemy: "Alchemy",
+	penny: "Penny Dreadful",
+	premodern: "Premodern",
+	oldschool: "Old School",
+	future: "Future Standard",
+} as const;
+
+export type ConstructedFormat = keyof typeof CONSTRUCTED_FORMATS;
+
+export const CONSTRUCTED_FORMAT_KEYS = Object.keys(CONSTRUCTED_FORMATS) as [
+	ConstructedFormat,
+	...ConstructedFormat[],
+];
+
+const MIN_MAIN_DECK = 60;
+const MAX_SIDEBOARD = 15;
+
+/**
+ * Check a resolved deck against a 60-card constructed format
+ * Copy limits count the main deck and sideboard together; the companion
+ * counts as a sideboard card. Restricted cards (Vintage) are limited to one.
+ */
+export function validateConstructedDeck(
+	deck: ResolvedDecklist,
+	format: ConstructedFormat,
+): DeckValidation {
+	const formatName = CONSTRUCTED_FORMATS[format];
+	const mainboard = deck.cards.filter((entry) => entry.section === "mainboard");
+	const sideboard = deck.cards.filter(
+		(entry) => entry.section === "sideboard" || entry.section === "companion",
+	);
+
+	const violations: DeckViolation[] = [];
+
+	const mainCount = countSection(deck, "mainboard");
+	if (mainCount < MIN_MAIN_DECK) {
+		violations.push({
+			rule: "Deck size",
+			message: `Main deck has ${mainCount} cards; ${formatName} needs at least ${MIN_MAIN_DECK}`,
+		});
+	}
+
+	const sideCount =
+		countSection(deck, "sideboard") + countSection(deck, "companion");
+	if (sideCount > MAX_SIDEBOARD) {
+		violations.push({
+			rule: "Sideboard size",
+			message: `Sideboard has ${sideCount} cards; the maximum is ${MAX_SIDEBOARD}`,
+		});
+	}
+
+	for (const { card, quantity } of countCopies([
+		...mainboard,
+		...sideboard,
+	]).values()) {
+		if (card.legalities[format] === "restricted") {
+			if (quantity > 1) {
+				violations.push({
+					rule: "Restricted",
+					card: card.name,
+					message: `${quantity} copies of ${card.name}, which is restricted to one in ${formatName}`,
+				});
+			}
+			continue;
+		}
+
+		const limit = copyLimit(card, 4);
+		if (quantity > limit) {
+			violations.push({
+				rule: "Copy limit",
+				card: card.name,
+				message: `${quantity} copies of ${card.name}; the limit is ${limit}`,
+			});
+		}
+	}
+
+	violations.push(
+		...checkFormatLegality([...mainboard, ...sideboard], format, formatName),
+	);
+	violations.push(...checkUnchecked(deck));
+
+	const notes = [`Main deck: ${mainCount}`, `Sideboard: ${sideCount}`];
+	if (countSection(deck, "commander") > 0) {
+		notes.push(
+			`Commander cards are not part of a ${formatName} deck and were ignored`,
+		);
+	}
+
+	return {
+		format: formatName,
+		valid: violations.length === 0,
+		violations,
+		notes,
+	};
+}
+
+function describeEntry(entry: DecklistEntry): string {
+	return `${entry.quantity} ${entry.name}`;
+}
+
+/**
+ * Format a deck validation result for tool output
+ * Cards that could not be resolved are listed, since they were not checked.
+ */
+export function formatDeckValidation(
+	validation: DeckValidation,
+	deck: ResolvedDecklist,
+): string {
+	const output: string[] = [];
+	const count = validation.violations.length;
+
+	output.push(
+		validation.valid
+			? `✅ Deck is legal in ${validation.format}`
+			: `❌ ${count} ${count === 1 ? "problem" : "problems"} for ${validation.format}`,
+	);
+	output.push("");
+	for (const note of validation.notes) {
+		output.push(`- ${note}`);
+	}
+
+	if (count > 0) {
+		output.push("");
+		output.push("**Violations:**");
+		for (const violation of validation.violations) {
+			output.push(`- **${violation.rule}**: ${violation.message}`);
+		}
+	}
+
+	if (deck.unresolved.length > 0) {
+		output.push("");
+		output.push(
+			`**Not found, so not checked (${deck.unresolved.length}):** ${deck.unresolved.map(describeEntry).join(", ")}`,
+		);
+	}
+
+	if (deck.unparsed.length > 0) {
+		output.push("");
+		output.push(`**Could not parse (${deck.unparsed.length}):**`);
+		for (const line of deck.unparsed) {
+			output.push(`- Line ${line.line}: "${line.text}" (${line.reason})`);
+		}
+	}
+
+	return output.join("\n");
+}
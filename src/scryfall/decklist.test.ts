@@ -0,0 +1,234 @@
+import { describe, expect, it } from "vitest";
+import {
+	countSection,
+	formatResolvedDecklist,
+	parseDecklist,
+	resolveDecklist,
+	toCardIdentifier,
+} from "./decklist.js";
+import { mockCard, mockList } from "./test-helpers.js";
+import type { CardIdentifier } from "./types.js";
+
+describe("parseDecklist", () => {
+	it("parses MTGA lines with set and collector number", () => {
+		const result = parseDecklist("4 Lightning Bolt (M10) 146\n2 Opt (ELD) 59");
+		expect(result.unparsed).toEqual([]);
+		expect(result.entries).toEqual([
+			{
+				quantity: 4,
+				name: "Lightning Bolt",
+				set: "m10",
+				collectorNumber: "146",
+				section: "mainboard",
+				line: 1,
+			},
+			{
+				quantity: 2,
+				name: "Opt",
+				set: "eld",
+				collectorNumber: "59",
+				section: "mainboard",
+				line: 2,
+			},
+		]);
+	});
+
+	it("parses plain quantities with and without an x", () => {
+		const result = parseDecklist("4x Counterspell\n1 Sol Ring\nBrainstorm");
+		expect(result.entries.map((e) => [e.quantity, e.name])).toEqual([
+			[4, "Counterspell"],
+			[1, "Sol Ring"],
+			[1, "Brainstorm"],
+		]);
+	});
+
+	it("recognizes MTGA section headers", () => {
+		const text = [
+			"Commander",
+			"1 Atraxa, Praetors' Voice",
+			"",
+			"Companion",
+			"1 Lurrus of the Dream-Den",
+			"",
+			"Deck",
+			"1 Sol Ring",
+			"",
+			"Sideboard",
+			"1 Duress",
+		].join("\n");
+		const result = parseDecklist(text);
+		expect(result.entries.map((e) => [e.name, e.section])).toEqual([
+			["Atraxa, Praetors' Voice", "commander"],
+			["Lurrus of the Dream-Den", "companion"],
+			["Sol Ring", "mainboard"],
+			["Duress", "sideboard"],
+		]);
+	});
+
+	it("treats a blank line as the sideboard separator when there are no headers", () => {
+		const result = parseDecklist(
+			"4 Lightning Bolt\n20 Mountain\n\n3 Smash to Smithereens",
+		);
+		expect(result.entries.map((e) => e.section)).toEqual([
+			"mainboard",
+			"mainboard",
+			"sideboard",
+		]);
+	});
+
+	it("supports MTGO SB: prefixes", () => {
+		const result = parseDecklist("4 Thoughtseize\nSB: 2 Duress");
+		expect(result.entries[1]).toMatchObject({
+			quantity: 2,
+			name: "Duress",
+			section: "sideboard",
+		});
+	});
+
+	it("ignores comments, Arena metadata and foil markers", () => {
+		const text = [
+			"About",
+			"Name Mono Red",
+			"",
+			"Deck",
+			"// Burn",
+			"4 Lightning Bolt (M10) 146 *F*",
+			"Sideboard (15)",
+			"2 Pyroblast",
+		].join("\n");
+		const result = parseDecklist(text);
+		expect(result.unparsed).toEqual([]);
+		expect(result.entries).toHaveLength(2);
+		expect(result.entries[0].collectorNumber).toBe("146");
+		expect(result.entries[1].section).toBe("sideboard");
+	});
+
+	it("reports lines it cannot parse", () => {
+		const result = parseDecklist("0 Lightning Bolt\n4\n4 Opt");
+		expect(result.entries).toHaveLength(1);
+		expect(result.unparsed).toEqual([
+			{
+				line: 1,
+				text: "0 Lightning Bolt",
+				reason: "Quantity must be at least 1",
+			},
+			{ line: 2, text: "4", reason: "Missing card name" },
+		]);
+	});
+});
+
+describe("toCardIdentifier", () => {
+	it("prefers set and collector number", () => {
+		expect(
+			toCardIdentifier({
+				quantity: 1,
+				name: "Lightning Bolt",
+				set: "m10",
+				collectorNumber: "146",
+				section: "mainboard",
+				line: 1,
+			}),
+		).toEqual({ set: "m10", collector_number: "146" });
+	});
+
+	it("falls back to name with optional set", () => {
+		const base = {
+			quantity: 1,
+			name: "Opt",
+			section: "mainboard" as const,
+			line: 1,
+		};
+		expect(toCardIdentifier({ ...base, set: "eld" })).toEqual({
+			name: "Opt",
+			set: "eld",
+		});
+		expect(toCardIdentifier(base)).toEqual({ name: "Opt" });
+	});
+});
+
+describe("resolveDecklist", () => {
+	const bolt = mockCard({
+		name: "Lightning Bolt",
+		type_line: "Instant",
+		mana_cost: "{R}",
+	});
+	const mountain = mockCard({
+		name: "Mountain",
+		type_line: "Basic Land — Mountain",
+	});
+
+	it("matches cards back to entries and reports missing ones", async () => {
+		const requests: CardIdentifier[][] = [];
+		const source = {
+			getCollection: async (identifiers: CardIdentifier[]) => {
+				requests.push(identifiers);
+				return mockList([bolt, mountain], {
+					not_found: [{ name: "Lightnig Blot" }],
+				});
+			},
+		};
+
+		const parsed = parseDecklist(
+			"4 Lightning Bolt\n1 Lightnig Blot\n18 Mountain\n\n2 Lightning Bolt",
+		);
+		const deck = await resolveDecklist(source, parsed);
+
+		// Duplicate names are only requested once
+		expect(requests).toEqual([
+			[
+				{ name: "Lightning Bolt" },
+				{ name: "Lightnig Blot" },
+				{ name: "Mountain" },
+			],
+		]);
+		expect(deck.cards.map((e) => [e.quantity, e.card.name, e.section])).toEqual(
+			[
+				[4, "Lightning Bolt", "mainboard"],
+				[18, "Mountain", "mainboard"],
+				[2, "Lightning Bolt", "sideboard"],
+			],
+		);
+		expect(deck.unresolved.map((e) => e.name)).toEqual(["Lightnig Blot"]);
+		expect(countSection(deck, "mainboard")).toBe(22);
+	});
+
+	it("skips the lookup when nothing parsed", async () => {
+		const source = {
+			getCollection: async () => {
+				throw new Error("should not be called");
+			},
+		};
+		const deck = await resolveDecklist(source, parseDecklist("0 Nothing"));
+		expect(deck.cards).toEqual([]);
+		expect(deck.unparsed).toHaveLength(1);
+	});
+});
+
+describe("formatResolvedDecklist", () => {
+	it("lists sections, unresolved and unparsed lines", async () => {
+		const source = {
+			getCollection: async () =>
+				mockList(
+					[
+						mockCard({
+							name: "Lightning Bolt",
+							mana_cost: "{R}",
+							type_line: "Instant",
+							set: "m10",
+							collector_number: "146",
+						}),
+					],
+					{ not_found: [{ name: "Fake Card" }] },
+				),
+		};
+		const deck = await resolveDecklist(
+			source,
+			parseDecklist("4 Lightning Bolt\n1 Fake Card\n0 Bad"),
+		);
+		const result = formatResolvedDecklist(deck);
+		expect(result).toContain("## Mainboard (4)");
+		expect(result).toContain("- 4 Lightning Bolt {R} — Instant (M10 146)");
+		expect(result).toContain("**Not found (1):**\n- Line 2: 1 Fake Card");
+		expect(result).toContain('**Could not parse (1):**\n- Line 3: "0 Bad"');
+	});
+});
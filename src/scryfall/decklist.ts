@@ -0,0 +1,308 @@
+/**
+ * Decklist parsing and resolution
+ * Understands MTGA, MTGO and plain-text exports such as "4 Lightning Bolt (M10) 146"
+ */
+
+import type { CardIdentifier, ScryfallCard, ScryfallList } from "./types.js";
+
+export type DeckSection = "mainboard" | "sideboard" | "commander" | "companion";
+
+export interface DecklistEntry {
+	quantity: number;
+	name: string;
+	set?: string;
+	collectorNumber?: string;
+	section: DeckSection;
+	line: number; // 1-based line number in the original text
+}
+
+export interface UnparsedLine {
+	line: number;
+	text: string;
+	reason: string;
+}
+
+export interface ParsedDecklist {
+	entries: DecklistEntry[];
+	unparsed: UnparsedLine[];
+}
+
+export interface ResolvedDeckEntry extends DecklistEntry {
+	card: ScryfallCard;
+}
+
+export interface ResolvedDecklist {
+	cards: ResolvedDeckEntry[];
+	unresolved: DecklistEntry[];
+	unparsed: UnparsedLine[];
+}
+
+// Anything that can look up a collection of cards (ScryfallClient in production)
+export interface CollectionSource {
+	getCollection(
+		identifiers: CardIdentifier[],
+	): Promise<ScryfallList<ScryfallCard>>;
+}
+
+export const DECK_SECTIONS: DeckSection[] = [
+	"commander",
+	"companion",
+	"mainboard",
+	"sideboard",
+];
+
+const SECTION_HEADERS: Record<string, DeckSection | "ignore"> = {
+	deck: "mainboard",
+	main: "mainboard",
+	maindeck: "mainboard",
+	mainboard: "mainboard",
+	sideboard: "sideboard",
+	side: "sideboard",
+	commander: "commander",
+	commanders: "commander",
+	companion: "companion",
+	about: "ignore",
+	maybeboard: "ignore",
+	considering: "ignore",
+};
+
+// "4 Lightning Bolt", "4x Lightning Bolt (M10) 146", "SB: 2 Duress", "1 Opt (ELD) 59 *F*"
+const ENTRY_PATTERN =
+	/^(?:(SB:)\s*)?(?:(\d+)\s*x?\s+)?(.+?)(?:\s+\(([A-Za-z0-9]{2,6})\)(?:\s+(\S+))?)?(?:\s+\*[A-Z]+\*)*$/i;
+
+function parseSectionHeader(text: string): DeckSection | "ignore" | undefined {
+	const normalized = text
+		.replace(/^\/\/\s*/, "")
+		.replace(/:$/, "")
+		.replace(/\s*\(\d+\)$/, "")
+		.trim()
+		.toLowerCase();
+	return SECTION_HEADERS[normalized];
+}
+
+/**
+ * Parse decklist text into entries grouped by section
+ * @param text - Raw decklist text in MTGA, MTGO or plain format
+ * @returns Parsed entries plus any lines that could not be understood
+ */
+export function parseDecklist(text: string): ParsedDecklist {
+	const entries: DecklistEntry[] = [];
+	const unparsed: UnparsedLine[] = [];
+
+	let section: DeckSection | "ignore" = "mainboard";
+	let sawHeader = false;
+	let sawBlankAfterMain = false;
+
+	const lines = text.split(/\r?\n/);
+	for (let index = 0; index < lines.length; index++) {
+		const lineNumber = index + 1;
+		const line = lines[index].trim();
+
+		if (line === "") {
+			// MTGO and header-less MTGA exports separate the sideboard with a blank line
+			if (
+				!sawHeader &&
+				entries.some((entry) => entry.section === "mainboard")
+			) {
+				sawBlankAfterMain = true;
+			}
+			continue;
+		}
+
+		const header = parseSectionHeader(line);
+		if (header) {
+			section = header;
+			sawHeader = true;
+			continue;
+		}
+
+		// Comments and Arena metadata ("Name My Deck") carry no cards
+		if (line.startsWith("//") || line.startsWith("#") || section === "ignore") {
+			continue;
+		}
+
+		const match = ENTRY_PATTERN.exec(line);
+		if (!match) {
+			unparsed.push({
+				line: lineNumber,
+				text: line,
+				reason: "Unrecognized line format",
+			});
+			continue;
+		}
+
+		const [, sideboardPrefix, quantityText, rawName, set, collectorNumber] =
+			match;
+		const quantity =
+			quantityText === undefined ? 1 : Number.parseInt(quantityText, 10);
+		const name = rawName.trim();
+
+		if (quantity < 1) {
+			unparsed.push({
+				line: lineNumber,
+				text: line,
+				reason: "Quantity must be at least 1",
+			});
+			continue;
+		}
+
+		if (/^\d+$/.test(name)) {
+			unparsed.push({
+				line: lineNumber,
+				text: line,
+				reason: "Missing card name",
+			});
+			continue;
+		}
+
+		let entrySection: DeckSection = section;
+		if (sideboardPrefix || (sawBlankAfterMain && !sawHeader)) {
+			entrySection = "sideboard";
+		}
+
+		entries.push({
+			quantity,
+			name,
+			set: set?.toLowerCase(),
+			collectorNumber,
+			section: entrySection,
+			line: lineNumber,
+		});
+	}
+
+	return { entries, unparsed };
+}
+
+/**
+ * Build the collection identifier for a decklist entry.
+ * Set + collector number pins an exact printing; otherwise match by name.
+ */
+export function toCardIdentifier(entry: DecklistEntry): CardIdentifier {
+	if (entry.set && entry.collectorNumber) {
+		return { set: entry.set, collector_number: entry.collectorNumber };
+	}
+	if (entry.set) {
+		return { name: entry.name, set: entry.set };
+	}
+	return { name: entry.name };
+}
+
+function identifierKey(identifier: CardIdentifier): string {
+	return JSON.stringify(identifier).toLowerCase();
+}
+
+/**
+ * Resolve parsed decklist entries to Scryfall cards
+ * Duplicate identifiers are only requested once.
+ */
+export async function resolveDecklist(
+	source: CollectionSource,
+	parsed: ParsedDecklist,
+): Promise<ResolvedDecklist> {
+	const identifiers: CardIdentifier[] = [];
+	const seen = new Set<string>();
+
+	for (const entry of parsed.entries) {
+		const identifier = toCardIdentifier(entry);
+		const key = identifierKey(identifier);
+		if (!seen.has(key)) {
+			seen.add(key);
+			identifiers.push(identifier);
+		}
+	}
+
+	if (identifiers.length === 0) {
+		return { cards: [], unresolved: [], unparsed: parsed.unparsed };
+	}
+
+	const result = await source.getCollection(identifiers);
+
+	// The collection endpoint returns found cards in request order, so walk the
+	// identifiers and skip the ones reported as not found
+	const notFound = new Set((result.not_found ?? []).map(identifierKey));
+	const cardsByKey = new Map<string, ScryfallCard>();
+	let dataIndex = 0;
+	for (const identifier of identifiers) {
+		const key = identifierKey(identifier);
+		if (notFound.has(key)) continue;
+		const card = result.data[dataIndex++];
+		if (card) {
+			cardsByKey.set(key, card);
+		}
+	}
+
+	const cards: ResolvedDeckEntry[] = [];
+	const unresolved: DecklistEntry[] = [];
+	for (const entry of parsed.entries) {
+		const card = cardsByKey.get(identifierKey(toCardIdentifier(entry)));
+		if (card) {
+			cards.push({ ...entry, card });
+		} else {
+			unresolved.push(entry);
+		}
+	}
+
+	return { cards, unresolved, unparsed: parsed.unparsed };
+}
+
+/**
+ * Total number of cards in a section of a resolved deck
+ */
+export function countSection(
+	deck: ResolvedDecklist,
+	section: DeckSection,
+): number {
+	return deck.cards
+		.filter((entry) => entry.section === section)
+		.reduce((total, entry) => total + entry.quantity, 0);
+}
+
+function describeEntry(entry: DecklistEntry): string {
+	const printing = entry.set
+		? ` (${entry.set.toUpperCase()}${entry.collectorNumber ? ` ${entry.collectorNumber}` : ""})`
+		: "";
+	return `${entry.quantity} ${entry.name}${printing}`;
+}
+
+/**
+ * Format a resolved decklist grouped by section
+ * @param deck - The resolved decklist
+ * @returns Markdown listing each section plus unparsed and unresolved lines
+ */
+export function formatResolvedDecklist(deck: ResolvedDecklist): string {
+	const output: string[] = [];
+
+	for (const section of DECK_SECTIONS) {
+		const entries = deck.cards.filter((entry) => entry.section === section);
+		if (entries.length === 0) continue;
+
+		const label = section.charAt(0).toUpperCase() + section.slice(1);
+		output.push(`## ${label} (${countSection(deck, section)})`);
+		for (const entry of entries) {
+			const { card } = entry;
+			const cost = card.mana_cost ? ` ${card.mana_cost}` : "";
+			output.push(
+				`- ${entry.quantity} ${card.name}${cost} — ${card.type_line} (${card.set.toUpperCase()} ${card.collector_number})`,
+			);
+		}
+		output.push("");
+	}
+
+	if (deck.unresolved.length > 0) {
+		output.push(`**Not found (${deck.unresolved.length}):**`);
+		for (const entry of deck.unresolved) {
+			output.push(`- Line ${entry.line}: ${describeEntry(entry)}`);
+		}
+		output.push("");
+	}
+
+	if (deck.unparsed.length > 0) {
+		output.push(`**Could not parse (${deck.unparsed.length}):**`);
+		for (const line of deck.unparsed) {
+			output.push(`- Line ${line.line}: "${line.text}" (${line.reason})`);
+		}
+		output.push("");
+	}
+
+	return output.join("\n").trim();
+}
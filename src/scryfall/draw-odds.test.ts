@@ -0,0 +1,184 @@
+import { describe, expect, it } from "vitest";
+import { ScryfallAPIError } from "./client.js";
+import type { ResolvedDecklist } from "./decklist.js";
+import {
+	atLeastProbability,
+	choose,
+	compileCardGroup,
+	drawOdds,
+	formatDrawOdds,
+	groupDeckCards,
+} from "./draw-odds.js";
+import { mockCard } from "./test-helpers.js";
+
+const bolt = mockCard({
+	name: "Lightning Bolt",
+	cmc: 1,
+	type_line: "Instant",
+	colors: ["R"],
+});
+const guide = mockCard({
+	name: "Goblin Guide",
+	cmc: 1,
+	type_line: "Creature — Goblin Scout",
+	colors: ["R"],
+});
+const mountain = mockCard({
+	name: "Mountain",
+	type_line: "Basic Land — Mountain",
+});
+const helix = mockCard({
+	name: "Lightning Helix",
+	cmc: 2,
+	type_line: "Instant",
+	colors: ["R", "W"],
+});
+
+function deck(): ResolvedDecklist {
+	return {
+		cards: [
+			{
+				quantity: 4,
+				name: "Lightning Bolt",
+				section: "mainboard",
+				line: 1,
+				card: bolt,
+			},
+			{
+				quantity: 4,
+				name: "Goblin Guide",
+				section: "mainboard",
+				line: 2,
+				card: guide,
+			},
+			{
+				quantity: 28,
+				name: "Lightning Helix",
+				section: "mainboard",
+				line: 3,
+				card: helix,
+			},
+			{
+				quantity: 24,
+				name: "Mountain",
+				section: "mainboard",
+				line: 4,
+				card: mountain,
+			},
+			{
+				quantity: 3,
+				name: "Lightning Bolt",
+				section: "sideboard",
+				line: 6,
+				card: bolt,
+			},
+		],
+		unresolved: [],
+		unparsed: [],
+	};
+}
+
+describe("hypergeometric odds", () => {
+	it("should compute binomial coefficients", () => {
+		expect(choose(60, 7)).toBe(386206920);
+		expect(choose(4, 5)).toBe(0);
+	});
+
+	it("should give the chance of at least some hits", () => {
+		// A 4-of in a 60-card opening hand
+		expect(atLeastProbability(60, 4, 7, 1)).toBeCloseTo(0.3995, 4);
+		expect(atLeastProbability(60, 4, 7, 0)).toBeCloseTo(1);
+	});
+});
+
+describe("drawOdds", () => {
+	const play = { turn: 1, onDraw: false, handSize: 7 };
+
+	it("should draw one more card per turn, and on turn 1 on the draw", () => {
+		expect(drawOdds(60, 4, 1, play)).toBeCloseTo(0.3995, 4);
+		expect(drawOdds(60, 4, 1, { ...play, onDraw: true })).toBeCloseTo(
+			0.4448,
+			4,
+		);
+		expect(drawOdds(60, 24, 3, { ...play, turn: 3 })).toBeCloseTo(0.7887, 4);
+	});
+
+	it("should see seven cards when mulliganing but keep only the hand size", () => {
+		expect(drawOdds(60, 4, 1, { ...play, handSize: 6 })).toBeCloseTo(0.3995, 4);
+		expect(drawOdds(60, 4, 2, { ...play, handSize: 1 })).toBe(0);
+		expect(drawOdds(60, 24, 3, { ...play, turn: 3, handSize: 2 })).toBeLessThan(
+			drawOdds(60, 24, 3, { ...play, turn: 3 }),
+		);
+	});
+});
+
+describe("card groups", () => {
+	it("should match by name and by query", () => {
+		const library = deck().cards.filter(
+			(entry) => entry.section === "mainboard",
+		);
+		const oneDrops = groupDeckCards(
+			library,
+			compileCardGroup({ query: "mv=1 -t:land", atLeast: 1 }),
+		);
+		expect(oneDrops.size).toBe(8);
+
+		const colorless = groupDeckCards(
+			library,
+			compileCardGroup({ query: "c:c", atLeast: 1 }),
+		);
+		expect(colorless.size).toBe(24);
+
+		const named = groupDeckCards(
+			library,
+			compileCardGroup({
+				cards: ["lightning bolt", "Chain Lightning"],
+				query: "c:w",
+				atLeast: 1,
+			}),
+		);
+		expect(named.size).toBe(32);
+		expect(named.missing).toEqual(["chain lightning"]);
+	});
+
+	it("should reject groups without cards or with a bad query", () => {
+		expect(() => compileCardGroup({ atLeast: 1 })).toThrow(ScryfallAPIError);
+		expect(() => compileCardGroup({ query: "foo:bar", atLeast: 1 })).toThrow(
+			ScryfallAPIError,
+		);
+	});
+});
+
+describe("formatDrawOdds", () => {
+	it("should show each group and the odds turn by turn", () => {
+		const text = formatDrawOdds(
+			deck(),
+			[
+				compileCardGroup({ label: "Lands", query: "t:land", atLeast: 3 }),
+				compileCardGroup({ cards: ["Lightning Bolt"], atLeast: 1 }),
+			],
+			{ turn: 3, onDraw: false, handSize: 7 },
+		);
+
+		expect(text).toContain("# Draw odds (60-card library, on the play)");
+		expect(text).toContain("- **Lands** (at least 3): 24 cards — 24 Mountain");
+		expect(text).toContain(
+			"- **Lightning Bolt** (at least 1): 4 cards — 4 Lightning Bolt",
+		);
+		expect(text).toContain("| Turn | Cards | Lands ≥3 | Lightning Bolt ≥1 |");
+		expect(text).toContain("| 1 | 7 |");
+		expect(text).toContain("| 3 | 9 | 78.9% |");
+	});
+
+	it("should explain the mulligan assumption", () => {
+		const text = formatDrawOdds(
+			deck(),
+			[compileCardGroup({ cards: ["Goblin Guide"], atLeast: 1 })],
+			{ turn: 1, onDraw: true, handSize: 6 },
+		);
+
+		expect(text).toContain("on the draw, mulligan to 6");
+		expect(text).toContain("bottoming 1 of 7");
+		expect(text).toContain("| 1 | 7 |");
+	});
+});
@@ -0,0 +1,256 @@
+/**
+ * Opening-hand and draw probabilities for a decklist
+ * Uses the hypergeometric distribution over the library: the mainboard,
+ * without the commander, companion or sideboard.
+ */
+
+import type { CardPredicate } from "./card-matcher.js";
+import { compileCardQuery } from "./card-matcher.js";
+import type { ResolvedDeckEntry, ResolvedDecklist } from "./decklist.js";
+import { badQuery } from "./local-query.js";
+
+export const OPENING_HAND_SIZE = 7;
+
+// Cards to count, by name and/or by a Scryfall query
+export interface CardGroupSpec {
+	label?: string;
+	cards?: string[];
+	query?: string;
+	atLeast: number;
+}
+
+export interface CardGroup {
+	label: string;
+	atLeast: number;
+	names: string[]; // Lowercase card names
+	matches?: CardPredicate;
+}
+
+export interface DeckCardGroup {
+	group: CardGroup;
+	entries: ResolvedDeckEntry[];
+	size: number; // Copies in the library
+	missing: string[]; // Named cards that are not in the library
+}
+
+export interface DrawOptions {
+	turn: number; // 1 is the first turn
+	onDraw: boolean;
+	handSize: number; // Cards kept after London mulligans
+}
+
+/**
+ * Binomial coefficient; exact enough in floating point for deck sizes
+ */
+export function choose(n: number, k: number): number {
+	if (k < 0 || k > n) {
+		return 0;
+	}
+	let result = 1;
+	for (let i = 1; i <= Math.min(k, n - k); i++) {
+		result = (result * (n - i + 1)) / i;
+	}
+	return result;
+}
+
+/**
+ * Chance of exactly `hits` successes when drawing from a population
+ */
+export function hypergeometric(
+	population: number,
+	successes: number,
+	draws: number,
+	hits: number,
+): number {
+	return (
+		(choose(successes, hits) * choose(population - successes, draws - hits)) /
+		choose(population, draws)
+	);
+}
+
+/**
+ * Chance of at least `atLeast` successes when drawing from a population
+ */
+export function atLeastProbability(
+	population: number,
+	successes: number,
+	draws: number,
+	atLeast: number,
+): number {
+	let probability = 0;
+	for (let hits = Math.max(atLeast, 0); hits <= draws; hits++) {
+		probability += hypergeometric(population, successes, draws, hits);
+	}
+	return Math.min(probability, 1);
+}
+
+/**
+ * Cards drawn after the opening hand by a turn
+ */
+export function drawsByTurn(turn: number, onDraw: boolean): number {
+	return turn - 1 + (onDraw ? 1 : 0);
+}
+
+/**
+ * Chance of at least `atLeast` of a group's cards by a turn
+ * A London mulligan draws seven cards and puts the extras on the bottom,
+ * where they stay out of reach; the group's cards are assumed to be kept
+ * over the others.
+ */
+export function drawOdds(
+	library: number,
+	successes: number,
+	atLeast: number,
+	{ turn, onDraw, handSize }: DrawOptions,
+): number {
+	const seen = Math.min(OPENING_HAND_SIZE, library);
+	const draws = Math.min(drawsByTurn(turn, onDraw), library - seen);
+	let probability = 0;
+
+	for (let inHand = 0; inHand <= seen; inHand++) {
+		const handChance = hypergeometric(library, successes, seen, inHand);
+		if (handChance === 0) continue;
+
+		const kept = Math.min(inHand, handSize);
+		probability +=
+			handChance *
+			atLeastProbability(
+				library - seen,
+				successes - inHand,
+				draws,
+				atLeast - kept,
+			);
+	}
+
+	return Math.min(probability, 1);
+}
+
+/**
+ * Check a group spec and compile its query
+ * @throws ScryfallAPIError (bad_request) when the group names no cards or
+ * its query can't be matched
+ */
+export function compileCardGroup(spec: CardGroupSpec): CardGroup {
+	const names = (spec.cards ?? [])
+		.map((name) => name.trim().toLowerCase())
+		.filter(Boolean);
+	const query = spec.query?.trim();
+
+	if (names.length === 0 && !query) {
+		throw badQuery("Each group needs card names, a query or both");
+	}
+
+	return {
+		label:
+			spec.label ?? [query, ...(spec.cards ?? [])].filter(Boolean).join(", "),
+		atLeast: spec.atLeast,
+		names,
+		matches: query ? compileCardQuery(query) : undefined,
+	};
+}
+
+function entryNames(entry: ResolvedDeckEntry): string[] {
+	return [
+		entry.name,
+		entry.card.name,
+		...(entry.card.card_faces ?? []).map((face) => face.name),
+	].map((name) => name.toLowerCase());
+}
+
+/**
+ * The library of a deck: its mainboard
+ */
+export function deckLibrary(deck: ResolvedDecklist): ResolvedDeckEntry[] {
+	return deck.cards.filter((entry) => entry.section === "mainboard");
+}
+
+/**
+ * Find the library entries that belong to a group
+ */
+export function groupDeckCards(
+	library: ResolvedDeckEntry[],
+	group: CardGroup,
+): DeckCardGroup {
+	const entries = library.filter(
+		(entry) =>
+			entryNames(entry).some((name) => group.names.includes(name)) ||
+			(group.matches?.(entry.card) ?? false),
+	);
+	const found = new Set(entries.flatMap(entryNames));
+
+	return {
+		group,
+		entries,
+		size: entries.reduce((total, entry) => total + entry.quantity, 0),
+		missing: group.names.filter((name) => !found.has(name)),
+	};
+}
+
+function formatPercent(probability: number): string {
+	return `${(probability * 100).toFixed(1)}%`;
+}
+
+/**
+ * Format draw odds for every group as compact markdown
+ * Lists each group's cards, then a table of the odds turn by turn.
+ */
+export function formatDrawOdds(
+	deck: ResolvedDecklist,
+	groups: CardGroup[],
+	options: DrawOptions,
+): string {
+	const library = deckLibrary(deck);
+	const size = library.reduce((total, entry) => total + entry.quantity, 0);
+	const deckGroups = groups.map((group) => groupDeckCards(library, group));
+	const output: string[] = [];
+
+	const mulligan =
+		options.handSize < OPENING_HAND_SIZE
+			? `, mulligan to ${options.handSize}`
+			: "";
+	output.push(
+		`# Draw odds (${size}-card library, on the ${options.onDraw ? "draw" : "play"}${mulligan})`,
+	);
+	if (mulligan) {
+		output.push(
+			`Assumes the group's cards are kept when bottoming ${OPENING_HAND_SIZE - options.handSize} of ${OPENING_HAND_SIZE}.`,
+		);
+	}
+	output.push("");
+
+	for (const { group, entries, size: copies, missing } of deckGroups) {
+		const cards = entries
+			.map((entry) => `${entry.quantity} ${entry.card.name}`)
+			.join(", ");
+		output.push(
+			`- **${group.label}** (at least ${group.atLeast}): ${copies} ${copies === 1 ? "card" : "cards"}${cards ? ` — ${cards}` : ""}`,
+		);
+		if (missing.length > 0) {
+			output.push(`  - ⚠️ Not in the library: ${missing.join(", ")}`);
+		}
+	}
+	output.push("");
+
+	output.push(
+		`| Turn | Cards | ${deckGroups.map(({ group }) => `${group.label} ≥${group.atLeast}`).join(" | ")} |`,
+	);
+	output.push(`| --- | --- |${deckGroups.map(() => " --- |").join("")}`);
+	for (let turn = 1; turn <= options.turn; turn++) {
+		const seen = options.handSize + drawsByTurn(turn, options.onDraw);
+		const odds = deckGroups.map(({ group, size: copies }) =>
+			formatPercent(
+				drawOdds(size, copies, group.atLeast, { ...options, turn }),
+			),
+		);
+		output.push(`| ${turn} | ${seen} | ${odds.join(" | ")} |`);
+	}
+
+	if (deck.unresolved.length > 0) {
+		output.push("");
+		output.push(
+			`**Not found, so not counted (${deck.unresolved.length}):** ${deck.unresolved.map((entry) => `${entry.quantity} ${entry.name}`).join(", ")}`,
+		);
+	}
+
+	return output.join("\n");
+}
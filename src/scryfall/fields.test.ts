@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import {
+	ALL_VALID_FIELDS,
+	FIELD_REGISTRY,
+	formatFieldReference,
+	formatFieldWarnings,
+	selectFields,
+	validateFields,
+} from "./fields.js";
+import { FIELD_GROUP_MAPPINGS } from "./types.js";
+
+describe("validateFields", () => {
+	it("should validate all valid fields successfully", () => {
+		const result = validateFields(["name", "mana_cost", "type_line"]);
+		expect(result.valid).toEqual(["name", "mana_cost", "type_line"]);
+		expect(result.warnings).toEqual([]);
+	});
+
+	it("should return warnings for invalid fields", () => {
+		const result = validateFields(["name", "invalid_field"]);
+		expect(result.valid).toEqual(["name"]);
+		expect(result.warnings).toHaveLength(1);
+		expect(result.warnings[0]).toContain("invalid_field");
+		expect(result.warnings[0]).toContain("scryfall://fields/reference");
+	});
+
+	it("should handle mixed valid and invalid fields", () => {
+		const result = validateFields([
+			"name",
+			"mana_cost",
+			"bad_field",
+			"oracle_text",
+			"another_bad_field",
+		]);
+		expect(result.valid).toEqual(["name", "mana_cost", "oracle_text"]);
+		expect(result.warnings).toHaveLength(2);
+		expect(result.warnings[0]).toContain("bad_field");
+		expect(result.warnings[1]).toContain("another_bad_field");
+	});
+
+	it("should handle empty array", () => {
+		const result = validateFields([]);
+		expect(result.valid).toEqual([]);
+		expect(result.warnings).toEqual([]);
+	});
+
+	it("should validate all fields from ALL_VALID_FIELDS", () => {
+		const result = validateFields([...ALL_VALID_FIELDS]);
+		expect(result.valid).toHaveLength(ALL_VALID_FIELDS.length);
+		expect(result.warnings).toEqual([]);
+	});
+
+	it("should validate nested field notation", () => {
+		const result = validateFields([
+			"prices",
+			"prices.usd",
+			"legalities.modern",
+			"card_faces.oracle_text",
+			"purchase_uris.tcgplayer",
+		]);
+		expect(result.valid).toHaveLength(5);
+		expect(result.warnings).toEqual([]);
+
+		expect(validateFields(["legalities.modrn"]).warnings[0]).toContain(
+			"Did you mean 'legalities.modern'?",
+		);
+	});
+
+	it("should suggest the field that was probably meant", () => {
+		const result = validateFields(["pricez"]);
+		expect(result.valid).toEqual([]);
+		expect(result.warnings[0]).toContain("Did you mean 'prices'?");
+	});
+
+	it("should expand wildcards within one path segment", () => {
+		expect(validateFields(["prices.*"]).valid).toEqual([
+			"prices.usd",
+			"prices.usd_foil",
+			"prices.usd_etched",
+			"prices.eur",
+			"prices.eur_foil",
+			"prices.tix",
+		]);
+		expect(validateFields(["prices.usd*"]).valid).toHaveLength(3);
+		expect(validateFields(["*"]).valid).not.toContain("prices.usd");
+		expect(validateFields(["*"]).valid).toContain("set");
+
+		const result = validateFields(["prices.gbp*"]);
+		expect(result.valid).toEqual([]);
+		expect(result.warnings[0]).toContain("matches no fields");
+	});
+
+	it("should drop duplicates", () => {
+		expect(
+			validateFields(["name", "name", "prices.*", "prices.usd"]).valid,
+		).toHaveLength(7);
+	});
+});
+
+describe("selectFields", () => {
+	it("should pass groups through and validate field arrays", () => {
+		expect(selectFields("gameplay")).toEqual({
+			fields: "gameplay",
+			warnings: [],
+		});
+		const { fields, warnings } = selectFields(["name", "pricez"]);
+		expect(fields).toEqual(["name"]);
+		expect(formatFieldWarnings(warnings)).toContain("**Field warnings:**");
+		expect(formatFieldWarnings([])).toBe("");
+	});
+});
+
+describe("ALL_VALID_FIELDS", () => {
+	it("should cover every field group", () => {
+		for (const fields of Object.values(FIELD_GROUP_MAPPINGS)) {
+			for (const field of fields) {
+				expect(ALL_VALID_FIELDS).toContain(field);
+			}
+		}
+	});
+
+	it("should contain fields outside the 'full' group", () => {
+		expect(ALL_VALID_FIELDS).toContain("set");
+		expect(ALL_VALID_FIELDS).toContain("artist_ids");
+		expect(ALL_VALID_FIELDS).toContain("purchase_uris");
+		expect(ALL_VALID_FIELDS).toContain("legalities.commander");
+		expect(ALL_VALID_FIELDS).toContain("card_faces.mana_cost");
+	});
+
+	it("should describe every field", () => {
+		for (const field of FIELD_REGISTRY) {
+			expect(field.description).not.toBe("");
+		}
+	});
+});
+
+describe("formatFieldReference", () => {
+	it("should list the groups, every field and the wildcards", () => {
+		const text = formatFieldReference();
+		expect(text).toContain("# Available Card Fields");
+		expect(text).toContain("### gameplay");
+		expect(text).toContain("| `artist_ids` | list |");
+		expect(text).toContain("### prices.*");
+		expect(text).toContain(
+			"| `prices.usd` | string | TCGplayer price in USD |",
+		);
+		expect(text).toContain("`legalities.<format>` for each format");
+		expect(text).toContain("## Wildcards");
+	});
+});
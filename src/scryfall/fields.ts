@@ -0,0 +1,414 @@
+/**
+ * Registry of the card fields that can be selected for output
+ * Built from the ScryfallCard type, so every field the client knows about can
+ * be requested, including nested paths like "prices.usd", "legalities.modern"
+ * and "card_faces.oracle_text", and wildcards like "prices.*".
+ */
+
+import { closest, FORMATS } from "./query-parser.js";
+import type {
+	CardField,
+	CardFieldGroup,
+	ScryfallCard,
+	ScryfallCardFace,
+	ScryfallImageUris,
+} from "./types.js";
+import { FIELD_GROUP_MAPPINGS } from "./types.js";
+
+export type FieldKind = "string" | "number" | "boolean" | "list" | "object";
+
+export interface FieldInfo {
+	kind: FieldKind;
+	description: string;
+}
+
+export interface FieldDefinition extends FieldInfo {
+	path: CardField;
+}
+
+// Every top-level card field; keyed by ScryfallCard so none can be missed
+const CARD_FIELDS: Record<keyof ScryfallCard, FieldInfo> = {
+	object: { kind: "string", description: 'Always "card"' },
+	id: { kind: "string", description: "Scryfall ID of this printing" },
+	oracle_id: {
+		kind: "string",
+		description: "ID shared by every printing of the card",
+	},
+	name: { kind: "string", description: "Card name" },
+	lang: { kind: "string", description: "Language code, e.g. en" },
+	released_at: { kind: "string", description: "Release date (YYYY-MM-DD)" },
+	uri: { kind: "string", description: "API URL of this printing" },
+	scryfall_uri: {
+		kind: "string",
+		description: "Scryfall web page of this printing",
+	},
+	layout: {
+		kind: "string",
+		description: "Card layout, e.g. normal, transform, split, adventure",
+	},
+	highres_image: {
+		kind: "boolean",
+		description: "Whether the image is a high-resolution scan",
+	},
+	image_status: {
+		kind: "string",
+		description: "missing, placeholder, lowres or highres_scan",
+	},
+	card_faces: {
+		kind: "list",
+		description: "Faces of multi-faced cards, each with its own fields",
+	},
+	image_uris: {
+		kind: "object",
+		description: "Image URLs by size (single-faced cards)",
+	},
+	mana_cost: { kind: "string", description: "Mana cost, e.g. {1}{U}" },
+	cmc: { kind: "number", description: "Mana value" },
+	type_line: { kind: "string", description: "Full type line" },
+	oracle_text: { kind: "string", description: "Rules text" },
+	colors: { kind: "list", description: "Colors, as W, U, B, R, G letters" },
+	color_identity: {
+		kind: "list",
+		description: "Color identity, as used by Commander",
+	},
+	produced_mana: {
+		kind: "list",
+		description: "Colors of mana the card can produce",
+	},
+	power: { kind: "string", description: "Power (may be * or X)" },
+	toughness: { kind: "string", description: "Toughness (may be * or X)" },
+	loyalty: { kind: "string", description: "Starting loyalty" },
+	legalities: {
+		kind: "object",
+		description:
+			"Legality in each format: legal, not_legal, restricted or banned",
+	},
+	reserved: { kind: "boolean", description: "On the Reserved List" },
+	foil: { kind: "boolean", description: "Available in foil" },
+	nonfoil: { kind: "boolean", description: "Available in nonfoil" },
+	set: { kind: "string", description: "Set code, e.g. mh3" },
+	set_name: { kind: "string", description: "Set name" },
+	set_type: {
+		kind: "string",
+		description: "Set type, e.g. expansion, core, masters",
+	},
+	set_uri: { kind: "string", description: "API URL of the set" },
+	set_search_uri: {
+		kind: "string",
+		description: "API URL searching the set's cards",
+	},
+	scryfall_set_uri: { kind: "string", description: "Scryfall set page" },
+	rulings_uri: { kind: "string", description: "API URL of the rulings" },
+	prints_search_uri: {
+		kind: "string",
+		description: "API URL listing every printing",
+	},
+	collector_number: { kind: "string", description: "Collector number" },
+	digital: { kind: "boolean", description: "Only released digitally" },
+	rarity: {
+		kind: "string",
+		description: "common, uncommon, rare, mythic, special or bonus",
+	},
+	finishes: {
+		kind: "list",
+		description: "Finishes: nonfoil, foil, etched or glossy",
+	},
+	promo: { kind: "boolean", description: "A promotional printing" },
+	promo_types: {
+		kind: "list",
+		description: "Promo kinds, e.g. prerelease, serialized",
+	},
+	flavor_text: { kind: "string", description: "Flavor text" },
+	artist: { kind: "string", description: "Artist name" },
+	artist_ids: { kind: "list", description: "Scryfall IDs of the artists" },
+	illustration_id: {
+		kind: "string",
+		description: "ID shared by printings with the same art",
+	},
+	border_color: {
+		kind: "string",
+		description: "black, white, borderless, silver or gold",
+	},
+	frame: { kind: "string", description: "Frame edition, e.g. 1993, 2015" },
+	frame_effects: {
+		kind: "list",
+		description: "Frame effects, e.g. showcase, extendedart",
+	},
+	full_art: { kind: "boolean", description: "Full-art printing" },
+	prices: { kind: "object", description: "Prices by currency and finish" },
+	related_uris: {
+		kind: "object",
+		description: "Links to Gatherer, EDHREC and articles",
+	},
+	purchase_uris: { kind: "object", description: "Links to buy the card" },
+};
+
+const FACE_FIELDS: Record<keyof ScryfallCardFace, FieldInfo> = {
+	object: { kind: "string", description: 'Always "card_face"' },
+	name: { kind: "string", description: "Name of each face" },
+	mana_cost: { kind: "string", description: "Mana cost of each face" },
+	type_line: { kind: "string", description: "Type line of each face" },
+	oracle_text: { kind: "string", description: "Rules text of each face" },
+	colors: { kind: "list", description: "Colors of each face" },
+	power: { kind: "string", description: "Power of each face" },
+	toughness: { kind: "string", description: "Toughness of each face" },
+	loyalty: { kind: "string", description: "Loyalty of each face" },
+	flavor_text: { kind: "string", description: "Flavor text of each face" },
+	artist: { kind: "string", description: "Artist of each face" },
+	artist_id: { kind: "string", description: "Artist ID of each face" },
+	illustration_id: {
+		kind: "string",
+		description: "Illustration ID of each face",
+	},
+	image_uris: { kind: "object", description: "Image URLs of each face" },
+};
+
+const PRICE_FIELDS: Record<keyof ScryfallCard["prices"], FieldInfo> = {
+	usd: { kind: "string", description: "TCGplayer price in USD" },
+	usd_foil: { kind: "string", description: "Foil price in USD" },
+	usd_etched: { kind: "string", description: "Etched foil price in USD" },
+	eur: { kind: "string", description: "Cardmarket price in EUR" },
+	eur_foil: { kind: "string", description: "Foil price in EUR" },
+	tix: { kind: "string", description: "Cardhoarder price in MTGO tickets" },
+};
+
+const IMAGE_URI_FIELDS: Record<keyof ScryfallImageUris, FieldInfo> = {
+	small: { kind: "string", description: "146×204 JPG" },
+	normal: { kind: "string", description: "488×680 JPG" },
+	large: { kind: "string", description: "672×936 JPG" },
+	png: { kind: "string", description: "745×1040 PNG with transparent corners" },
+	art_crop: { kind: "string", description: "Just the art" },
+	border_crop: { kind: "string", description: "480×680 JPG without borders" },
+};
+
+const RELATED_URI_FIELDS: Record<
+	keyof ScryfallCard["related_uris"],
+	FieldInfo
+> = {
+	gatherer: { kind: "string", description: "Gatherer page" },
+	tcgplayer_infinite_articles: {
+		kind: "string",
+		description: "TCGplayer Infinite articles",
+	},
+	tcgplayer_infinite_decks: {
+		kind: "string",
+		description: "TCGplayer Infinite decks",
+	},
+	edhrec: { kind: "string", description: "EDHREC page" },
+};
+
+const PURCHASE_URI_FIELDS: Record<
+	keyof NonNullable<ScryfallCard["purchase_uris"]>,
+	FieldInfo
+> = {
+	tcgplayer: { kind: "string", description: "TCGplayer listing" },
+	cardmarket: { kind: "string", description: "Cardmarket listing" },
+	cardhoarder: { kind: "string", description: "Cardhoarder listing" },
+};
+
+const LEGALITY_FIELDS: Record<string, FieldInfo> = Object.fromEntries(
+	FORMATS.map((format) => [
+		format,
+		{ kind: "string", description: `Legality in ${format}` },
+	]),
+);
+
+// Object and list fields whose keys can be selected with dot notation
+const NESTED_FIELDS: Partial<
+	Record<keyof ScryfallCard, Record<string, FieldInfo>>
+> = {
+	card_faces: FACE_FIELDS,
+	image_uris: IMAGE_URI_FIELDS,
+	legalities: LEGALITY_FIELDS,
+	prices: PRICE_FIELDS,
+	related_uris: RELATED_URI_FIELDS,
+	purchase_uris: PURCHASE_URI_FIELDS,
+};
+
+// Every selectable field, top-level fields each followed by their nested ones
+export const FIELD_REGISTRY: FieldDefinition[] = Object.entries(
+	CARD_FIELDS,
+).flatMap(([name, info]) => [
+	{ path: name as CardField, ...info },
+	...Object.entries(NESTED_FIELDS[name as keyof ScryfallCard] ?? {}).map(
+		([key, nested]) => ({ path: `${name}.${key}` as CardField, ...nested }),
+	),
+]);
+
+// All valid field paths
+export const ALL_VALID_FIELDS: CardField[] = FIELD_REGISTRY.map(
+	(field) => field.path,
+);
+
+const VALID_FIELD_SET = new Set<string>(ALL_VALID_FIELDS);
+
+/**
+ * Fields matching a wildcard pattern
+ * "*" matches within one part of a path: "prices.*" selects every price and
+ * "*_uri" every top-level URI, but "*" alone does not select nested fields.
+ */
+function matchWildcard(pattern: string): CardField[] {
+	const regex = new RegExp(
+		`^${pattern
+			.split("*")
+			.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+			.join("[^.]*")}$`,
+	);
+	return ALL_VALID_FIELDS.filter((field) => regex.test(field));
+}
+
+function unknownFieldWarning(field: string): string {
+	const suggestion = closest(field, ALL_VALID_FIELDS);
+	return `Field '${field}' is not a recognized field.${suggestion ? ` Did you mean '${suggestion}'?` : ""} See scryfall://fields/reference for available fields.`;
+}
+
+/**
+ * Validate field names against the registry, expanding wildcards
+ * @param fields - Array of field names or wildcard patterns to validate
+ * @returns Object containing valid fields (without duplicates) and warnings
+ * for invalid ones
+ */
+export function validateFields(fields: string[]): {
+	valid: CardField[];
+	warnings: string[];
+} {
+	const valid = new Set<CardField>();
+	const warnings: string[] = [];
+
+	for (const raw of fields) {
+		const field = raw.trim();
+		if (field.includes("*")) {
+			const matches = matchWildcard(field);
+			if (matches.length === 0) {
+				warnings.push(
+					`Field pattern '${field}' matches no fields. See scryfall://fields/reference for available fields.`,
+				);
+			}
+			for (const match of matches) valid.add(match);
+		} else if (VALID_FIELD_SET.has(field)) {
+			valid.add(field as CardField);
+		} else {
+			warnings.push(unknownFieldWarning(field));
+		}
+	}
+
+	return { valid: [...valid], warnings };
+}
+
+/**
+ * Check a tool's field selection
+ * Groups pass through; field arrays are validated, so unknown fields can be
+ * reported instead of silently dropped.
+ */
+export function selectFields(fields: string[] | CardFieldGroup): {
+	fields: CardField[] | CardFieldGroup;
+	warnings: string[];
+} {
+	if (typeof fields === "string") {
+		return { fields, warnings: [] };
+	}
+	const { valid, warnings } = validateFields(fields);
+	return { fields: valid, warnings };
+}
+
+/**
+ * Format field warnings to append to tool output, or "" when there are none
+ */
+export function formatFieldWarnings(warnings: string[]): string {
+	if (warnings.length === 0) {
+		return "";
+	}
+	return `\n\n**Field warnings:**\n${warnings.map((warning) => `- ${warning}`).join("\n")}`;
+}
+
+function fieldRow(field: FieldDefinition): string {
+	return `| \`${field.path}\` | ${field.kind} | ${field.description} |`;
+}
+
+/**
+ * Markdown reference of every field, served as scryfall://fields/reference
+ */
+export function formatFieldReference(): string {
+	const output: string[] = [];
+
+	output.push("# Available Card Fields");
+	output.push("");
+	output.push(
+		"This reference lists all available fields you can use when requesting card data with custom field arrays. Unknown fields are reported as warnings in the tool response.",
+	);
+	output.push("");
+
+	output.push("## Field Groups");
+	output.push("");
+	output.push("You can use predefined field groups for convenience:");
+	for (const [group, fields] of Object.entries(FIELD_GROUP_MAPPINGS)) {
+		output.push("");
+		output.push(`### ${group}`);
+		output.push(fields.map((field) => `- ${field}`).join("\n"));
+	}
+	output.push("");
+
+	output.push("## Fields");
+	output.push("");
+	output.push("| Field | Type | Description |");
+	output.push("| --- | --- | --- |");
+	for (const field of FIELD_REGISTRY) {
+		if (!field.path.includes(".")) output.push(fieldRow(field));
+	}
+
+	for (const [name, nested] of Object.entries(NESTED_FIELDS)) {
+		output.push("");
+		output.push(`### ${name}.*`);
+		output.push("");
+		if (nested === LEGALITY_FIELDS) {
+			output.push(
+				`\`legalities.<format>\` for each format: ${FORMATS.map((format) => `\`${format}\``).join(", ")}.`,
+			);
+			continue;
+		}
+		if (name === "card_faces") {
+			output.push(
+				"Read from every face of multi-faced cards, one value per face.",
+			);
+			output.push("");
+		}
+		output.push("| Field | Type | Description |");
+		output.push("| --- | --- | --- |");
+		for (const field of FIELD_REGISTRY) {
+			if (field.path.startsWith(`${name}.`)) output.push(fieldRow(field));
+		}
+	}
+	output.push("");
+
+	output.push("## Wildcards");
+	output.push("");
+	output.push(
+		'`*` matches any part of one path segment: `"prices.*"` selects every price, `"legalities.*"` every format and `"*_uri"` every top-level URI. `"*"` alone selects every top-level field.',
+	);
+	output.push("");
+
+	output.push("## Usage Examples");
+	output.push("");
+	output.push("### Using a predefined group:");
+	output.push("```");
+	output.push('{ "fields": "minimal" }');
+	output.push("```");
+	output.push("");
+	output.push("### Using a custom field array:");
+	output.push("```");
+	output.push('{ "fields": ["name", "mana_cost", "prices"] }');
+	output.push("```");
+	output.push("");
+	output.push("### Using nested fields and wildcards:");
+	output.push("```");
+	output.push(
+		'{ "fields": ["name", "prices.usd", "legalities.modern", "card_faces.oracle_text", "purchase_uris.*"] }',
+	);
+	output.push("```");
+	output.push("");
+	output.push(
+		'Note: Fields of type "object" (like "prices", "legalities", "image_uris") contain nested data. You can request the entire object or use dot notation for specific nested fields.',
+	);
+
+	return output.join("\n");
+}
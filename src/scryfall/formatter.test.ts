@@ -1,6 +1,17 @@
 import { describe, expect, it } from "vitest";
-import { formatCard, formatCards } from "./formatter.js";
-import type { ScryfallCard } from "./types.js";
+import {
+	cardTable,
+	differingFields,
+	formatCard,
+	formatCardComparison,
+	formatCardCsv,
+	formatCards,
+	formatNotFound,
+	formatRulings,
+	projectCard,
+	projectCards,
+} from "./formatter.js";
+import type { ScryfallCard, ScryfallRuling } from "./types.js";
 
 // Mock card data for testing
 const mockSingleFacedCard: ScryfallCard = {
@@ -41,11 +52,14 @@ const mockSingleFacedCard: ScryfallCard = {
 	collector_number: "161",
 	digital: false,
 	rarity: "common",
+	finishes: ["nonfoil"],
+	promo: false,
 	artist: "Christopher Rush",
 	artist_ids: ["artist-id-1"],
 	illustration_id: "illustration-id-1",
 	border_color: "black",
 	frame: "1993",
+	full_art: false,
 	prices: {
 		usd: "125.00",
 		usd_foil: null,
@@ -104,8 +118,11 @@ const mockDoubleFacedCard: ScryfallCard = {
 	collector_number: "51",
 	digital: false,
 	rarity: "common",
+	finishes: ["nonfoil", "foil"],
+	promo: false,
 	border_color: "black",
 	frame: "2003",
+	full_art: false,
 	prices: {
 		usd: "1.25",
 		usd_foil: "5.00",
@@ -207,11 +224,14 @@ const mockCreature: ScryfallCard = {
 	collector_number: "153",
 	digital: false,
 	rarity: "rare",
+	finishes: ["nonfoil", "foil"],
+	promo: false,
 	artist: "Ryan Barger",
 	artist_ids: ["artist-id-3"],
 	illustration_id: "illustration-id-3",
 	border_color: "black",
 	frame: "future",
+	full_art: false,
 	prices: {
 		usd: "15.00",
 		usd_foil: "45.00",
@@ -387,6 +407,18 @@ describe("formatCard", () => {
 			expect(result).toContain("Card Properties:");
 			expect(result).toContain("set: isd");
 		});
+
+		it("reads card_faces paths from every face", () => {
+			const result = formatCard(mockDoubleFacedCard, [
+				"name",
+				"card_faces.artist_id",
+				"legalities.modern",
+			]);
+			expect(result).toContain(
+				"card_faces.artist_id: artist-id-2, artist-id-2",
+			);
+			expect(result).toContain("legalities.modern: legal");
+		});
 	});
 
 	describe("without field selection", () => {
@@ -439,8 +471,235 @@ describe("formatCards", () => {
 		expect(result).not.toContain("more cards");
 	});
 
+	it("reports the real total when more cards exist than were fetched", () => {
+		const result = formatCards(mockCards, "minimal", 10, 250);
+		expect(result).toContain("Showing 3 of 250 cards");
+		expect(result).toContain("... and 247 more cards");
+	});
+
 	it("returns empty string when no fields specified", () => {
 		const result = formatCards(mockCards);
 		expect(result).toBe("");
 	});
 });
+
+describe("cardTable", () => {
+	it("flattens object fields into one column per key", () => {
+		const { columns, rows } = cardTable(
+			[mockSingleFacedCard],
+			["name", "prices", "colors"],
+		);
+		expect(columns).toEqual([
+			"name",
+			"prices.usd",
+			"prices.usd_foil",
+			"prices.usd_etched",
+			"prices.eur",
+			"prices.eur_foil",
+			"prices.tix",
+			"colors",
+		]);
+		expect(rows[0]).toEqual([
+			"Lightning Bolt",
+			"125.00",
+			"",
+			"",
+			"100.00",
+			"",
+			"",
+			"R",
+		]);
+	});
+
+	it("joins face values of multi-faced cards and skips card_faces", () => {
+		const { columns, rows } = cardTable(
+			[mockDoubleFacedCard],
+			["name", "card_faces", "type_line", "prices.usd"],
+		);
+		expect(columns).toEqual(["name", "type_line", "prices.usd"]);
+		expect(rows[0]).toEqual([
+			"Delver of Secrets // Insectile Aberration",
+			"Creature — Human Wizard // Creature — Human Insect",
+			"1.25",
+		]);
+	});
+});
+
+describe("formatCards output formats", () => {
+	const mockCards = [mockSingleFacedCard, mockCreature];
+
+	it("renders a markdown table", () => {
+		const result = formatCards(
+			mockCards,
+			["name", "mana_cost", "oracle_text"],
+			10,
+			2,
+			"table",
+		);
+		expect(result).toContain("| name | mana_cost | oracle_text |");
+		expect(result).toContain("| --- | --- | --- |");
+		expect(result).toContain(
+			"| Lightning Bolt | {R} | Lightning Bolt deals 3 damage to any target. |",
+		);
+		expect(result).not.toContain("---\n");
+	});
+
+	it("escapes pipes and line breaks in table cells", () => {
+		const card = {
+			...mockCreature,
+			oracle_text: "First line\nSecond | line",
+		};
+		const result = formatCards([card], ["name", "oracle_text"], 10, 1, "table");
+		expect(result).toContain("First line<br>Second \\| line");
+	});
+
+	it("renders CSV in a code block with quoted cells", () => {
+		const result = formatCards(
+			mockCards,
+			["name", "colors", "prices.usd"],
+			10,
+			2,
+			"csv",
+		);
+		expect(result).toContain(
+			"```csv\nname,colors,prices.usd\nLightning Bolt,R,125.00",
+		);
+		expect(
+			formatCardCsv([{ ...mockCreature, name: 'Say "hi", now' }], ["name"]),
+		).toBe('name\n"Say ""hi"", now"');
+	});
+});
+
+describe("formatCardComparison", () => {
+	const mockCards = [mockSingleFacedCard, mockCreature];
+
+	it("puts the cards side by side with one row per field", () => {
+		const result = formatCardComparison(mockCards, [
+			"name",
+			"cmc",
+			"legalities",
+		]);
+		expect(result).toContain("| Field | Lightning Bolt | Tarmogoyf |");
+		expect(result).toContain("| --- | --- | --- |");
+		expect(result).toContain("| ≠ cmc | **1** | **2** |");
+		expect(result).toContain("| legalities.modern | legal | legal |");
+		expect(result).not.toContain("| name |");
+		expect(result).toContain("1 of 5 fields differ.");
+	});
+
+	it("can leave out the fields that match", () => {
+		const result = formatCardComparison(
+			mockCards,
+			["mana_cost", "legalities"],
+			true,
+		);
+		expect(result).toContain("| ≠ mana_cost | **{R}** | **{1}{G}** |");
+		expect(result).not.toContain("legalities.modern");
+		expect(result).toContain("1 of 5 fields differ.");
+	});
+
+	it("names the fields that differ", () => {
+		expect(
+			differingFields(mockCards, ["name", "cmc", "mana_cost", "legalities"]),
+		).toEqual(["cmc", "mana_cost"]);
+	});
+});
+
+describe("projectCard", () => {
+	it("projects the same fields the text output shows", () => {
+		const fields = ["name", "mana_cost", "prices.usd", "flavor_text"] as const;
+		const projected = projectCard(mockSingleFacedCard, [...fields]);
+		const text = formatCard(mockSingleFacedCard, [...fields]);
+
+		expect(projected).toEqual({
+			name: "Lightning Bolt",
+			mana_cost: "{R}",
+			"prices.usd": "125.00",
+		});
+		expect(text).toContain("prices.usd: 125.00");
+		expect(text).not.toContain("flavor_text");
+	});
+
+	it("lists face fields under faces for multi-faced cards", () => {
+		const projected = projectCard(mockDoubleFacedCard, [
+			"name",
+			"mana_cost",
+			"power",
+			"rarity",
+		]);
+
+		expect(projected).toEqual({
+			name: "Delver of Secrets // Insectile Aberration",
+			faces: [
+				{ name: "Delver of Secrets", mana_cost: "{U}", power: "1" },
+				{ name: "Insectile Aberration", power: "3" },
+			],
+			rarity: "common",
+		});
+	});
+
+	it("expands predefined groups", () => {
+		expect(Object.keys(projectCard(mockCreature, "pricing"))).toEqual([
+			"name",
+			"prices",
+		]);
+	});
+});
+
+describe("projectCards", () => {
+	it("projects only the cards formatCards shows", () => {
+		const manyCards = Array(15).fill(mockSingleFacedCard);
+		expect(projectCards(manyCards, "minimal")).toHaveLength(10);
+		expect(projectCards(manyCards, "minimal", 12)).toHaveLength(12);
+	});
+});
+
+describe("formatRulings", () => {
+	const rulings: ScryfallRuling[] = [
+		{
+			object: "ruling",
+			oracle_id: "oracle-id-3",
+			source: "wotc",
+			published_at: "2021-03-19",
+			comment: "Later ruling.",
+		},
+		{
+			object: "ruling",
+			oracle_id: "oracle-id-3",
+			source: "scryfall",
+			published_at: "2007-05-01",
+			comment: "Earlier ruling.",
+		},
+	];
+
+	it("lists rulings oldest first with their source", () => {
+		const result = formatRulings(mockCreature, rulings);
+		expect(result).toBe(
+			"**Tarmogoyf**\n\n- 2007-05-01 (Scryfall): Earlier ruling.\n- 2021-03-19 (WotC): Later ruling.",
+		);
+	});
+
+	it("notes when a card has no rulings", () => {
+		const result = formatRulings(mockSingleFacedCard, []);
+		expect(result).toContain("**Lightning Bolt**");
+		expect(result).toContain("No rulings.");
+	});
+});
+
+describe("formatNotFound", () => {
+	it("lists names with optional set codes and other identifiers as JSON", () => {
+		const result = formatNotFound([
+			{ name: "Fake Card" },
+			{ name: "Opt", set: "xyz" },
+			{ id: "missing-id" },
+		]);
+		expect(result).toBe(
+			'**Not found (3):**\n- "Fake Card"\n- "Opt" (xyz)\n- {"id":"missing-id"}',
+		);
+	});
+
+	it("returns an empty string when nothing is missing", () => {
+		expect(formatNotFound([])).toBe("");
+		expect(formatNotFound()).toBe("");
+	});
+});
@@ -5,27 +5,43 @@
 import type {
 	CardField,
 	CardFieldGroup,
+	CardIdentifier,
+	CardOutputFormat,
 	ScryfallCard,
 	ScryfallCardFace,
+	ScryfallRuling,
 } from "./types.js";
 import { FIELD_GROUP_MAPPINGS } from "./types.js";
 
+/**
+ * Follow a field path into a value
+ * Lists are read element by element, so "card_faces.oracle_text" gives the
+ * oracle text of every face.
+ */
+function valueAtPath(value: unknown, parts: string[]): unknown {
+	if (parts.length === 0) {
+		return value;
+	}
+	if (Array.isArray(value)) {
+		const values = value
+			.map((item) => valueAtPath(item, parts))
+			.filter((item) => item !== undefined && item !== null);
+		return values.length > 0 ? values : undefined;
+	}
+	const [part, ...rest] = parts;
+	if (value && typeof value === "object" && part in value) {
+		return valueAtPath((value as Record<string, unknown>)[part], rest);
+	}
+	return undefined;
+}
+
 /**
  * Get the value from a card object given a field path (supports nested like "prices.usd")
  */
 function getFieldValue(card: ScryfallCard, field: CardField): unknown {
 	// Handle nested field paths
 	if (field.includes(".")) {
-		const parts = field.split(".");
-		let value: unknown = card;
-		for (const part of parts) {
-			if (value && typeof value === "object" && part in value) {
-				value = (value as Record<string, unknown>)[part];
-			} else {
-				return undefined;
-			}
-		}
-		return value;
+		return valueAtPath(card, field.split("."));
 	}
 
 	// Handle direct field access
@@ -73,11 +89,26 @@ function resolveFields(
 	return fields;
 }
 
+// Fields shown per face for multi-faced cards rather than for the whole card
+const FACE_FIELDS: CardField[] = [
+	"name",
+	"mana_cost",
+	"type_line",
+	"oracle_text",
+	"power",
+	"toughness",
+	"loyalty",
+	"colors",
+];
+
 /**
- * Format a card face (for multi-faced cards) with selected fields
+ * Selected fields that a card face has a value for
  */
-function formatCardFace(face: ScryfallCardFace, fields: CardField[]): string {
-	const faceData: string[] = [];
+function faceFieldValues(
+	face: ScryfallCardFace,
+	fields: CardField[],
+): [CardField, unknown][] {
+	const values: [CardField, unknown][] = [];
 
 	for (const field of fields) {
 		// Map card fields to card face fields where applicable
@@ -85,12 +116,59 @@ function formatCardFace(face: ScryfallCardFace, fields: CardField[]): string {
 		if (faceField in face) {
 			const value = face[faceField];
 			if (value !== undefined && value !== null && value !== "") {
-				faceData.push(`  ${field}: ${formatFieldValue(field, value)}`);
+				values.push([field, value]);
 			}
 		}
 	}
 
-	return faceData.join("\n");
+	return values;
+}
+
+/**
+ * Format a card face (for multi-faced cards) with selected fields
+ */
+function formatCardFace(face: ScryfallCardFace, fields: CardField[]): string {
+	return faceFieldValues(face, fields)
+		.map(([field, value]) => `  ${field}: ${formatFieldValue(field, value)}`)
+		.join("\n");
+}
+
+// A card reduced to its selected fields, for structured tool output
+export type ProjectedCard = Record<string, unknown>;
+
+/**
+ * Project a card onto the selected fields
+ * Mirrors formatCard: nested fields keep their dotted name (e.g.
+ * "prices.usd"), and multi-faced cards list face-level fields under "faces".
+ * Fields without a value are left out.
+ */
+export function projectCard(
+	card: ScryfallCard,
+	fields: CardField[] | CardFieldGroup,
+): ProjectedCard {
+	const resolvedFields = resolveFields(fields) ?? [];
+	const projected: ProjectedCard = { name: card.name };
+	const multiFaced =
+		card.card_faces !== undefined && card.card_faces.length > 0;
+
+	if (multiFaced) {
+		projected.faces = card.card_faces?.map((face) => ({
+			name: face.name,
+			...Object.fromEntries(faceFieldValues(face, resolvedFields)),
+		}));
+	}
+
+	for (const field of resolvedFields) {
+		if (field === "name" || (multiFaced && FACE_FIELDS.includes(field))) {
+			continue;
+		}
+		const value = getFieldValue(card, field);
+		if (value !== undefined && value !== null) {
+			projected[field] = value;
+		}
+	}
+
+	return projected;
 }
 
 /**
@@ -125,17 +203,7 @@ export function formatCard(
 
 		// Also include card-level fields that aren't on faces
 		const cardLevelFields = resolvedFields.filter(
-			(field) =>
-				![
-					"name",
-					"mana_cost",
-					"type_line",
-					"oracle_text",
-					"power",
-					"toughness",
-					"loyalty",
-					"colors",
-				].includes(field as string),
+			(field) => !FACE_FIELDS.includes(field),
 		);
 
 		if (cardLevelFields.length > 0) {
@@ -166,17 +234,200 @@ export function formatCard(
 	return output.join("\n");
 }
 
+/**
+ * Value of a field for one cell of a table row
+ * Face-level fields of multi-faced cards join the faces' values with " // ".
+ */
+function cellValue(card: ScryfallCard, field: CardField): unknown {
+	if (
+		card.card_faces &&
+		card.card_faces.length > 0 &&
+		field !== "name" &&
+		FACE_FIELDS.includes(field)
+	) {
+		const faceField = field as keyof ScryfallCardFace;
+		return card.card_faces
+			.map((face) => formatCellValue(face[faceField]))
+			.join(" // ");
+	}
+	return getFieldValue(card, field);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Format a value for a single table or CSV cell
+ */
+function formatCellValue(value: unknown): string {
+	if (value === undefined || value === null) {
+		return "";
+	}
+	if (Array.isArray(value)) {
+		return value
+			.map((item) => (isPlainObject(item) ? JSON.stringify(item) : item))
+			.join(", ");
+	}
+	if (typeof value === "object") {
+		return JSON.stringify(value);
+	}
+	return String(value);
+}
+
+/**
+ * Build the header and rows of a card table
+ * Object fields such as "prices" are flattened into one column per key
+ * ("prices.usd", "prices.eur", ...). The card_faces field is left out, since
+ * face-level columns already show every face.
+ */
+export function cardTable(
+	cards: ScryfallCard[],
+	fields: CardField[] | CardFieldGroup,
+): { columns: string[]; rows: string[][] } {
+	const columns: string[] = [];
+	const getters: ((card: ScryfallCard) => unknown)[] = [];
+
+	for (const field of resolveFields(fields) ?? []) {
+		if (field === "card_faces") continue;
+
+		const values = cards.map((card) => cellValue(card, field));
+		const objects = values.filter(isPlainObject);
+		if (objects.length === 0) {
+			columns.push(field);
+			getters.push((card) => cellValue(card, field));
+			continue;
+		}
+
+		const keys = [...new Set(objects.flatMap((value) => Object.keys(value)))];
+		for (const key of keys) {
+			columns.push(`${field}.${key}`);
+			getters.push((card) => {
+				const value = cellValue(card, field);
+				return isPlainObject(value) ? value[key] : undefined;
+			});
+		}
+	}
+
+	return {
+		columns,
+		rows: cards.map((card) =>
+			getters.map((getter) => formatCellValue(getter(card))),
+		),
+	};
+}
+
+function markdownCell(text: string): string {
+	return text.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+function csvCell(text: string): string {
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format cards as a markdown table with one column per selected field
+ */
+export function formatCardTable(
+	cards: ScryfallCard[],
+	fields: CardField[] | CardFieldGroup,
+): string {
+	const { columns, rows } = cardTable(cards, fields);
+	const line = (cells: string[]) =>
+		`| ${cells.map(markdownCell).join(" | ")} |`;
+
+	return [
+		line(columns),
+		`|${columns.map(() => " --- ").join("|")}|`,
+		...rows.map(line),
+	].join("\n");
+}
+
+/**
+ * Format cards side by side as a markdown table, one row per field
+ * Rows where the cards differ are marked with ≠ and their values bolded.
+ * @param onlyDifferences - Leave out rows where every card has the same value
+ */
+export function formatCardComparison(
+	cards: ScryfallCard[],
+	fields: CardField[] | CardFieldGroup,
+	onlyDifferences = false,
+): string {
+	const { columns, rows } = cardTable(cards, fields);
+	const differing = differingFields(cards, fields);
+	const line = (cells: string[]) =>
+		`| ${cells.map(markdownCell).join(" | ")} |`;
+	const output = [
+		line(["Field", ...cards.map((card) => card.name)]),
+		`|${["", ...cards].map(() => " --- ").join("|")}|`,
+	];
+
+	columns.forEach((column, index) => {
+		if (column === "name") return;
+
+		const values = rows.map((row) => row[index]);
+		const differs = differing.includes(column);
+		if (onlyDifferences && !differs) return;
+
+		output.push(
+			differs
+				? line([
+						`≠ ${column}`,
+						...values.map((value) => (value ? `**${value}**` : "")),
+					])
+				: line([column, ...values]),
+		);
+	});
+
+	const compared = columns.filter((column) => column !== "name").length;
+	output.push("");
+	output.push(`${differing.length} of ${compared} fields differ.`);
+
+	return output.join("\n");
+}
+
+/**
+ * Comparison table columns whose values are not the same for every card
+ */
+export function differingFields(
+	cards: ScryfallCard[],
+	fields: CardField[] | CardFieldGroup,
+): string[] {
+	const { columns, rows } = cardTable(cards, fields);
+	return columns.filter(
+		(column, index) =>
+			column !== "name" && new Set(rows.map((row) => row[index])).size > 1,
+	);
+}
+
+/**
+ * Format cards as CSV (RFC 4180) with a header row of field names
+ */
+export function formatCardCsv(
+	cards: ScryfallCard[],
+	fields: CardField[] | CardFieldGroup,
+): string {
+	const { columns, rows } = cardTable(cards, fields);
+	return [columns, ...rows]
+		.map((cells) => cells.map(csvCell).join(","))
+		.join("\n");
+}
+
 /**
  * Format multiple cards with optional field selection
  * @param cards - Array of Scryfall card objects
  * @param fields - Optional array of fields to include, or a predefined group name
  * @param limit - Maximum number of cards to format
+ * @param total - Total number of matching cards, when more exist than were fetched
+ * @param format - One block per card ("text"), a markdown "table" or "csv"
  * @returns Formatted string representation of the cards
  */
 export function formatCards(
 	cards: ScryfallCard[],
 	fields?: CardField[] | CardFieldGroup,
 	limit = 10,
+	total = cards.length,
+	format: CardOutputFormat = "text",
 ): string {
 	const resolvedFields = resolveFields(fields);
 
@@ -187,16 +438,96 @@ export function formatCards(
 	const cardsToShow = cards.slice(0, limit);
 	const output: string[] = [];
 
-	output.push(`Showing ${cardsToShow.length} of ${cards.length} cards:\n`);
+	output.push(`Showing ${cardsToShow.length} of ${total} cards:\n`);
+
+	if (format === "table") {
+		output.push(formatCardTable(cardsToShow, resolvedFields));
+		output.push("");
+	} else if (format === "csv") {
+		output.push("```csv");
+		output.push(formatCardCsv(cardsToShow, resolvedFields));
+		output.push("```");
+		output.push("");
+	} else {
+		for (const card of cardsToShow) {
+			output.push(formatCard(card, fields));
+			output.push("\n---\n");
+		}
+	}
+
+	if (total > cardsToShow.length) {
+		output.push(`... and ${total - cardsToShow.length} more cards`);
+	}
+
+	return output.join("\n");
+}
+
+/**
+ * Project the cards formatCards would show onto the selected fields
+ * @param limit - Maximum number of cards, as for formatCards
+ */
+export function projectCards(
+	cards: ScryfallCard[],
+	fields: CardField[] | CardFieldGroup,
+	limit = 10,
+): ProjectedCard[] {
+	return cards.slice(0, limit).map((card) => projectCard(card, fields));
+}
+
+// Display labels for ruling sources
+const RULING_SOURCES: Record<ScryfallRuling["source"], string> = {
+	wotc: "WotC",
+	scryfall: "Scryfall",
+};
+
+/**
+ * Format the rulings for a card, oldest first
+ * @param card - The card the rulings belong to
+ * @param rulings - Rulings returned by the card's rulings endpoint
+ * @returns Formatted string listing each ruling with its date and source
+ */
+export function formatRulings(
+	card: ScryfallCard,
+	rulings: ScryfallRuling[],
+): string {
+	const output: string[] = [];
+
+	output.push(`**${card.name}**`);
+	output.push("");
 
-	for (const card of cardsToShow) {
-		output.push(formatCard(card, fields));
-		output.push("\n---\n");
+	if (rulings.length === 0) {
+		output.push("No rulings.");
+		return output.join("\n");
 	}
 
-	if (cards.length > limit) {
-		output.push(`... and ${cards.length - limit} more cards`);
+	const sorted = [...rulings].sort((a, b) =>
+		a.published_at.localeCompare(b.published_at),
+	);
+
+	for (const ruling of sorted) {
+		const source = RULING_SOURCES[ruling.source] ?? ruling.source;
+		output.push(`- ${ruling.published_at} (${source}): ${ruling.comment}`);
 	}
 
 	return output.join("\n");
 }
+
+/**
+ * Format collection identifiers that Scryfall could not match
+ * @param identifiers - The not_found list from a collection lookup
+ * @returns A "Not found" section, or an empty string when everything matched
+ */
+export function formatNotFound(identifiers: CardIdentifier[] = []): string {
+	if (identifiers.length === 0) {
+		return "";
+	}
+
+	const lines = identifiers.map((id) => {
+		if ("name" in id) {
+			return `- "${id.name}"${id.set ? ` (${id.set})` : ""}`;
+		}
+		return `- ${JSON.stringify(id)}`;
+	});
+
+	return `**Not found (${identifiers.length}):**\n${lines.join("\n")}`;
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { cardImages, imageMimeType, toBase64 } from "./images.js";
+import { mockCard } from "./test-helpers.js";
+import type { ScryfallImageUris } from "./types.js";
+
+function imageUris(id: string): ScryfallImageUris {
+	return {
+		small: `https://cards.scryfall.io/small/${id}.jpg`,
+		normal: `https://cards.scryfall.io/normal/${id}.jpg`,
+		large: `https://cards.scryfall.io/large/${id}.jpg`,
+		png: `https://cards.scryfall.io/png/${id}.png`,
+		art_crop: `https://cards.scryfall.io/art_crop/${id}.jpg`,
+		border_crop: `https://cards.scryfall.io/border_crop/${id}.jpg`,
+	};
+}
+
+describe("cardImages", () => {
+	it("should return the card's image at the chosen size", () => {
+		const card = mockCard({ name: "Opt", image_uris: imageUris("opt") });
+
+		expect(cardImages(card, "large")).toEqual([
+			{
+				name: "Opt",
+				uri: "https://cards.scryfall.io/large/opt.jpg",
+				mimeType: "image/jpeg",
+			},
+		]);
+	});
+
+	it("should return one image per face of a double-faced card", () => {
+		const card = mockCard({
+			name: "Delver of Secrets // Insectile Aberration",
+			card_faces: [
+				{
+					object: "card_face",
+					name: "Delver of Secrets",
+					mana_cost: "{U}",
+					type_line: "Creature — Human Wizard",
+					image_uris: imageUris("delver-front"),
+				},
+				{
+					object: "card_face",
+					name: "Insectile Aberration",
+					mana_cost: "",
+					type_line: "Creature — Human Insect",
+					image_uris: imageUris("delver-back"),
+				},
+			],
+		});
+
+		expect(cardImages(card, "png")).toEqual([
+			{
+				name: "Delver of Secrets",
+				uri: "https://cards.scryfall.io/png/delver-front.png",
+				mimeType: "image/png",
+			},
+			{
+				name: "Insectile Aberration",
+				uri: "https://cards.scryfall.io/png/delver-back.png",
+				mimeType: "image/png",
+			},
+		]);
+	});
+
+	it("should return nothing when Scryfall has no image", () => {
+		expect(cardImages(mockCard(), "normal")).toEqual([]);
+	});
+});
+
+describe("imageMimeType", () => {
+	it("should only use PNG for the png size", () => {
+		expect(imageMimeType("png")).toBe("image/png");
+		expect(imageMimeType("art_crop")).toBe("image/jpeg");
+	});
+});
+
+describe("toBase64", () => {
+	it("should encode bytes", () => {
+		expect(toBase64(new Uint8Array([0xff, 0xd8, 0xff]))).toBe("/9j/");
+	});
+
+	it("should encode images larger than one chunk", () => {
+		const bytes = new Uint8Array(0x8000 * 3).fill(0);
+		expect(toBase64(bytes)).toBe("A".repeat((bytes.length / 3) * 4));
+	});
+});
@@ -0,0 +1,67 @@
+/**
+ * Card images for MCP image and resource_link content
+ * https://scryfall.com/docs/api/images
+ */
+
+import type { ScryfallCard, ScryfallImageUris } from "./types.js";
+
+export type ImageSize = keyof ScryfallImageUris;
+
+export const IMAGE_SIZES: ImageSize[] = [
+	"small",
+	"normal",
+	"large",
+	"png",
+	"art_crop",
+	"border_crop",
+];
+
+// How a tool returns card images: not at all, as image data, or as links
+export const IMAGE_MODES = ["none", "image", "link"] as const;
+
+export type ImageMode = (typeof IMAGE_MODES)[number];
+
+export interface CardImage {
+	name: string; // Card or face name
+	uri: string;
+	mimeType: string;
+}
+
+/**
+ * MIME type of a Scryfall image size; only "png" is not a JPEG
+ */
+export function imageMimeType(size: ImageSize): string {
+	return size === "png" ? "image/png" : "image/jpeg";
+}
+
+/**
+ * Images of a card at one size
+ * Cards with a single image (including split and adventure cards) return one
+ * image; double-faced cards have no card-level image and return one per face.
+ * @returns The images, empty when Scryfall has none for the card
+ */
+export function cardImages(card: ScryfallCard, size: ImageSize): CardImage[] {
+	const mimeType = imageMimeType(size);
+
+	if (card.image_uris) {
+		return [{ name: card.name, uri: card.image_uris[size], mimeType }];
+	}
+
+	return (card.card_faces ?? []).flatMap((face) =>
+		face.image_uris
+			? [{ name: face.name, uri: face.image_uris[size], mimeType }]
+			: [],
+	);
+}
+
+/**
+ * Encode image bytes as base64 for MCP image content
+ */
+export function toBase64(bytes: Uint8Array): string {
+	let binary = "";
+	// Build the string in chunks; spreading a whole image overflows the stack
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	}
+	return btoa(binary);
+}
@@ -0,0 +1,297 @@
+/// <reference types="@cloudflare/vitest-pool-workers" />
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, expect, it } from "vitest";
+import { ScryfallAPIError } from "./client.js";
+import { LOCAL_PAGE_SIZE, LocalCardIndex } from "./local-index.js";
+import { mockCard } from "./test-helpers.js";
+import type { ScryfallCard } from "./types.js";
+
+declare module "cloudflare:test" {
+	interface ProvidedEnv {
+		TEST_STORAGE: DurableObjectNamespace;
+	}
+}
+
+const bolt = mockCard({
+	id: "bolt-m10",
+	oracle_id: "oracle-bolt",
+	name: "Lightning Bolt",
+	cmc: 1,
+	type_line: "Instant",
+	oracle_text: "Lightning Bolt deals 3 damage to any target.",
+	colors: ["R"],
+	color_identity: ["R"],
+	set: "m10",
+	collector_number: "146",
+	released_at: "2009-07-17",
+	prices: { usd: "2.00" },
+});
+const boltReprint = mockCard({
+	...bolt,
+	id: "bolt-2x2",
+	set: "2x2",
+	collector_number: "117",
+	released_at: "2022-07-08",
+	prices: { usd: "1.00" },
+});
+const helix = mockCard({
+	name: "Lightning Helix",
+	cmc: 2,
+	type_line: "Instant",
+	colors: ["R", "W"],
+	color_identity: ["R", "W"],
+	released_at: "2005-10-07",
+});
+const goyf = mockCard({
+	name: "Tarmogoyf",
+	cmc: 2,
+	type_line: "Creature — Lhurgoyf",
+	colors: ["G"],
+	color_identity: ["G"],
+	released_at: "2007-05-04",
+});
+const delver = mockCard({
+	name: "Delver of Secrets // Insectile Aberration",
+	cmc: 1,
+	type_line: "Creature — Human Wizard // Creature — Human Insect",
+	colors: undefined,
+	color_identity: ["U"],
+	card_faces: [
+		{
+			object: "card_face",
+			name: "Delver of Secrets",
+			mana_cost: "{U}",
+			type_line: "Creature — Human Wizard",
+			colors: ["U"],
+		},
+		{
+			object: "card_face",
+			name: "Insectile Aberration",
+			mana_cost: "",
+			type_line: "Creature — Human Insect",
+			oracle_text: "Flying",
+			colors: ["U"],
+		},
+	],
+});
+const cards = [bolt, boltReprint, helix, goyf, delver];
+
+async function* records(items: unknown[], failAfter?: number) {
+	for (const [i, item] of items.entries()) {
+		if (i === failAfter) {
+			throw new Error("Connection reset while downloading");
+		}
+		yield item;
+	}
+}
+
+/**
+ * Run a test against a fresh index in Durable Object SQLite storage
+ */
+async function withIndex(
+	test: (index: LocalCardIndex, sql: SqlStorage) => Promise<void> | void,
+	loaded: ScryfallCard[] = cards,
+): Promise<void> {
+	const stub = env.TEST_STORAGE.get(env.TEST_STORAGE.newUniqueId());
+	await runInDurableObject(stub, async (_instance, state) => {
+		const index = new LocalCardIndex(state.storage.sql);
+		if (loaded.length > 0) {
+			await index.replace(records(loaded), { kind: "inline" });
+		}
+		await test(index, state.storage.sql);
+	});
+}
+
+function names(list: { data: ScryfallCard[] }): string[] {
+	return list.data.map((card) => card.name);
+}
+
+function tables(sql: SqlStorage): string[] {
+	return sql
+		.exec<{ name: string }>(
+			"SELECT name FROM sqlite_master WHERE type = 'table' AND name LIKE 'local_cards%'",
+		)
+		.toArray()
+		.map((row) => row.name);
+}
+
+describe("LocalCardIndex.replace", () => {
+	it("should load cards and skip other records", () =>
+		withIndex(async (index, sql) => {
+			const status = await index.replace(
+				records([...cards, { object: "set", code: "m10" }]),
+				{ kind: "url", url: "https://example.com/cards.json" },
+				"2024-01-01T00:00:00Z",
+			);
+
+			expect(status.cardCount).toBe(5);
+			expect(status.skipped).toBe(1);
+			expect(index.status()).toEqual(status);
+			expect(tables(sql)).toEqual(["local_cards"]);
+		}, []));
+
+	it("should swap in the new cards", () =>
+		withIndex(async (index) => {
+			await index.replace(records([goyf]), { kind: "inline" });
+
+			expect(index.status()?.cardCount).toBe(1);
+			expect(names(index.search(""))).toEqual(["Tarmogoyf"]);
+		}));
+
+	it("should keep the old index when a load fails", () =>
+		withIndex(async (index, sql) => {
+			const before = index.status();
+
+			await expect(
+				index.replace(records([goyf, helix], 1), { kind: "inline" }),
+			).rejects.toThrow("Connection reset");
+			await expect(
+				index.replace(records([{ object: "set" }]), { kind: "inline" }),
+			).rejects.toThrow("contained no cards");
+
+			expect(index.status()).toEqual(before);
+			expect(index.search("").total_cards).toBe(4);
+			expect(tables(sql)).toEqual(["local_cards"]);
+		}));
+
+	it("should empty the index on clear", () =>
+		withIndex((index) => {
+			index.clear();
+			expect(index.status()).toBeUndefined();
+			expect(() => index.search("")).toThrow(ScryfallAPIError);
+		}));
+});
+
+describe("LocalCardIndex.search", () => {
+	it("should collapse printings unless unique is prints", () =>
+		withIndex((index) => {
+			const unique = index.search("bolt");
+			expect(unique.total_cards).toBe(1);
+			expect(unique.data[0].id).toBe("bolt-2x2");
+
+			const prints = index.search("bolt", { unique: "prints" });
+			expect(prints.total_cards).toBe(2);
+		}));
+
+	it("should order by name by default and by other columns on request", () =>
+		withIndex((index) => {
+			expect(names(index.search("t:instant or t:creature"))).toEqual([
+				"Delver of Secrets // Insectile Aberration",
+				"Lightning Bolt",
+				"Lightning Helix",
+				"Tarmogoyf",
+			]);
+			expect(names(index.search("", { order: "released" }))).toEqual([
+				"Lightning Bolt",
+				"Delver of Secrets // Insectile Aberration",
+				"Tarmogoyf",
+				"Lightning Helix",
+			]);
+			expect(
+				names(index.search("", { order: "cmc", dir: "desc" })).slice(0, 2),
+			).toEqual(["Lightning Helix", "Tarmogoyf"]);
+			expect(
+				index.search("bolt", { unique: "prints", order: "usd" }).data[0].id,
+			).toBe("bolt-2x2");
+		}));
+
+	it("should page through results", () => {
+		const many = Array.from({ length: LOCAL_PAGE_SIZE + 5 }, (_, i) =>
+			mockCard({ name: `Goblin ${String(i).padStart(3, "0")}` }),
+		);
+		return withIndex((index) => {
+			const first = index.search("goblin");
+			expect(first.total_cards).toBe(LOCAL_PAGE_SIZE + 5);
+			expect(first.data).toHaveLength(LOCAL_PAGE_SIZE);
+			expect(first.has_more).toBe(true);
+
+			const second = index.search("goblin", { page: 2 });
+			expect(names(second)).toEqual([
+				"Goblin 175",
+				"Goblin 176",
+				"Goblin 177",
+				"Goblin 178",
+				"Goblin 179",
+			]);
+			expect(second.has_more).toBe(false);
+		}, many);
+	});
+
+	it("should answer no matches with a 404", () =>
+		withIndex((index) => {
+			try {
+				index.search("t:planeswalker");
+				expect.fail("Should have thrown an error");
+			} catch (error) {
+				expect(error).toBeInstanceOf(ScryfallAPIError);
+				expect((error as ScryfallAPIError).status).toBe(404);
+			}
+		}));
+});
+
+describe("LocalCardIndex lookups", () => {
+	it("should find exact names, including face names", () =>
+		withIndex((index) => {
+			expect(index.getNamed("lightning bolt").id).toBe("bolt-2x2");
+			expect(index.getNamed("Lightning Bolt", { set: "M10" }).id).toBe(
+				"bolt-m10",
+			);
+			expect(index.getNamed("Insectile Aberration").name).toBe(delver.name);
+			expect(() => index.getNamed("Lightning")).toThrow(ScryfallAPIError);
+		}));
+
+	it("should match fuzzy names on every word, shortest first", () =>
+		withIndex((index) => {
+			expect(index.getNamed("lightning", { fuzzy: true }).name).toBe(
+				"Lightning Bolt",
+			);
+			expect(index.getNamed("helix light", { fuzzy: true }).name).toBe(
+				"Lightning Helix",
+			);
+			expect(() => index.getNamed("Counterspell", { fuzzy: true })).toThrow(
+				/No card named "Counterspell"/,
+			);
+		}));
+
+	it("should pick random cards matching a query", () =>
+		withIndex((index) => {
+			for (let i = 0; i < 5; i++) {
+				expect(index.getRandom("t:creature c:g").name).toBe("Tarmogoyf");
+			}
+			expect(cards.map((card) => card.name)).toContain(index.getRandom().name);
+			expect(() => index.getRandom("t:land")).toThrow(ScryfallAPIError);
+		}));
+
+	it("should look up collections by any indexed identifier", () =>
+		withIndex((index) => {
+			const result = index.getCollection([
+				{ id: "bolt-m10" },
+				{ oracle_id: "oracle-bolt" },
+				{ name: "Tarmogoyf" },
+				{ set: "2X2", collector_number: "117" },
+				{ name: "Counterspell" },
+				{ mtgo_id: 12345 },
+			]);
+
+			expect(result.data.map((card) => card.id)).toEqual([
+				"bolt-m10",
+				"bolt-2x2",
+				goyf.id,
+				"bolt-2x2",
+			]);
+			expect(result.not_found).toEqual([
+				{ name: "Counterspell" },
+				{ mtgo_id: 12345 },
+			]);
+		}));
+
+	it("should autocomplete names, name starts first", () =>
+		withIndex((index) => {
+			expect(index.autocomplete("light").data).toEqual([
+				"Lightning Bolt",
+				"Lightning Helix",
+			]);
+			expect(index.autocomplete("ins").data).toEqual([delver.name]);
+			expect(index.autocomplete("l").data).toEqual([]);
+		}));
+});
@@ -0,0 +1,516 @@
+/**
+ * Local card index for offline mode
+ * Cards from a Scryfall bulk data file are stored in the Durable Object's
+ * SQLite storage so searches and lookups work without network access.
+ */
+
+import { readBulkRecords, toScryfallCard } from "./bulk-data.js";
+import type { LocalCardSource, SearchCardsOptions } from "./client.js";
+import { ScryfallAPIError } from "./client.js";
+import { RARITY_RANK_SQL, translateQuery } from "./local-query.js";
+import type {
+	CardIdentifier,
+	ScryfallBulkData,
+	ScryfallBulkDataType,
+	ScryfallCard,
+	ScryfallCatalog,
+	ScryfallList,
+} from "./types.js";
+
+// Cards per search page, matching Scryfall
+export const LOCAL_PAGE_SIZE = 175;
+
+// Where the index was loaded from, so it can be refreshed from the same place
+export type LocalIndexSource =
+	| { kind: "bulk_data"; bulkType: ScryfallBulkDataType }
+	| { kind: "url"; url: string }
+	| { kind: "inline" };
+
+export interface LocalIndexStatus {
+	source: LocalIndexSource;
+	updatedAt?: string; // When Scryfall generated the bulk file, if known
+	loadedAt: string;
+	cardCount: number;
+	skipped: number; // Records that were not cards
+}
+
+// Anything that can fetch bulk data files (ScryfallClient in production)
+export interface BulkDataSource {
+	getBulkData(type: ScryfallBulkDataType): Promise<ScryfallBulkData>;
+	downloadBulkData(uri: string): Promise<ReadableStream<Uint8Array>>;
+}
+
+const CARD_COLUMNS = [
+	"id",
+	"oracle_id",
+	"illustration_id",
+	"name",
+	"names",
+	"set_code",
+	"collector_number",
+	"released_at",
+	"type_line",
+	"oracle_text",
+	"colors",
+	"color_identity",
+	"cmc",
+	"power",
+	"toughness",
+	"loyalty",
+	"rarity",
+	"usd",
+	"data",
+];
+
+const ORDER_COLUMNS: Partial<Record<string, string>> = {
+	name: "name",
+	set: "set_code",
+	released: "released_at",
+	rarity: `(${RARITY_RANK_SQL})`,
+	cmc: "cmc",
+	power: "CAST(power AS REAL)",
+	toughness: "CAST(toughness AS REAL)",
+	usd: "usd",
+	artist: "json_extract(data, '$.artist')",
+};
+
+// Columns that identify duplicates for each unique mode
+const UNIQUE_COLUMNS: Record<string, string> = {
+	cards: "oracle_id",
+	art: "COALESCE(illustration_id, id)",
+	prints: "id",
+};
+
+function createCardTable(sql: SqlStorage, table: string): void {
+	sql.exec(
+		`CREATE TABLE IF NOT EXISTS ${table} (
+			id TEXT PRIMARY KEY,
+			oracle_id TEXT NOT NULL,
+			illustration_id TEXT,
+			name TEXT NOT NULL,
+			names TEXT NOT NULL,
+			set_code TEXT NOT NULL,
+			collector_number TEXT NOT NULL,
+			released_at TEXT NOT NULL,
+			type_line TEXT NOT NULL,
+			oracle_text TEXT NOT NULL,
+			colors TEXT NOT NULL,
+			color_identity TEXT NOT NULL,
+			cmc REAL NOT NULL,
+			power TEXT,
+			toughness TEXT,
+			loyalty TEXT,
+			rarity TEXT NOT NULL,
+			usd REAL,
+			data TEXT NOT NULL
+		)`,
+	);
+}
+
+function sortColors(colors: string[]): string {
+	return ["W", "U", "B", "R", "G"]
+		.filter((color) => colors.includes(color))
+		.join("");
+}
+
+/**
+ * Flatten a card into the indexed columns
+ * Multi-faced cards are searchable by every face's name and text.
+ */
+export function toCardRow(card: ScryfallCard): SqlStorageValue[] {
+	const faces = card.card_faces ?? [];
+	const names = [card.name, ...faces.map((face) => face.name)].map((name) =>
+		name.toLowerCase(),
+	);
+	const oracleText =
+		card.oracle_text ??
+		faces.map((face) => face.oracle_text ?? "").join("\n//\n");
+	const colors = card.colors ?? faces.flatMap((face) => face.colors ?? []);
+	const usd = card.prices.usd ? Number.parseFloat(card.prices.usd) : null;
+
+	return [
+		card.id,
+		card.oracle_id,
+		card.illustration_id ?? faces[0]?.illustration_id ?? null,
+		card.name,
+		`\n${names.join("\n")}\n`,
+		card.set.toLowerCase(),
+		card.collector_number,
+		card.released_at,
+		card.type_line,
+		oracleText,
+		sortColors(colors),
+		sortColors(card.color_identity),
+		card.cmc,
+		card.power ?? faces[0]?.power ?? null,
+		card.toughness ?? faces[0]?.toughness ?? null,
+		card.loyalty ?? faces[0]?.loyalty ?? null,
+		card.rarity,
+		usd !== null && Number.isFinite(usd) ? usd : null,
+		JSON.stringify(card),
+	];
+}
+
+function notFound(details: string): ScryfallAPIError {
+	return new ScryfallAPIError(
+		`Scryfall API Error: ${details}`,
+		"not_found",
+		404,
+		details,
+	);
+}
+
+/**
+ * Card index backed by Durable Object SQLite storage
+ */
+export class LocalCardIndex implements LocalCardSource {
+	constructor(private sql: SqlStorage) {
+		createCardTable(this.sql, "local_cards");
+		this.sql.exec(
+			"CREATE TABLE IF NOT EXISTS local_card_index_meta (key TEXT PRIMARY KEY, value TEXT NOT NULL)",
+		);
+	}
+
+	/**
+	 * Describe what is loaded, or undefined when the index is empty
+	 */
+	status(): LocalIndexStatus | undefined {
+		const rows = this.sql
+			.exec<{ value: string }>(
+				"SELECT value FROM local_card_index_meta WHERE key = 'status'",
+			)
+			.toArray();
+		return rows.length > 0 ? JSON.parse(rows[0].value) : undefined;
+	}
+
+	/**
+	 * Replace the index with the cards from a bulk data file
+	 * Cards are written to a staging table first, so a failed load leaves the
+	 * previous index in place.
+	 * @param records - Records from readBulkRecords
+	 * @param source - Where the records came from, recorded for refreshes
+	 * @param updatedAt - When Scryfall generated the file, if known
+	 */
+	async replace(
+		records: AsyncIterable<unknown>,
+		source: LocalIndexSource,
+		updatedAt?: string,
+	): Promise<LocalIndexStatus> {
+		this.sql.exec("DROP TABLE IF EXISTS local_cards_staging");
+		createCardTable(this.sql, "local_cards_staging");
+
+		const insert = `INSERT OR REPLACE INTO local_cards_staging (${CARD_COLUMNS.join(", ")}) VALUES (${CARD_COLUMNS.map(() => "?").join(", ")})`;
+		let cardCount = 0;
+		let skipped = 0;
+
+		try {
+			for await (const record of records) {
+				const card = toScryfallCard(record);
+				if (!card) {
+					skipped++;
+					continue;
+				}
+				this.sql.exec(insert, ...toCardRow(card));
+				cardCount++;
+			}
+		} catch (error) {
+			this.sql.exec("DROP TABLE IF EXISTS local_cards_staging");
+			throw error;
+		}
+
+		if (cardCount === 0) {
+			this.sql.exec("DROP TABLE IF EXISTS local_cards_staging");
+			throw new Error("The bulk data file contained no cards");
+		}
+
+		const status: LocalIndexStatus = {
+			source,
+			updatedAt,
+			loadedAt: new Date().toISOString(),
+			cardCount,
+			skipped,
+		};
+
+		// No awaits from here on, so the swap is committed as one write
+		this.sql.exec("DROP TABLE local_cards");
+		this.sql.exec("ALTER TABLE local_cards_staging RENAME TO local_cards");
+		this.sql.exec(
+			"CREATE INDEX IF NOT EXISTS local_cards_oracle_id ON local_cards (oracle_id)",
+		);
+		this.sql.exec(
+			"CREATE INDEX IF NOT EXISTS local_cards_name ON local_cards (name COLLATE NOCASE)",
+		);
+		this.sql.exec(
+			"INSERT OR REPLACE INTO local_card_index_meta (key, value) VALUES ('status', ?)",
+			JSON.stringify(status),
+		);
+
+		return status;
+	}
+
+	/**
+	 * Load (or reload) the index from a bulk data type, URL or inline JSON
+	 * @param client - Used to look up and download bulk data files
+	 * @param source - Where to read cards from
+	 * @param data - The file contents, for inline sources
+	 */
+	async load(
+		client: BulkDataSource,
+		source: LocalIndexSource,
+		data?: string,
+	): Promise<LocalIndexStatus> {
+		switch (source.kind) {
+			case "bulk_data": {
+				const bulk = await client.getBulkData(source.bulkType);
+				const stream = await client.downloadBulkData(bulk.download_uri);
+				return this.replace(readBulkRecords(stream), source, bulk.updated_at);
+			}
+			case "url": {
+				const stream = await client.downloadBulkData(source.url);
+				return this.replace(readBulkRecords(stream), source);
+			}
+			case "inline":
+				if (data === undefined) {
+					throw new Error("Inline bulk data must be provided again to reload");
+				}
+				return this.replace(readBulkRecords(data), source);
+		}
+	}
+
+	/**
+	 * Remove every card from the index
+	 */
+	clear(): void {
+		this.sql.exec("DELETE FROM local_cards");
+		this.sql.exec("DELETE FROM local_card_index_meta WHERE key = 'status'");
+	}
+
+	private cards(query: string, ...params: SqlStorageValue[]): ScryfallCard[] {
+		return this.sql
+			.exec<{ data: string }>(query, ...params)
+			.toArray()
+			.map((row) => JSON.parse(row.data) as ScryfallCard);
+	}
+
+	search(
+		query: string,
+		options: SearchCardsOptions = {},
+	): ScryfallList<ScryfallCard> {
+		const where = translateQuery(query);
+		const group = UNIQUE_COLUMNS[options.unique ?? "cards"];
+		const order = ORDER_COLUMNS[options.order ?? "name"] ?? "name";
+		const defaultDir = options.order === "released" ? "DESC" : "ASC";
+		const dir =
+			options.dir === "asc"
+				? "ASC"
+				: options.dir === "desc"
+					? "DESC"
+					: defaultDir;
+		const page = Math.max(options.page ?? 1, 1);
+
+		const [{ total }] = this.sql
+			.exec<{ total: number }>(
+				`SELECT COUNT(DISTINCT ${group}) AS total FROM local_cards WHERE ${where.sql}`,
+				...where.params,
+			)
+			.toArray();
+
+		if (total === 0) {
+			throw notFound("Your query didn't match any cards in the local index.");
+		}
+
+		// Prefer the newest printing when collapsing duplicates
+		const data = this.cards(
+			`SELECT data FROM (
+				SELECT *, ROW_NUMBER() OVER (PARTITION BY ${group} ORDER BY released_at DESC) AS duplicate
+				FROM local_cards WHERE ${where.sql}
+			) WHERE duplicate = 1
+			ORDER BY ${order} ${dir}, name ASC
+			LIMIT ? OFFSET ?`,
+			...where.params,
+			LOCAL_PAGE_SIZE,
+			(page - 1) * LOCAL_PAGE_SIZE,
+		);
+
+		return {
+			object: "list",
+			total_cards: total,
+			has_more: page * LOCAL_PAGE_SIZE < total,
+			data,
+		};
+	}
+
+	getNamed(
+		name: string,
+		options: { fuzzy?: boolean; set?: string } = {},
+	): ScryfallCard {
+		const setFilter = options.set ? " AND set_code = ?" : "";
+		const setParams = options.set ? [options.set.toLowerCase()] : [];
+		const needle = name.trim().toLowerCase();
+
+		const [exact] = this.cards(
+			`SELECT data FROM local_cards WHERE instr(names, ?) > 0${setFilter} ORDER BY released_at DESC LIMIT 1`,
+			`\n${needle}\n`,
+			...setParams,
+		);
+		if (exact) return exact;
+
+		if (options.fuzzy) {
+			// Every word must appear; the shortest matching name wins
+			const words = needle.split(/\s+/).filter(Boolean);
+			if (words.length > 0) {
+				const [fuzzy] = this.cards(
+					`SELECT data FROM local_cards WHERE ${words.map(() => "names LIKE ?").join(" AND ")}${setFilter} ORDER BY length(name), released_at DESC LIMIT 1`,
+					...words.map((word) => `%${word}%`),
+					...setParams,
+				);
+				if (fuzzy) return fuzzy;
+			}
+		}
+
+		throw notFound(`No card named "${name}" in the local index.`);
+	}
+
+	getById(id: string): ScryfallCard {
+		const [card] = this.cards("SELECT data FROM local_cards WHERE id = ?", id);
+		if (!card) {
+			throw notFound(`No card with ID ${id} in the local index.`);
+		}
+		return card;
+	}
+
+	getRandom(query?: string): ScryfallCard {
+		const where = query ? translateQuery(query) : { sql: "1", params: [] };
+		const [card] = this.cards(
+			`SELECT data FROM local_cards WHERE ${where.sql} ORDER BY RANDOM() LIMIT 1`,
+			...where.params,
+		);
+		if (!card) {
+			throw notFound("No cards in the local index match the query.");
+		}
+		return card;
+	}
+
+	getCollection(identifiers: CardIdentifier[]): ScryfallList<ScryfallCard> {
+		const data: ScryfallCard[] = [];
+		const missing: CardIdentifier[] = [];
+
+		for (const identifier of identifiers) {
+			const card = this.findIdentifier(identifier);
+			if (card) {
+				data.push(card);
+			} else {
+				missing.push(identifier);
+			}
+		}
+
+		return { object: "list", has_more: false, data, not_found: missing };
+	}
+
+	private findIdentifier(identifier: CardIdentifier): ScryfallCard | undefined {
+		if ("id" in identifier) {
+			return this.cards(
+				"SELECT data FROM local_cards WHERE id = ?",
+				identifier.id,
+			)[0];
+		}
+		if ("oracle_id" in identifier) {
+			return this.cards(
+				"SELECT data FROM local_cards WHERE oracle_id = ? ORDER BY released_at DESC LIMIT 1",
+				identifier.oracle_id,
+			)[0];
+		}
+		if ("illustration_id" in identifier) {
+			return this.cards(
+				"SELECT data FROM local_cards WHERE illustration_id = ? ORDER BY released_at DESC LIMIT 1",
+				identifier.illustration_id,
+			)[0];
+		}
+		if ("collector_number" in identifier) {
+			return this.cards(
+				"SELECT data FROM local_cards WHERE set_code = ? AND collector_number = ?",
+				identifier.set.toLowerCase(),
+				identifier.collector_number,
+			)[0];
+		}
+		if ("name" in identifier) {
+			try {
+				return this.getNamed(identifier.name, { set: identifier.set });
+			} catch {
+				return undefined;
+			}
+		}
+		// MTGO and Multiverse IDs are not indexed
+		return undefined;
+	}
+
+	autocomplete(query: string): ScryfallCatalog {
+		const needle = query.trim().toLowerCase();
+		const data =
+			needle.length < 2
+				? []
+				: this.sql
+						.exec<{ name: string }>(
+							"SELECT DISTINCT name FROM local_cards WHERE names LIKE ? ORDER BY instr(names, ?) = 0, instr(names, ?) = 0, name LIMIT 20",
+							`%${needle}%`,
+							`\n${needle}`,
+							needle,
+						)
+						.toArray()
+						.map((row) => row.name);
+
+		return {
+			object: "catalog",
+			uri: "local://cards/autocomplete",
+			total_values: data.length,
+			data,
+		};
+	}
+}
+
+function describeSource(source: LocalIndexSource): string {
+	switch (source.kind) {
+		case "bulk_data":
+			return `Scryfall bulk data (${source.bulkType})`;
+		case "url":
+			return source.url;
+		case "inline":
+			return "inline JSON";
+	}
+}
+
+/**
+ * Format the index status together with the active backend
+ * @param status - Result of status() or replace(), undefined when empty
+ * @param backend - The client's current backend
+ */
+export function formatIndexStatus(
+	status: LocalIndexStatus | undefined,
+	backend: string,
+): string {
+	const output: string[] = [];
+
+	output.push("# Local Card Index");
+	output.push("");
+	output.push(`backend: ${backend}`);
+
+	if (!status) {
+		output.push("");
+		output.push(
+			"The local card index is empty. Load one with load_card_index.",
+		);
+		return output.join("\n");
+	}
+
+	output.push(`source: ${describeSource(status.source)}`);
+	output.push(`cards: ${status.cardCount}`);
+	if (status.skipped > 0) {
+		output.push(`skipped_records: ${status.skipped}`);
+	}
+	if (status.updatedAt) {
+		output.push(`bulk_file_updated_at: ${status.updatedAt}`);
+	}
+	output.push(`loaded_at: ${status.loadedAt}`);
+
+	return output.join("\n");
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { ScryfallAPIError } from "./client.js";
+import { translateQuery } from "./local-query.js";
+
+describe("translateQuery", () => {
+	it("should match bare words against the name", () => {
+		expect(translateQuery("bolt")).toEqual({
+			sql: "name LIKE ?",
+			params: ["%bolt%"],
+		});
+	});
+
+	it("should join terms with AND and OR", () => {
+		const condition = translateQuery('t:goblin o:"haste" or mv<=1');
+
+		expect(condition.sql).toBe(
+			"((type_line LIKE ? AND oracle_text LIKE ?) OR cmc <= ?)",
+		);
+		expect(condition.params).toEqual(["%goblin%", "%haste%", 1]);
+	});
+
+	it("should negate terms and groups", () => {
+		expect(translateQuery("-t:land").sql).toBe("NOT (type_line LIKE ?)");
+		expect(translateQuery("-(t:land or t:creature)").sql).toBe(
+			"NOT ((type_line LIKE ? OR type_line LIKE ?))",
+		);
+	});
+
+	it("should treat c: as a superset and id: as a subset", () => {
+		expect(translateQuery("c:rg").sql).toBe(
+			"(instr(colors, 'R') > 0 AND instr(colors, 'G') > 0)",
+		);
+		expect(translateQuery("id:wu").sql).toBe(
+			"(instr(color_identity, 'B') = 0 AND instr(color_identity, 'R') = 0 AND instr(color_identity, 'G') = 0)",
+		);
+	});
+
+	it("should match colorless cards with c:c and id:c", () => {
+		expect(translateQuery("c:c").sql).toBe("(length(colors) = 0)");
+		expect(translateQuery("c>=c").sql).toBe("(length(colors) = 0)");
+		expect(translateQuery("c=c").sql).toBe("(length(colors) = 0)");
+		expect(translateQuery("id:c").sql).toBe("(length(color_identity) = 0)");
+		expect(translateQuery("c!=c").sql).toBe("NOT (length(colors) = 0)");
+		expect(translateQuery("c>c")).toEqual({
+			sql: "(length(colors) > ?)",
+			params: [0],
+		});
+	});
+
+	it("should guard stats that are not numbers", () => {
+		expect(translateQuery("pow>=4").sql).toBe(
+			"(power GLOB '[0-9]*' AND CAST(power AS REAL) >= ?)",
+		);
+	});
+
+	it("should compare stats with each other", () => {
+		expect(translateQuery("pow>tou").sql).toBe(
+			"(power GLOB '[0-9]*' AND toughness GLOB '[0-9]*' AND CAST(power AS REAL) > CAST(toughness AS REAL))",
+		);
+	});
+
+	it("should resolve keyword aliases and color names", () => {
+		expect(translateQuery("type:elf").sql).toBe("type_line LIKE ?");
+		expect(translateQuery("c:azorius").sql).toBe(
+			"(instr(colors, 'W') > 0 AND instr(colors, 'U') > 0)",
+		);
+	});
+
+	it("should check format legality", () => {
+		const condition = translateQuery("f:modern");
+		expect(condition.sql).toContain("$.legalities.modern");
+		expect(condition.params).toEqual(["legal", "restricted"]);
+	});
+
+	it("should match everything for an empty query", () => {
+		expect(translateQuery("  ")).toEqual({ sql: "1", params: [] });
+	});
+
+	it.each([
+		["pow>=x", "needs a number"],
+		["(t:elf", "Missing closing parenthesis"],
+		["t:elf)", "Unbalanced closing parenthesis"],
+		['o:"draw', "Unclosed quotation mark"],
+		["is:commander", "not supported"],
+		["o:/draw.*/", "Regular expressions"],
+		["c:purple", "not a color"],
+	])("should reject %s", (query, message) => {
+		try {
+			translateQuery(query);
+			expect.fail("Should have thrown an error");
+		} catch (error) {
+			expect(error).toBeInstanceOf(ScryfallAPIError);
+			if (error instanceof ScryfallAPIError) {
+				expect(error.status).toBe(400);
+				expect(error.details).toContain(message);
+			}
+		}
+	});
+});
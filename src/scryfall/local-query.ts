@@ -0,0 +1,423 @@
+/**
+ * Translation of Scryfall search queries to SQL for the local card index
+ * Queries are parsed with the shared query parser; the common keywords
+ * (name, type, oracle text, colors, mana value, stats, rarity, set, format
+ * legality, price, artist, year) are translated, with negation, OR and
+ * grouping. Anything else is rejected rather than silently ignored.
+ */
+
+import { ScryfallAPIError } from "./client.js";
+import type { QueryNode, QueryOperator, QueryTerm } from "./query-parser.js";
+import {
+	checkQueryTerms,
+	parseColorValue,
+	parseQuery,
+	parseRarityValue,
+	QuerySyntaxError,
+} from "./query-parser.js";
+
+export interface SqlCondition {
+	sql: string;
+	params: SqlStorageValue[];
+}
+
+const COLOR_LETTERS = ["W", "U", "B", "R", "G"];
+
+// Rarity order used for rarity comparisons such as r>=rare
+export const RARITY_RANK_SQL =
+	"CASE rarity WHEN 'common' THEN 0 WHEN 'uncommon' THEN 1 WHEN 'rare' THEN 2 WHEN 'special' THEN 3 WHEN 'mythic' THEN 4 WHEN 'bonus' THEN 5 ELSE 0 END";
+
+export const RARITY_RANKS: Record<string, number> = {
+	common: 0,
+	uncommon: 1,
+	rare: 2,
+	special: 3,
+	mythic: 4,
+	bonus: 5,
+};
+
+// Numeric keywords, shared by the SQL translation and the in-memory matcher
+export const NUMERIC_KEYWORDS = [
+	"manavalue",
+	"power",
+	"toughness",
+	"loyalty",
+	"usd",
+	"year",
+] as const;
+
+export type NumericKeyword = (typeof NUMERIC_KEYWORDS)[number];
+export type StatKeyword = "power" | "toughness" | "loyalty";
+export type TextKeyword = "name" | "type" | "oracle" | "artist";
+
+// Stat names accepted on the right-hand side, as in pow>tou
+const STAT_KEYWORDS: Record<string, StatKeyword> = {
+	pow: "power",
+	power: "power",
+	tou: "toughness",
+	toughness: "toughness",
+	loy: "loyalty",
+	loyalty: "loyalty",
+};
+
+/**
+ * How one evaluator handles each kind of term
+ * Keyword lookup, value parsing and operator checks are shared by
+ * evaluateTerm; an evaluator only says how to test a card, as SQL (the local
+ * card index) or as a predicate (the deck card matcher).
+ */
+export interface TermEvaluator<T> {
+	unsupported: string; // Ends "is not supported ...", e.g. "by the local card index"
+	exactName(name: string): T; // !"name", against the card and face names
+	text(keyword: TextKeyword, term: QueryTerm): T; // Substring or /regex/
+	numeric(keyword: NumericKeyword, op: QueryOperator, value: number): T;
+	stats(left: StatKeyword, op: QueryOperator, right: StatKeyword): T;
+	// Op has ":" mapped already: >= for colors, <= for identity
+	colors(keyword: "color" | "identity", op: QueryOperator, value: string): T;
+	rarity(op: QueryOperator, rank: number): T; // Rank from RARITY_RANKS
+	set(code: string): T; // Lowercase set code
+	collectorNumber(number: string): T;
+	legality(format: string, statuses: string[]): T;
+}
+
+// Numeric keywords and the SQL expression they compare against
+const NUMERIC_COLUMNS: Record<NumericKeyword, string> = {
+	manavalue: "cmc",
+	power: "CAST(power AS REAL)",
+	toughness: "CAST(toughness AS REAL)",
+	loyalty: "CAST(loyalty AS REAL)",
+	usd: "usd",
+	year: "CAST(substr(released_at, 1, 4) AS INTEGER)",
+};
+
+// Non-numeric stats like "*" must not compare as 0
+const NUMERIC_GUARDS: Record<string, string> = {
+	"CAST(power AS REAL)": "power GLOB '[0-9]*'",
+	"CAST(toughness AS REAL)": "toughness GLOB '[0-9]*'",
+	"CAST(loyalty AS REAL)": "loyalty GLOB '[0-9]*'",
+	usd: "usd IS NOT NULL",
+};
+
+export function badQuery(details: string): ScryfallAPIError {
+	return new ScryfallAPIError(
+		`Invalid query: ${details}`,
+		"bad_request",
+		400,
+		details,
+	);
+}
+
+function like(column: string, value: string): SqlCondition {
+	return { sql: `${column} LIKE ?`, params: [`%${value}%`] };
+}
+
+function compare(
+	column: string,
+	op: QueryOperator,
+	value: number,
+): SqlCondition {
+	const sqlOp = op === ":" ? "=" : op;
+	const guard = NUMERIC_GUARDS[column];
+	return {
+		sql: guard ? `(${guard} AND ${column} ${sqlOp} ?)` : `${column} ${sqlOp} ?`,
+		params: [value],
+	};
+}
+
+/**
+ * Compare one stat against another, e.g. pow>tou
+ */
+function compareStats(
+	left: string,
+	op: QueryOperator,
+	right: string,
+): SqlCondition {
+	const sqlOp = op === ":" ? "=" : op;
+	return {
+		sql: `(${left} GLOB '[0-9]*' AND ${right} GLOB '[0-9]*' AND CAST(${left} AS REAL) ${sqlOp} CAST(${right} AS REAL))`,
+		params: [],
+	};
+}
+
+// What a color or identity term requires of a card's colors
+export interface ColorComparison {
+	present: string[]; // Color letters (WUBRG) the card must have
+	absent: string[]; // Color letters the card must not have
+	count?: { op: QueryOperator; value: number }; // On the number of colors
+	negate: boolean; // Whether the card must fail the requirements instead
+}
+
+/**
+ * Work out what a color comparison requires, shared by the SQL translation
+ * and the in-memory matcher
+ * Colorless has no colors to include, so c:c and c>=c mean no colors at all
+ * rather than matching every card.
+ * @param op - Comparison; ":" means "=", callers map it to >= or <= first
+ * @throws ScryfallAPIError (bad_request) when the value is not a color
+ */
+export function colorComparison(
+	op: QueryOperator,
+	value: string,
+): ColorComparison {
+	const lower = value.toLowerCase();
+	const none = { present: [], absent: [], negate: false };
+
+	if (/^\d+$/.test(lower)) {
+		return { ...none, count: { op, value: Number(lower) } };
+	}
+	if (lower === "m" || lower === "multicolor") {
+		return { ...none, count: { op: ">=", value: 2 } };
+	}
+
+	const letters = parseColorValue(lower);
+	if (letters === undefined) {
+		throw badQuery(`"${value}" is not a color`);
+	}
+
+	const wanted = COLOR_LETTERS.filter(
+		(letter) => letters !== "c" && letters.includes(letter.toLowerCase()),
+	);
+	const others = COLOR_LETTERS.filter((letter) => !wanted.includes(letter));
+
+	switch (letters === "c" && op === ">=" ? "=" : op) {
+		case "=":
+		case ":":
+			return { ...none, present: wanted, absent: others };
+		case "!=":
+			return { present: wanted, absent: others, negate: true };
+		case ">=":
+			return { ...none, present: wanted };
+		case "<=":
+			return { ...none, absent: others };
+		case ">":
+			return {
+				...none,
+				present: wanted,
+				count: { op: ">", value: wanted.length },
+			};
+		case "<":
+			return {
+				...none,
+				absent: others,
+				count: { op: "<", value: wanted.length },
+			};
+	}
+}
+
+/**
+ * Compare a color column (e.g. "RW") against a set of colors
+ * @param column - Column holding color letters in WUBRG order
+ * @param op - Comparison; ":" has already been mapped to >= or <=
+ */
+function colorCondition(
+	column: string,
+	op: QueryOperator,
+	value: string,
+): SqlCondition {
+	const { present, absent, count, negate } = colorComparison(op, value);
+	const parts =
+		absent.length === COLOR_LETTERS.length
+			? [`length(${column}) = 0`]
+			: [
+					...present.map((letter) => `instr(${column}, '${letter}') > 0`),
+					...absent.map((letter) => `instr(${column}, '${letter}') = 0`),
+				];
+	const params: SqlStorageValue[] = [];
+	if (count) {
+		const condition = compare(`length(${column})`, count.op, count.value);
+		parts.push(condition.sql);
+		params.push(...condition.params);
+	}
+
+	const sql = parts.length > 0 ? `(${parts.join(" AND ")})` : "1";
+	return { sql: negate ? `NOT ${sql}` : sql, params };
+}
+
+function legalityCondition(format: string, statuses: string[]): SqlCondition {
+	if (!/^[a-z]+$/.test(format)) {
+		throw badQuery(`"${format}" is not a format`);
+	}
+	return {
+		sql: `json_extract(data, '$.legalities.${format}') IN (${statuses.map(() => "?").join(", ")})`,
+		params: statuses,
+	};
+}
+
+function isNumericKeyword(keyword: string): keyword is NumericKeyword {
+	return (NUMERIC_KEYWORDS as readonly string[]).includes(keyword);
+}
+
+/**
+ * Evaluate a single search term such as "t:creature" or "mv>=3"
+ * @throws ScryfallAPIError (bad_request) for keywords, values or operators
+ * the evaluators don't support
+ */
+export function evaluateTerm<T>(
+	term: QueryTerm,
+	evaluator: TermEvaluator<T>,
+): T {
+	const { keyword, operator: op, value } = term;
+
+	if (!keyword) {
+		return term.exact
+			? evaluator.exactName(value)
+			: evaluator.text("name", term);
+	}
+
+	if (isNumericKeyword(keyword)) {
+		const left = STAT_KEYWORDS[keyword];
+		const right = STAT_KEYWORDS[value.toLowerCase()];
+		if (left && right) {
+			return evaluator.stats(left, op, right);
+		}
+		const number = Number(value);
+		if (value === "" || Number.isNaN(number)) {
+			throw badQuery(`"${term.alias}" needs a number, got "${value}"`);
+		}
+		return evaluator.numeric(keyword, op, number);
+	}
+
+	const equality = op === ":" || op === "=";
+
+	switch (keyword) {
+		case "name":
+		case "type":
+		case "oracle":
+		case "artist":
+			return evaluator.text(keyword, term);
+		case "color":
+			return evaluator.colors(keyword, op === ":" ? ">=" : op, value);
+		case "identity":
+			return evaluator.colors(keyword, op === ":" ? "<=" : op, value);
+		case "rarity": {
+			const rarity = parseRarityValue(value);
+			if (rarity === undefined) {
+				throw badQuery(`"${value}" is not a rarity`);
+			}
+			return evaluator.rarity(op, RARITY_RANKS[rarity]);
+		}
+		case "set":
+			if (!equality) break;
+			return evaluator.set(value.toLowerCase());
+		case "number":
+			if (!equality) break;
+			return evaluator.collectorNumber(value);
+		case "format":
+			return evaluator.legality(value.toLowerCase(), ["legal", "restricted"]);
+		case "banned":
+			return evaluator.legality(value.toLowerCase(), ["banned"]);
+		case "restricted":
+			return evaluator.legality(value.toLowerCase(), ["restricted"]);
+		default:
+			throw badQuery(
+				`"${term.alias}${op}" is not supported ${evaluator.unsupported}`,
+			);
+	}
+
+	throw badQuery(`"${term.alias}" does not support the "${op}" operator`);
+}
+
+// Columns the text keywords search
+const TEXT_COLUMNS: Record<TextKeyword, string> = {
+	name: "name",
+	type: "type_line",
+	oracle: "oracle_text",
+	artist: "json_extract(data, '$.artist')",
+};
+
+const SQL_EVALUATOR: TermEvaluator<SqlCondition> = {
+	unsupported: "by the local card index",
+	exactName: (name) => ({
+		sql: "instr(names, ?) > 0",
+		params: [`\n${name.toLowerCase()}\n`],
+	}),
+	text: (keyword, term) => like(TEXT_COLUMNS[keyword], term.value),
+	numeric: (keyword, op, value) => compare(NUMERIC_COLUMNS[keyword], op, value),
+	stats: compareStats,
+	colors: (keyword, op, value) =>
+		colorCondition(
+			keyword === "color" ? "colors" : "color_identity",
+			op,
+			value,
+		),
+	rarity: (op, rank) => compare(`(${RARITY_RANK_SQL})`, op, rank),
+	set: (code) => ({ sql: "set_code = ?", params: [code] }),
+	collectorNumber: (number) => ({
+		sql: "collector_number = ?",
+		params: [number],
+	}),
+	legality: legalityCondition,
+};
+
+/**
+ * Translate a single search term such as "t:creature" or "mv>=3"
+ */
+function termCondition(term: QueryTerm): SqlCondition {
+	if (term.keyword && term.valueKind === "regex") {
+		throw badQuery(
+			"Regular expressions are not supported by the local card index",
+		);
+	}
+	return evaluateTerm(term, SQL_EVALUATOR);
+}
+
+function nodeCondition(node: QueryNode): SqlCondition {
+	switch (node.type) {
+		case "term":
+			return termCondition(node);
+		case "not": {
+			const child = nodeCondition(node.child);
+			return { sql: `NOT (${child.sql})`, params: child.params };
+		}
+		default: {
+			if (node.children.length === 0) {
+				return { sql: "1", params: [] };
+			}
+			const conditions = node.children.map(nodeCondition);
+			return {
+				sql:
+					conditions.length === 1
+						? conditions[0].sql
+						: `(${conditions.map((condition) => condition.sql).join(node.type === "and" ? " AND " : " OR ")})`,
+				params: conditions.flatMap((condition) => condition.params),
+			};
+		}
+	}
+}
+
+/**
+ * Parse a query for local evaluation, rejecting invalid terms
+ * @throws ScryfallAPIError (bad_request) when the query does not parse or
+ * has a term Scryfall would reject
+ */
+export function parseLocalQuery(query: string): QueryNode {
+	let ast: QueryNode;
+
+	try {
+		ast = parseQuery(query);
+	} catch (error) {
+		if (error instanceof QuerySyntaxError) {
+			throw badQuery(error.message);
+		}
+		throw error;
+	}
+
+	const [problem] = checkQueryTerms(ast).filter(
+		(issue) => issue.severity === "error",
+	);
+	if (problem) {
+		throw badQuery(problem.message);
+	}
+
+	return ast;
+}
+
+/**
+ * Translate a Scryfall search query into a SQL WHERE condition
+ * @param query - Query using Scryfall syntax, e.g. 't:goblin c:r mv<=2'
+ * @returns Condition over the local_cards table, with its bound parameters
+ * @throws ScryfallAPIError (bad_request) for syntax the index can't answer
+ */
+export function translateQuery(query: string): SqlCondition {
+	return nodeCondition(parseLocalQuery(query));
+}
@@ -0,0 +1,196 @@
+import { describe, expect, it } from "vitest";
+import type { ResolvedDecklist } from "./decklist.js";
+import {
+	createPlaytest,
+	drawForTurn,
+	formatPlaytest,
+	keepHand,
+	mulligan,
+	newGame,
+	nextRandom,
+	PlaytestError,
+	shuffle,
+} from "./playtest.js";
+import { mockCard } from "./test-helpers.js";
+
+const bolt = mockCard({
+	name: "Lightning Bolt",
+	mana_cost: "{R}",
+	type_line: "Instant",
+	oracle_text: "Lightning Bolt deals 3 damage to any target.",
+});
+const mountain = mockCard({
+	name: "Mountain",
+	type_line: "Basic Land — Mountain",
+});
+const krenko = mockCard({
+	name: "Krenko, Mob Boss",
+	type_line: "Legendary Creature — Goblin Warrior",
+});
+
+function deck(): ResolvedDecklist {
+	return {
+		cards: [
+			{
+				quantity: 1,
+				name: "Krenko, Mob Boss",
+				section: "commander",
+				line: 1,
+				card: krenko,
+			},
+			{
+				quantity: 20,
+				name: "Lightning Bolt",
+				section: "mainboard",
+				line: 2,
+				card: bolt,
+			},
+			{
+				quantity: 20,
+				name: "Mountain",
+				section: "mainboard",
+				line: 3,
+				card: mountain,
+			},
+			{
+				quantity: 2,
+				name: "Lightning Bolt",
+				section: "sideboard",
+				line: 5,
+				card: bolt,
+			},
+		],
+		unresolved: [],
+		unparsed: [],
+	};
+}
+
+describe("seeded shuffle", () => {
+	const items = Array.from({ length: 20 }, (_, i) => i);
+
+	it("should be reproducible from the seed", () => {
+		expect(shuffle(items, 42)).toEqual(shuffle(items, 42));
+		expect(shuffle(items, 42).items).not.toEqual(shuffle(items, 43).items);
+	});
+
+	it("should keep every item", () => {
+		const { items: shuffled } = shuffle(items, 7);
+		expect([...shuffled].sort((a, b) => a - b)).toEqual(items);
+	});
+
+	it("should produce numbers in [0, 1)", () => {
+		let state = 1;
+		for (let i = 0; i < 100; i++) {
+			const next = nextRandom(state);
+			expect(next.value).toBeGreaterThanOrEqual(0);
+			expect(next.value).toBeLessThan(1);
+			state = next.state;
+		}
+	});
+});
+
+describe("playtest games", () => {
+	it("should load the mainboard into the library and commanders aside", () => {
+		const state = createPlaytest(deck());
+		expect(state.deck).toHaveLength(40);
+		expect(state.commanders).toEqual([krenko.id]);
+		expect(formatPlaytest(state)).toContain(
+			"Deck loaded: 40 cards in the library, 1 in the command zone",
+		);
+	});
+
+	it("should replay the same game from the same seed", () => {
+		const play = (seed: number) => {
+			const game = mulligan(newGame(createPlaytest(deck()), seed));
+			const bottom = game.cards[game.hand[0]].name;
+			return drawForTurn(drawForTurn(keepHand(game, [bottom])).state);
+		};
+
+		expect(play(99)).toEqual(play(99));
+		expect(play(99).state.library).not.toEqual(play(100).state.library);
+	});
+
+	it("should put cards on the bottom after a London mulligan", () => {
+		const game = mulligan(mulligan(newGame(createPlaytest(deck()), 5)));
+		expect(game.hand).toHaveLength(7);
+		expect(game.toBottom).toBe(2);
+
+		expect(() => drawForTurn(game)).toThrow(PlaytestError);
+		expect(() => keepHand(game, ["Mountain"])).toThrow(/exactly 2/);
+
+		const names = game.hand.map((id) => game.cards[id].name);
+		const kept = keepHand(game, names.slice(0, 2));
+		expect(kept.hand).toHaveLength(5);
+		expect(kept.library).toHaveLength(35);
+		expect(kept.library.slice(-2).map((id) => game.cards[id].name)).toEqual(
+			names.slice(0, 2),
+		);
+		expect(kept.toBottom).toBe(0);
+	});
+
+	it("should reject cards that are not in the hand", () => {
+		const game = mulligan(newGame(createPlaytest(deck()), 5));
+		expect(() => keepHand(game, ["Krenko, Mob Boss"])).toThrow(
+			'"Krenko, Mob Boss" is not in the hand',
+		);
+	});
+
+	it("should skip the first draw on the play", () => {
+		const state = createPlaytest(deck());
+
+		const play = drawForTurn(newGame(state, 1));
+		expect(play.drawn).toEqual([]);
+		expect(play.state.turn).toBe(1);
+		expect(drawForTurn(play.state).drawn).toHaveLength(1);
+		expect(drawForTurn(newGame(state, 1), 3).drawn).toHaveLength(2);
+
+		const draw = drawForTurn(newGame(state, 1, true));
+		expect(draw.drawn).toHaveLength(1);
+		expect(draw.state.hand).toHaveLength(8);
+		expect(draw.state.library).toHaveLength(32);
+	});
+
+	it("should only mulligan before the first turn", () => {
+		const { state } = drawForTurn(newGame(createPlaytest(deck()), 1));
+		expect(() => mulligan(state)).toThrow(PlaytestError);
+	});
+
+	it("should not mulligan after keeping the hand", () => {
+		const game = mulligan(newGame(createPlaytest(deck()), 5));
+		const kept = keepHand(game, [game.cards[game.hand[0]].name]);
+		expect(kept.kept).toBe(true);
+		expect(() => mulligan(kept)).toThrow(/already kept/);
+		expect(() => mulligan(keepHand(newGame(kept, 5), []))).toThrow(
+			PlaytestError,
+		);
+		expect(newGame(kept, 6).kept).toBe(false);
+	});
+
+	it("should need a shuffle before playing", () => {
+		expect(() => drawForTurn(createPlaytest(deck()))).toThrow(
+			/playtest_shuffle/,
+		);
+	});
+});
+
+describe("formatPlaytest", () => {
+	it("should show counts and the cards with formatCard", () => {
+		const { state, drawn } = drawForTurn(
+			newGame(createPlaytest(deck()), 3, true),
+		);
+		const text = formatPlaytest(state, drawn);
+
+		expect(text).toContain("# Turn 1 (on the draw, seed 3)");
+		expect(text).toContain("Hand: 8 · Library: 32");
+		expect(text).toContain("**Command zone:** Krenko, Mob Boss");
+		expect(text).toContain("## Drew (1)");
+		expect(text).toContain("## Hand (8)");
+		expect(text).toMatch(/\*\*(Lightning Bolt|Mountain)\*\*/);
+	});
+
+	it("should remind the player to bottom cards", () => {
+		const text = formatPlaytest(mulligan(newGame(createPlaytest(deck()), 3)));
+		expect(text).toContain("Hand: 7 · Library: 33, 1 mulligan");
+		expect(text).toContain("Choose 1 card to put on the bottom");
+	});
+});
@@ -0,0 +1,326 @@
+/**
+ * Goldfish playtesting: shuffle a deck, draw hands, mulligan and draw for turn
+ * Shuffles use a seeded generator, so a game can be replayed from its seed.
+ * The sandbox is kept in Durable Object SQLite storage between tool calls.
+ */
+
+import type { ResolvedDecklist } from "./decklist.js";
+import { formatCard } from "./formatter.js";
+import type { ScryfallCard } from "./types.js";
+
+export const HAND_SIZE = 7;
+
+export class PlaytestError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "PlaytestError";
+	}
+}
+
+export interface PlaytestState {
+	cards: Record<string, ScryfallCard>; // Every card in the deck, by Scryfall ID
+	deck: string[]; // Card IDs of the library before shuffling, one per copy
+	commanders: string[]; // Card IDs in the command zone
+	seed?: number; // Seed of the current game
+	onDraw: boolean; // Whether the current game is on the draw
+	random: number; // Generator state, so draws after a reload stay reproducible
+	library: string[]; // Top card first
+	hand: string[];
+	mulligans: number;
+	toBottom: number; // Cards still to put on the bottom after a mulligan
+	kept: boolean; // Whether the opening hand was kept, which ends mulligans
+	turn: number; // 0 before the first draw for turn
+}
+
+/**
+ * Seeded pseudo-random generator (mulberry32)
+ * @param state - 32-bit generator state; the seed for a new sequence
+ * @returns A number in [0, 1) and the next state
+ */
+export function nextRandom(state: number): { value: number; state: number } {
+	const next = (state + 0x6d2b79f5) >>> 0;
+	let t = next;
+	t = Math.imul(t ^ (t >>> 15), t | 1);
+	t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+	return { value: ((t ^ (t >>> 14)) >>> 0) / 2 ** 32, state: next };
+}
+
+/**
+ * Fisher-Yates shuffle with the seeded generator
+ * @returns The shuffled copy and the generator state after shuffling
+ */
+export function shuffle<T>(
+	items: T[],
+	random: number,
+): { items: T[]; random: number } {
+	const shuffled = [...items];
+	let state = random;
+
+	for (let i = shuffled.length - 1; i > 0; i--) {
+		const next = nextRandom(state);
+		state = next.state;
+		const j = Math.floor(next.value * (i + 1));
+		[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+	}
+
+	return { items: shuffled, random: state };
+}
+
+/**
+ * Set up a sandbox for a resolved deck
+ * The mainboard becomes the library and commanders go to the command zone;
+ * the sideboard and companion are left out.
+ */
+export function createPlaytest(deck: ResolvedDecklist): PlaytestState {
+	const cards: Record<string, ScryfallCard> = {};
+	const copies = (section: string) =>
+		deck.cards
+			.filter((entry) => entry.section === section)
+			.flatMap((entry) => {
+				cards[entry.card.id] = entry.card;
+				return new Array<string>(entry.quantity).fill(entry.card.id);
+			});
+
+	return {
+		cards,
+		deck: copies("mainboard"),
+		commanders: copies("commander"),
+		onDraw: false,
+		random: 0,
+		library: [],
+		hand: [],
+		mulligans: 0,
+		toBottom: 0,
+		kept: false,
+		turn: 0,
+	};
+}
+
+/**
+ * Shuffle the whole deck and draw a new opening hand
+ */
+export function newGame(
+	state: PlaytestState,
+	seed: number,
+	onDraw = false,
+): PlaytestState {
+	if (state.deck.length === 0) {
+		throw new PlaytestError("The deck has no mainboard cards to play");
+	}
+
+	const seed32 = seed >>> 0;
+	const { items, random } = shuffle(state.deck, seed32);
+
+	return {
+		...state,
+		seed: seed32,
+		onDraw,
+		random,
+		library: items.slice(HAND_SIZE),
+		hand: items.slice(0, HAND_SIZE),
+		mulligans: 0,
+		toBottom: 0,
+		kept: false,
+		turn: 0,
+	};
+}
+
+function requireGame(state: PlaytestState): void {
+	if (state.seed === undefined) {
+		throw new PlaytestError(
+			"No game in progress. Shuffle and draw a hand with playtest_shuffle first.",
+		);
+	}
+}
+
+/**
+ * Take a London mulligan: shuffle the hand back, draw seven and owe one more
+ * card to the bottom of the library
+ */
+export function mulligan(state: PlaytestState): PlaytestState {
+	requireGame(state);
+	if (state.kept) {
+		throw new PlaytestError(
+			"The hand was already kept; shuffle a new game with playtest_shuffle to mulligan again",
+		);
+	}
+	if (state.turn > 0) {
+		throw new PlaytestError(
+			"Mulligans are only possible before the first turn",
+		);
+	}
+	if (state.mulligans >= HAND_SIZE - 1) {
+		throw new PlaytestError(
+			`Already mulliganed to ${HAND_SIZE - state.mulligans}; mulliganing again would leave no cards`,
+		);
+	}
+
+	const { items, random } = shuffle(
+		[...state.hand, ...state.library],
+		state.random,
+	);
+	const mulligans = state.mulligans + 1;
+
+	return {
+		...state,
+		random,
+		library: items.slice(HAND_SIZE),
+		hand: items.slice(0, HAND_SIZE),
+		mulligans,
+		toBottom: mulligans,
+	};
+}
+
+/**
+ * Keep the hand after a mulligan, putting the chosen cards on the bottom
+ * @param bottom - Names of the cards to put on the bottom, in order
+ */
+export function keepHand(
+	state: PlaytestState,
+	bottom: string[],
+): PlaytestState {
+	requireGame(state);
+	if (bottom.length !== state.toBottom) {
+		throw new PlaytestError(
+			`Put exactly ${state.toBottom} ${state.toBottom === 1 ? "card" : "cards"} on the bottom, not ${bottom.length}`,
+		);
+	}
+
+	const hand = [...state.hand];
+	const bottomed: string[] = [];
+	for (const name of bottom) {
+		const index = hand.findIndex(
+			(id) => state.cards[id].name.toLowerCase() === name.trim().toLowerCase(),
+		);
+		if (index === -1) {
+			throw new PlaytestError(`"${name}" is not in the hand`);
+		}
+		bottomed.push(...hand.splice(index, 1));
+	}
+
+	return {
+		...state,
+		hand,
+		library: [...state.library, ...bottomed],
+		toBottom: 0,
+		kept: true,
+	};
+}
+
+/**
+ * Start the next turn and draw for it
+ * The player on the play skips the normal draw on turn 1, but still draws
+ * any extra cards.
+ * @param count - Cards to draw, for effects that draw extra
+ * @returns The new state and the IDs of the cards drawn
+ */
+export function drawForTurn(
+	state: PlaytestState,
+	count = 1,
+): { state: PlaytestState; drawn: string[] } {
+	requireGame(state);
+	if (state.toBottom > 0) {
+		throw new PlaytestError(
+			`Choose ${state.toBottom} ${state.toBottom === 1 ? "card" : "cards"} to put on the bottom with playtest_keep first`,
+		);
+	}
+
+	const turn = state.turn + 1;
+	const draws = turn === 1 && !state.onDraw ? count - 1 : count;
+	const drawn = state.library.slice(0, draws);
+
+	return {
+		state: {
+			...state,
+			turn,
+			library: state.library.slice(drawn.length),
+			hand: [...state.hand, ...drawn],
+		},
+		drawn,
+	};
+}
+
+function formatCardList(state: PlaytestState, ids: string[]): string {
+	return ids
+		.map((id) => formatCard(state.cards[id], "minimal"))
+		.join("\n\n---\n\n");
+}
+
+/**
+ * Format the sandbox: counts, the hand and any cards just drawn
+ * @param drawn - Cards drawn by the last action, shown separately
+ */
+export function formatPlaytest(
+	state: PlaytestState,
+	drawn: string[] = [],
+): string {
+	if (state.seed === undefined) {
+		return `Deck loaded: ${state.deck.length} cards in the library${state.commanders.length > 0 ? `, ${state.commanders.length} in the command zone` : ""}. Shuffle and draw a hand with playtest_shuffle.`;
+	}
+
+	const output: string[] = [];
+
+	const mulligans =
+		state.mulligans > 0
+			? `, ${state.mulligans} ${state.mulligans === 1 ? "mulligan" : "mulligans"}`
+			: "";
+	output.push(
+		`# ${state.turn === 0 ? "Opening hand" : `Turn ${state.turn}`} (on the ${state.onDraw ? "draw" : "play"}, seed ${state.seed})`,
+	);
+	output.push(
+		`Hand: ${state.hand.length} · Library: ${state.library.length}${mulligans}`,
+	);
+	if (state.toBottom > 0) {
+		output.push(
+			`⚠️ Choose ${state.toBottom} ${state.toBottom === 1 ? "card" : "cards"} to put on the bottom with playtest_keep.`,
+		);
+	}
+	output.push("");
+
+	if (state.commanders.length > 0) {
+		output.push(
+			`**Command zone:** ${state.commanders.map((id) => state.cards[id].name).join(", ")}`,
+		);
+		output.push("");
+	}
+
+	if (drawn.length > 0) {
+		output.push(`## Drew (${drawn.length})`);
+		output.push(formatCardList(state, drawn));
+		output.push("");
+	} else if (state.turn > 0 && state.library.length === 0) {
+		output.push("The library is empty.");
+		output.push("");
+	}
+
+	output.push(`## Hand (${state.hand.length})`);
+	output.push(formatCardList(state, state.hand));
+
+	return output.join("\n");
+}
+
+/**
+ * Sandbox storage backed by Durable Object SQLite storage
+ * Holds one sandbox per Durable Object, i.e. per MCP session.
+ */
+export class SqlitePlaytestStore {
+	constructor(private sql: SqlStorage) {
+		this.sql.exec(
+			"CREATE TABLE IF NOT EXISTS playtest_state (id INTEGER PRIMARY KEY CHECK (id = 1), state TEXT NOT NULL)",
+		);
+	}
+
+	get(): PlaytestState | undefined {
+		const rows = this.sql
+			.exec<{ state: string }>("SELECT state FROM playtest_state WHERE id = 1")
+			.toArray();
+		return rows.length > 0 ? JSON.parse(rows[0].state) : undefined;
+	}
+
+	set(state: PlaytestState): void {
+		this.sql.exec(
+			"INSERT OR REPLACE INTO playtest_state (id, state) VALUES (1, ?)",
+			JSON.stringify(state),
+		);
+	}
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import {
+	classifyPrinting,
+	formatPrinting,
+	formatPrintings,
+	lowestUsdPrice,
+	selectPrintings,
+} from "./printings.js";
+import { mockCard } from "./test-helpers.js";
+
+const regular = mockCard({
+	name: "Lightning Bolt",
+	set: "m10",
+	set_name: "Magic 2010",
+	collector_number: "146",
+	released_at: "2009-07-17",
+	prices: { usd: "2.50", usd_foil: "12.00" },
+});
+const showcase = mockCard({
+	name: "Lightning Bolt",
+	set: "sld",
+	set_name: "Secret Lair Drop",
+	collector_number: "1000",
+	released_at: "2023-01-01",
+	rarity: "rare",
+	border_color: "borderless",
+	frame_effects: ["showcase"],
+	promo: true,
+	promo_types: ["serialized"],
+	prices: { usd_foil: "40.00" },
+});
+const retro = mockCard({
+	name: "Lightning Bolt",
+	set: "2x2",
+	set_name: "Double Masters 2022",
+	collector_number: "400",
+	released_at: "2022-07-08",
+	frame: "1997",
+	finishes: ["nonfoil", "foil", "etched"],
+	prices: { usd: "1.10" },
+});
+const alpha = mockCard({
+	name: "Lightning Bolt",
+	set: "lea",
+	set_name: "Limited Edition Alpha",
+	released_at: "1993-08-05",
+	frame: "1993",
+	prices: {},
+});
+
+describe("classifyPrinting", () => {
+	it("should find frame, border and promo treatments", () => {
+		expect(classifyPrinting(regular)).toEqual([]);
+		expect(classifyPrinting(showcase)).toEqual([
+			"borderless",
+			"showcase",
+			"promo",
+		]);
+		expect(classifyPrinting(retro)).toEqual(["retro frame", "etched"]);
+	});
+
+	it("should not call original old-frame printings retro", () => {
+		expect(classifyPrinting(alpha)).toEqual([]);
+	});
+
+	it("should recognize extended art and full art", () => {
+		expect(
+			classifyPrinting(
+				mockCard({ frame_effects: ["extendedart"], full_art: true }),
+			),
+		).toEqual(["extended art", "full art"]);
+	});
+});
+
+describe("lowestUsdPrice", () => {
+	it("should use the cheapest finish", () => {
+		expect(lowestUsdPrice(regular)).toBe(2.5);
+		expect(lowestUsdPrice(showcase)).toBe(40);
+		expect(lowestUsdPrice(alpha)).toBeUndefined();
+	});
+});
+
+describe("selectPrintings", () => {
+	const all = [regular, showcase, retro, alpha];
+
+	it("should sort newest first by default", () => {
+		expect(selectPrintings(all).map((card) => card.set)).toEqual([
+			"sld",
+			"2x2",
+			"m10",
+			"lea",
+		]);
+	});
+
+	it("should sort by price with unpriced printings last", () => {
+		expect(
+			selectPrintings(all, { order: "price" }).map((card) => card.set),
+		).toEqual(["2x2", "m10", "sld", "lea"]);
+	});
+
+	it("should filter by treatment", () => {
+		expect(
+			selectPrintings(all, { treatment: "showcase" }).map((card) => card.set),
+		).toEqual(["sld"]);
+	});
+});
+
+describe("formatPrintings", () => {
+	it("should describe each printing", () => {
+		expect(formatPrinting(showcase)).toBe(
+			"- **Secret Lair Drop** (SLD #1000, 2023-01-01) — rare, nonfoil/foil — borderless, showcase, promo (serialized) — $40.00 foil",
+		);
+		expect(formatPrinting(alpha)).toContain("— regular — no prices");
+	});
+
+	it("should show the count and cheapest printing", () => {
+		const text = formatPrintings(
+			"Lightning Bolt",
+			selectPrintings([regular, retro]),
+			4,
+		);
+		expect(text).toContain("# Printings of Lightning Bolt (2)");
+		expect(text).toContain("Cheapest: Double Masters 2022 (2X2 #400) at $1.10");
+	});
+
+	it("should explain when no printing has the treatment", () => {
+		expect(formatPrintings("Lightning Bolt", [], 4, "showcase")).toBe(
+			"# Printings of Lightning Bolt with showcase (0)\n\nNone of the 4 printings with showcase.",
+		);
+	});
+});
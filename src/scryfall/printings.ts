@@ -0,0 +1,160 @@
+/**
+ * Listing and classifying the printings of a card
+ * Treatments are derived from the frame, border and promo fields Scryfall
+ * reports for each printing.
+ */
+
+import type { ScryfallCard } from "./types.js";
+
+export const PRINTING_TREATMENTS = [
+	"borderless",
+	"showcase",
+	"extended art",
+	"retro frame",
+	"full art",
+	"etched",
+	"promo",
+] as const;
+
+export type PrintingTreatment = (typeof PRINTING_TREATMENTS)[number];
+
+export type PrintingOrder = "released" | "price";
+
+// Eighth Edition introduced the modern frame; older frames after it are retro
+const MODERN_FRAME_DATE = "2003-07-28";
+
+/**
+ * Classify a printing by its visual and promotional treatments
+ * @returns The treatments that apply, empty for a regular printing
+ */
+export function classifyPrinting(card: ScryfallCard): PrintingTreatment[] {
+	const effects = card.frame_effects ?? [];
+	const treatments: PrintingTreatment[] = [];
+
+	if (card.border_color === "borderless") treatments.push("borderless");
+	if (effects.includes("showcase")) treatments.push("showcase");
+	if (effects.includes("extendedart")) treatments.push("extended art");
+	if (
+		(card.frame === "1993" || card.frame === "1997") &&
+		card.released_at >= MODERN_FRAME_DATE
+	) {
+		treatments.push("retro frame");
+	}
+	if (card.full_art) treatments.push("full art");
+	if (effects.includes("etched") || card.finishes.includes("etched")) {
+		treatments.push("etched");
+	}
+	if (card.promo || (card.promo_types?.length ?? 0) > 0) {
+		treatments.push("promo");
+	}
+
+	return treatments;
+}
+
+/**
+ * Lowest USD price of a printing across its finishes
+ */
+export function lowestUsdPrice(card: ScryfallCard): number | undefined {
+	const prices = [card.prices.usd, card.prices.usd_foil, card.prices.usd_etched]
+		.filter((price): price is string => typeof price === "string")
+		.map(Number.parseFloat)
+		.filter((price) => !Number.isNaN(price));
+
+	return prices.length > 0 ? Math.min(...prices) : undefined;
+}
+
+/**
+ * Filter printings to one treatment and sort them
+ * Price order is cheapest first, with unpriced printings last.
+ */
+export function selectPrintings(
+	printings: ScryfallCard[],
+	options: { treatment?: PrintingTreatment; order?: PrintingOrder } = {},
+): ScryfallCard[] {
+	const { treatment, order = "released" } = options;
+	const selected = treatment
+		? printings.filter((card) => classifyPrinting(card).includes(treatment))
+		: [...printings];
+
+	if (order === "price") {
+		selected.sort(
+			(a, b) =>
+				(lowestUsdPrice(a) ?? Number.POSITIVE_INFINITY) -
+				(lowestUsdPrice(b) ?? Number.POSITIVE_INFINITY),
+		);
+	} else {
+		selected.sort((a, b) => b.released_at.localeCompare(a.released_at));
+	}
+
+	return selected;
+}
+
+function formatPrices(card: ScryfallCard): string {
+	const { prices } = card;
+	const parts: string[] = [];
+
+	if (prices.usd) parts.push(`$${prices.usd}`);
+	if (prices.usd_foil) parts.push(`$${prices.usd_foil} foil`);
+	if (prices.usd_etched) parts.push(`$${prices.usd_etched} etched`);
+	if (prices.eur) parts.push(`€${prices.eur}`);
+	if (prices.eur_foil) parts.push(`€${prices.eur_foil} foil`);
+	if (prices.tix) parts.push(`${prices.tix} tix`);
+
+	return parts.length > 0 ? parts.join(" / ") : "no prices";
+}
+
+/**
+ * Format one printing as a list item
+ */
+export function formatPrinting(card: ScryfallCard): string {
+	const treatments = classifyPrinting(card);
+	const promoTypes = card.promo_types?.length
+		? ` (${card.promo_types.join(", ")})`
+		: "";
+	const treatment =
+		treatments.length > 0
+			? treatments
+					.map((label) => (label === "promo" ? `promo${promoTypes}` : label))
+					.join(", ")
+			: "regular";
+	const digital = card.digital ? ", digital" : "";
+
+	return `- **${card.set_name}** (${card.set.toUpperCase()} #${card.collector_number}, ${card.released_at}) — ${card.rarity}, ${card.finishes.join("/")}${digital} — ${treatment} — ${formatPrices(card)}`;
+}
+
+/**
+ * Format a list of printings for tool output
+ * @param total - Printings before filtering, to show how many were left out
+ */
+export function formatPrintings(
+	name: string,
+	printings: ScryfallCard[],
+	total: number,
+	treatment?: PrintingTreatment,
+): string {
+	const output: string[] = [];
+	const filter = treatment ? ` with ${treatment}` : "";
+
+	output.push(`# Printings of ${name}${filter} (${printings.length})`);
+
+	if (printings.length === 0) {
+		output.push("");
+		output.push(`None of the ${total} printings${filter}.`);
+		return output.join("\n");
+	}
+
+	const cheapest = selectPrintings(printings, { order: "price" })[0];
+	const cheapestPrice = lowestUsdPrice(cheapest);
+	if (cheapestPrice !== undefined) {
+		output.push(
+			`Cheapest: ${cheapest.set_name} (${cheapest.set.toUpperCase()} #${cheapest.collector_number}) at $${cheapestPrice.toFixed(2)}`,
+		);
+	}
+	output.push("");
+
+	for (const card of printings) {
+		output.push(formatPrinting(card));
+	}
+
+	return output.join("\n");
+}
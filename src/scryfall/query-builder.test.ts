@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { buildQuery, normalizeColors } from "./query-builder.js";
+import { validateQuery } from "./query-parser.js";
+
+describe("normalizeColors", () => {
+	it("should combine letters and names in WUBRG order", () => {
+		expect(normalizeColors(["red", "u"])).toBe("ur");
+		expect(normalizeColors(["azorius", "g"])).toBe("wug");
+	});
+
+	it("should return c for colorless and undefined for unknown colors", () => {
+		expect(normalizeColors(["colorless"])).toBe("c");
+		expect(normalizeColors(["purple"])).toBeUndefined();
+	});
+});
+
+describe("buildQuery", () => {
+	it("should compile colors with their comparison mode", () => {
+		expect(buildQuery({ colors: ["red"] })).toBe("c>=r");
+		expect(buildQuery({ colors: ["u", "r"], colorMatch: "exactly" })).toBe(
+			"c=ur",
+		);
+		expect(buildQuery({ identity: ["golgari"] })).toBe("id<=bg");
+		expect(buildQuery({ identity: ["c"], identityMatch: "exactly" })).toBe(
+			"id=c",
+		);
+	});
+
+	it("should compile ranges, using = when min and max match", () => {
+		expect(buildQuery({ manaValue: { min: 3, max: 3 } })).toBe("mv=3");
+		expect(buildQuery({ power: { min: 4 }, toughness: { max: 2 } })).toBe(
+			"pow>=4 tou<=2",
+		);
+	});
+
+	it("should quote multi-word values", () => {
+		expect(
+			buildQuery({
+				types: ["legendary creature"],
+				oracle: ["draw a card"],
+				keywords: ["first strike"],
+			}),
+		).toBe('t:"legendary creature" o:"draw a card" kw:"first strike"');
+	});
+
+	it("should OR rarities and AND everything else", () => {
+		expect(
+			buildQuery({
+				types: ["creature"],
+				excludeTypes: ["legendary"],
+				formats: ["modern", "pauper"],
+				rarity: ["rare", "mythic"],
+				set: "MH3",
+				maxUsd: 5,
+				is: ["spell"],
+				not: ["reprint"],
+			}),
+		).toBe(
+			"t:creature -t:legendary f:modern f:pauper (r:rare or r:mythic) s:mh3 usd<=5 is:spell -is:reprint",
+		);
+	});
+
+	it("should produce queries the validator accepts", () => {
+		const query = buildQuery({
+			colors: ["g"],
+			identity: ["simic"],
+			types: ["creature"],
+			manaValue: { min: 2, max: 4 },
+			oracle: ["enters the battlefield"],
+			keywords: ["trample"],
+			formats: ["commander"],
+			rarity: ["uncommon", "rare"],
+			maxEur: 2,
+			maxTix: 1,
+			is: ["commander"],
+		});
+		expect(validateQuery(query).valid).toBe(true);
+	});
+
+	it("should reject empty criteria and unknown colors", () => {
+		expect(() => buildQuery({})).toThrow("at least one");
+		expect(() => buildQuery({ colors: ["purple"] })).toThrow("Unknown color");
+	});
+});
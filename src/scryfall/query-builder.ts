@@ -0,0 +1,151 @@
+/**
+ * Compile structured search criteria into Scryfall query syntax
+ * Lets callers describe a search with typed parameters instead of writing
+ * free-text syntax, and shows them the query that was produced.
+ */
+
+import { parseColorValue } from "./query-parser.js";
+
+// How a card's colors must relate to the requested colors
+export type ColorMatch = "exactly" | "including" | "at_most";
+
+export interface NumberRange {
+	min?: number;
+	max?: number;
+}
+
+export interface QueryCriteria {
+	colors?: string[]; // Letters (w, u, b, r, g, c) or names such as "red" or "azorius"
+	colorMatch?: ColorMatch; // Defaults to "including"
+	identity?: string[];
+	identityMatch?: ColorMatch; // Defaults to "at_most", as for Commander
+	types?: string[];
+	excludeTypes?: string[];
+	manaValue?: NumberRange;
+	power?: NumberRange;
+	toughness?: NumberRange;
+	oracle?: string[]; // Phrases that must all appear in the rules text
+	keywords?: string[]; // Keyword abilities, e.g. flying
+	formats?: string[]; // Legal in every listed format
+	rarity?: string[]; // Any of the listed rarities
+	set?: string;
+	maxUsd?: number;
+	maxEur?: number;
+	maxTix?: number;
+	is?: string[];
+	not?: string[];
+}
+
+const COLOR_OPERATORS: Record<ColorMatch, string> = {
+	exactly: "=",
+	including: ">=",
+	at_most: "<=",
+};
+
+/**
+ * Quote a value when it contains anything but letters, digits, - and '
+ */
+function quote(value: string): string {
+	const cleaned = value.replace(/"/g, "").trim();
+	return /^[\w'-]+$/.test(cleaned) ? cleaned : `"${cleaned}"`;
+}
+
+/**
+ * Combine color letters and names into one WUBRG-ordered string
+ * @returns Letters such as "ur", "c" for colorless, or undefined if any value
+ * is not a color
+ */
+export function normalizeColors(values: string[]): string | undefined {
+	let letters = "";
+
+	for (const value of values) {
+		const parsed = parseColorValue(value.trim());
+		if (parsed === undefined) return undefined;
+		if (parsed !== "c") letters += parsed;
+	}
+
+	const ordered = [..."wubrg"].filter((letter) => letters.includes(letter));
+	return ordered.length > 0 ? ordered.join("") : "c";
+}
+
+function colorTerm(
+	keyword: "c" | "id",
+	values: string[],
+	match: ColorMatch,
+): string {
+	const letters = normalizeColors(values);
+	if (letters === undefined) {
+		throw new Error(
+			`Unknown color in ${JSON.stringify(values)}; use w, u, b, r, g, c or names like "red" or "azorius"`,
+		);
+	}
+	return `${keyword}${COLOR_OPERATORS[match]}${letters}`;
+}
+
+function rangeTerms(keyword: string, range?: NumberRange): string[] {
+	if (!range) return [];
+	if (range.min !== undefined && range.min === range.max) {
+		return [`${keyword}=${range.min}`];
+	}
+
+	const terms: string[] = [];
+	if (range.min !== undefined) terms.push(`${keyword}>=${range.min}`);
+	if (range.max !== undefined) terms.push(`${keyword}<=${range.max}`);
+	return terms;
+}
+
+/**
+ * Build a Scryfall query from structured criteria
+ * Terms are combined with AND, except rarities, which match any of the list.
+ * @throws Error when no criteria are given or a color is not recognized
+ */
+export function buildQuery(criteria: QueryCriteria): string {
+	const terms: string[] = [];
+
+	if (criteria.colors?.length) {
+		terms.push(
+			colorTerm("c", criteria.colors, criteria.colorMatch ?? "including"),
+		);
+	}
+	if (criteria.identity?.length) {
+		terms.push(
+			colorTerm("id", criteria.identity, criteria.identityMatch ?? "at_most"),
+		);
+	}
+
+	for (const type of criteria.types ?? []) terms.push(`t:${quote(type)}`);
+	for (const type of criteria.excludeTypes ?? []) {
+		terms.push(`-t:${quote(type)}`);
+	}
+
+	terms.push(...rangeTerms("mv", criteria.manaValue));
+	terms.push(...rangeTerms("pow", criteria.power));
+	terms.push(...rangeTerms("tou", criteria.toughness));
+
+	for (const phrase of criteria.oracle ?? []) terms.push(`o:${quote(phrase)}`);
+	for (const keyword of criteria.keywords ?? []) {
+		terms.push(`kw:${quote(keyword)}`);
+	}
+	for (const format of criteria.formats ?? []) terms.push(`f:${format}`);
+
+	if (criteria.rarity?.length) {
+		const rarities = criteria.rarity.map((rarity) => `r:${rarity}`);
+		terms.push(
+			rarities.length === 1 ? rarities[0] : `(${rarities.join(" or ")})`,
+		);
+	}
+
+	if (criteria.set) terms.push(`s:${quote(criteria.set.toLowerCase())}`);
+	if (criteria.maxUsd !== undefined) terms.push(`usd<=${criteria.maxUsd}`);
+	if (criteria.maxEur !== undefined) terms.push(`eur<=${criteria.maxEur}`);
+	if (criteria.maxTix !== undefined) terms.push(`tix<=${criteria.maxTix}`);
+
+	for (const flag of criteria.is ?? []) terms.push(`is:${quote(flag)}`);
+	for (const flag of criteria.not ?? []) terms.push(`-is:${quote(flag)}`);
+
+	if (terms.length === 0) {
+		throw new Error("Give at least one search criterion");
+	}
+
+	return terms.join(" ");
+}
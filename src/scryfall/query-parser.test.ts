@@ -0,0 +1,252 @@
+import { describe, expect, it } from "vitest";
+import {
+	checkQueryTerms,
+	explainQuery,
+	formatQueryValidation,
+	parseQuery,
+	QuerySyntaxError,
+	validateQuery,
+} from "./query-parser.js";
+
+describe("parseQuery", () => {
+	it("should parse keywords, operators and values", () => {
+		expect(parseQuery("mv>=3")).toMatchObject({
+			type: "term",
+			keyword: "manavalue",
+			alias: "mv",
+			operator: ">=",
+			value: "3",
+			valueKind: "word",
+		});
+	});
+
+	it("should treat terms as AND by default", () => {
+		const ast = parseQuery("t:elf c:g");
+		expect(ast.type).toBe("and");
+		if (ast.type === "and") {
+			expect(ast.children).toHaveLength(2);
+		}
+	});
+
+	it("should bind AND tighter than OR", () => {
+		const ast = parseQuery("t:elf c:g or t:goblin");
+		expect(ast.type).toBe("or");
+		if (ast.type === "or") {
+			expect(ast.children[0].type).toBe("and");
+			expect(ast.children[1]).toMatchObject({
+				keyword: "type",
+				value: "goblin",
+			});
+		}
+	});
+
+	it("should parse groups, negation, quotes and regexes", () => {
+		const ast = parseQuery(
+			'-(t:elf or o:"draw a card") name:/^bolt (of|the)$/',
+		);
+
+		expect(ast).toMatchObject({
+			type: "and",
+			children: [
+				{
+					type: "not",
+					child: {
+						type: "or",
+						children: [
+							{ keyword: "type", value: "elf" },
+							{ keyword: "oracle", value: "draw a card", valueKind: "quoted" },
+						],
+					},
+				},
+				{ keyword: "name", value: "^bolt (of|the)$", valueKind: "regex" },
+			],
+		});
+	});
+
+	it("should parse negated terms and exact names", () => {
+		expect(parseQuery("-t:land")).toMatchObject({
+			type: "not",
+			child: { keyword: "type", value: "land", start: 1 },
+		});
+		expect(parseQuery('!"Fire // Ice"')).toMatchObject({
+			exact: true,
+			value: "Fire // Ice",
+		});
+	});
+
+	it.each([
+		["(t:elf", "Missing closing parenthesis", 0],
+		["t:elf)", "Unbalanced closing parenthesis", 5],
+		['o:"draw', "Unclosed quotation mark", 2],
+		["name:/bolt", "Unclosed regular expression", 5],
+		["t:elf or", "needs a search term on both sides", 6],
+		["or t:elf", "needs a search term on both sides", 0],
+		["t: elf", "Missing value", 0],
+		["t:elf ()", "Empty parentheses", 6],
+	])("should reject %s at the offending token", (query, message, position) => {
+		try {
+			parseQuery(query);
+			expect.fail("Should have thrown an error");
+		} catch (error) {
+			expect(error).toBeInstanceOf(QuerySyntaxError);
+			if (error instanceof QuerySyntaxError) {
+				expect(error.message).toContain(message);
+				expect(error.position).toBe(position);
+				expect(error.suggestion).toBeTruthy();
+			}
+		}
+	});
+});
+
+describe("validateQuery", () => {
+	it("should accept valid queries", () => {
+		const result = validateQuery("t:creature c:rg pow>tou f:modern r>=rare");
+		expect(result.valid).toBe(true);
+		expect(result.issues).toEqual([]);
+	});
+
+	it("should report non-numeric stats with a suggestion", () => {
+		const result = validateQuery("t:creature pow>=x");
+
+		expect(result.valid).toBe(false);
+		expect(result.issues[0]).toMatchObject({
+			severity: "error",
+			position: 11,
+			token: "pow>=x",
+		});
+		expect(result.issues[0].message).toContain("needs a number");
+		expect(result.issues[0].message).toContain("can't be compared");
+		expect(result.issues[0].suggestion).toBe("pow>=3");
+	});
+
+	it("should only suggest fixes that pass the same checks", () => {
+		for (const query of [
+			"pow>=x",
+			"tou<y",
+			"mv>=two",
+			"tpye:elf",
+			"f:moden",
+			"r:mythc",
+			"c:purpel",
+			"t>=creature",
+			"kw:/fly/",
+			"border:blak",
+			"game:arenna",
+		]) {
+			const { suggestion } = validateQuery(query).issues[0];
+			expect(suggestion, query).toBeDefined();
+			expect(
+				checkQueryTerms(parseQuery(suggestion ?? "")),
+				`${query} → ${suggestion}`,
+			).toEqual([]);
+		}
+	});
+
+	it("should keep the operator when quoting an unknown keyword", () => {
+		expect(validateQuery("produces:g").issues[0].suggestion).toContain(
+			'"produces:g"',
+		);
+	});
+
+	it("should suggest the keyword that was probably meant", () => {
+		const result = validateQuery("tpye:elf");
+
+		expect(result.issues[0].message).toBe('Unknown keyword "tpye"');
+		expect(result.issues[0].suggestion).toBe("type:elf");
+	});
+
+	it("should suggest close values", () => {
+		expect(validateQuery("f:moden").issues[0].suggestion).toBe("f:modern");
+		expect(validateQuery("r:mythc").issues[0].suggestion).toBe("r:mythic");
+		expect(validateQuery("c:purple").issues[0].message).toBe(
+			'"purple" is not a color',
+		);
+	});
+
+	it("should reject operators a keyword doesn't support", () => {
+		const result = validateQuery("t>=creature");
+		expect(result.valid).toBe(false);
+		expect(result.issues[0].suggestion).toBe("t:creature");
+	});
+
+	it("should only warn about unknown is: values", () => {
+		const result = validateQuery("is:newthing");
+		expect(result.valid).toBe(true);
+		expect(result.issues[0].severity).toBe("warning");
+	});
+
+	it("should reject an empty query", () => {
+		expect(validateQuery("  ").valid).toBe(false);
+	});
+});
+
+describe("explainQuery", () => {
+	it("should describe terms in plain English", () => {
+		expect(explainQuery(parseQuery("t:elf mv<=2 c:rg"))).toBe(
+			'type line contains "elf" and mana value is at most 2 and colors include red and green',
+		);
+	});
+
+	it("should describe identity, OR and negation", () => {
+		expect(explainQuery(parseQuery("id:azorius (t:elf or -f:modern)"))).toBe(
+			'color identity fits within white and blue and (type line contains "elf" or not (legal in modern))',
+		);
+	});
+
+	it("should word is:, game: and other value keywords", () => {
+		expect(explainQuery(parseQuery("is:commander"))).toBe(
+			"the card is commander",
+		);
+		expect(explainQuery(parseQuery("-not:reprint"))).toBe(
+			"not (the card is not reprint)",
+		);
+		expect(explainQuery(parseQuery("game:arena border:black"))).toBe(
+			"available in arena and border color is black",
+		);
+		expect(explainQuery(parseQuery("has:watermark in:lea"))).toBe(
+			"has a watermark and ever printed in lea",
+		);
+	});
+
+	it("should name the other stat in stat comparisons", () => {
+		expect(explainQuery(parseQuery("pow>tou loy>=3"))).toBe(
+			"power is greater than toughness and loyalty is at least 3",
+		);
+	});
+
+	it("should describe colorless cards", () => {
+		expect(explainQuery(parseQuery("c:c"))).toBe("the card is colorless");
+		expect(explainQuery(parseQuery("id:colorless"))).toBe(
+			"color identity is colorless",
+		);
+		expect(explainQuery(parseQuery("c!=c"))).toBe("the card is not colorless");
+		expect(explainQuery(parseQuery("id>c"))).toBe(
+			"color identity has one or more colors",
+		);
+	});
+
+	it("should describe set codes as exact matches", () => {
+		expect(explainQuery(parseQuery("e:MH3 cn>=100"))).toBe(
+			"set is mh3 and collector number is at least 100",
+		);
+		expect(explainQuery(parseQuery("st:masters"))).toBe("set type is masters");
+	});
+});
+
+describe("formatQueryValidation", () => {
+	it("should point at the offending token", () => {
+		const query = "t:creature pow>=x";
+		const output = formatQueryValidation(query, validateQuery(query));
+
+		expect(output).toContain("❌ Invalid query");
+		expect(output).toContain(`${query}\n           ^^^^^^`);
+		expect(output).toContain("Suggestion: pow>=3");
+	});
+
+	it("should explain valid queries", () => {
+		const output = formatQueryValidation("t:elf", validateQuery("t:elf"));
+
+		expect(output).toContain("✅ Valid query");
+		expect(output).toContain('Matches cards where type line contains "elf".');
+	});
+});
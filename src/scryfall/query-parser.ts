@@ -0,0 +1,1284 @@
+/**
+ * Scryfall search query parser
+ * Turns the syntax described in docs/scryfall-search-syntax.md into a typed
+ * AST, checks keywords, operators and values before anything is sent to
+ * Scryfall, and explains what a query will match in plain English.
+ */
+
+export type QueryOperator = ":" | "=" | "!=" | "<" | "<=" | ">" | ">=";
+
+export type QueryValueKind = "word" | "quoted" | "regex";
+
+export interface QueryTerm {
+	type: "term";
+	keyword?: string; // Canonical keyword (e.g. "type" for t:); undefined for bare words
+	alias?: string; // Keyword as written in the query
+	operator: QueryOperator; // ":" for bare words
+	value: string; // Without quotes or regex slashes
+	valueKind: QueryValueKind;
+	exact: boolean; // !"name" exact name match
+	start: number; // Offset of the term in the query
+	end: number;
+}
+
+export type QueryNode =
+	| QueryTerm
+	| { type: "and"; children: QueryNode[] }
+	| { type: "or"; children: QueryNode[] }
+	| { type: "not"; child: QueryNode };
+
+export interface QueryIssue {
+	severity: "error" | "warning";
+	message: string;
+	position: number; // Offset of the offending token in the query
+	token: string;
+	suggestion?: string;
+}
+
+export interface QueryValidation {
+	valid: boolean;
+	ast?: QueryNode; // Present unless the query could not be parsed at all
+	issues: QueryIssue[];
+}
+
+export class QuerySyntaxError extends Error {
+	constructor(
+		message: string,
+		public position: number,
+		public token: string,
+		public suggestion?: string,
+	) {
+		super(message);
+		this.name = "QuerySyntaxError";
+	}
+}
+
+type ValueType =
+	| "text"
+	| "color"
+	| "number"
+	| "stat"
+	| "rarity"
+	| "format"
+	| "enum"
+	| "any";
+
+interface KeywordSpec {
+	aliases: string[];
+	label: string; // Plain-English name used by explainQuery
+	phrase?: boolean; // The label reads straight into the value, e.g. "legal in"
+	exact?: boolean; // Matches a whole code or name, not part of the text
+	values: ValueType;
+	ordered?: boolean; // Accepts <, <=, >, >= and !=
+	regex?: boolean; // Accepts /regular expressions/
+	options?: readonly string[]; // Allowed values for enum keywords
+	strictOptions?: boolean; // Unknown options are errors rather than warnings
+}
+
+export const FORMATS = [
+	"standard",
+	"future",
+	"historic",
+	"timeless",
+	"gladiator",
+	"pioneer",
+	"explorer",
+	"modern",
+	"legacy",
+	"pauper",
+	"vintage",
+	"penny",
+	"commander",
+	"oathbreaker",
+	"standardbrawl",
+	"brawl",
+	"alchemy",
+	"paupercommander",
+	"duel",
+	"oldschool",
+	"premodern",
+	"predh",
+] as const;
+
+export const RARITIES = [
+	"common",
+	"uncommon",
+	"rare",
+	"special",
+	"mythic",
+	"bonus",
+] as const;
+
+const RARITY_ABBREVIATIONS: Record<string, string> = {
+	c: "common",
+	u: "uncommon",
+	r: "rare",
+	s: "special",
+	m: "mythic",
+	b: "bonus",
+};
+
+// is: and not: values from the syntax reference; others only warn, since
+// Scryfall adds new ones regularly
+export const IS_VALUES = [
+	"bikeland",
+	"bounceland",
+	"checkland",
+	"dual",
+	"fetchland",
+	"gainland",
+	"filterland",
+	"painland",
+	"scryland",
+	"shockland",
+	"storageland",
+	"tangoland",
+	"triland",
+	"fastland",
+	"slowland",
+	"masterpiece",
+	"colorshifted",
+	"timeshifted",
+	"futureshifted",
+	"reserved",
+	"booster",
+	"funny",
+	"full",
+	"hybrid",
+	"phyrexian",
+	"split",
+	"flip",
+	"transform",
+	"meld",
+	"mdfc",
+	"dfc",
+	"leveler",
+	"commander",
+	"brawler",
+	"companion",
+	"prerelease",
+	"fnm",
+	"release",
+	"promo",
+	"foil",
+	"nonfoil",
+	"etched",
+	"glossy",
+	"hires",
+	"digital",
+	"spotlight",
+	"scryfallpreview",
+	"reprint",
+	"unique",
+	"firstprint",
+	"spell",
+	"permanent",
+	"historic",
+	"party",
+	"modal",
+	"vanilla",
+	"frenchvanilla",
+	"bear",
+	"token",
+	"fullart",
+	"textless",
+] as const;
+
+const KEYWORDS: Record<string, KeywordSpec> = {
+	name: { aliases: ["name", "n"], label: "name", values: "text", regex: true },
+	color: {
+		aliases: ["c", "color", "colors"],
+		label: "colors",
+		values: "color",
+		ordered: true,
+	},
+	identity: {
+		aliases: ["id", "identity", "ci"],
+		label: "color identity",
+		values: "color",
+		ordered: true,
+	},
+	type: {
+		aliases: ["t", "type"],
+		label: "type line",
+		values: "text",
+		regex: true,
+	},
+	oracle: {
+		aliases: ["o", "oracle"],
+		label: "oracle text",
+		values: "text",
+		regex: true,
+	},
+	fulloracle: {
+		aliases: ["fo", "fulloracle"],
+		label: "full oracle text",
+		values: "text",
+		regex: true,
+	},
+	keyword: { aliases: ["kw", "keyword"], label: "keywords", values: "text" },
+	mana: {
+		aliases: ["m", "mana"],
+		label: "mana cost",
+		values: "any",
+		ordered: true,
+	},
+	manavalue: {
+		aliases: ["mv", "manavalue", "cmc"],
+		label: "mana value",
+		values: "number",
+		ordered: true,
+	},
+	power: {
+		aliases: ["pow", "power"],
+		label: "power",
+		values: "stat",
+		ordered: true,
+	},
+	toughness: {
+		aliases: ["tou", "toughness"],
+		label: "toughness",
+		values: "stat",
+		ordered: true,
+	},
+	powtou: {
+		aliases: ["pt", "powtou"],
+		label: "power plus toughness",
+		values: "any",
+		ordered: true,
+	},
+	loyalty: {
+		aliases: ["loy", "loyalty"],
+		label: "loyalty",
+		values: "stat",
+		ordered: true,
+	},
+	rarity: {
+		aliases: ["r", "rarity"],
+		label: "rarity",
+		values: "rarity",
+		ordered: true,
+	},
+	new: {
+		aliases: ["new"],
+		label: "first printing with a new",
+		phrase: true,
+		values: "enum",
+		options: ["rarity", "art", "artist", "flavor", "frame", "language"],
+		strictOptions: true,
+	},
+	in: {
+		aliases: ["in"],
+		label: "ever printed in",
+		phrase: true,
+		values: "any",
+	},
+	set: {
+		aliases: ["s", "e", "set", "edition"],
+		label: "set",
+		values: "text",
+		exact: true,
+	},
+	number: {
+		aliases: ["cn", "number"],
+		label: "collector number",
+		values: "any",
+		ordered: true,
+	},
+	block: {
+		aliases: ["b", "block"],
+		label: "block",
+		values: "text",
+		exact: true,
+	},
+	settype: {
+		aliases: ["st"],
+		label: "set type",
+		values: "text",
+		exact: true,
+	},
+	format: {
+		aliases: ["f", "format", "legal"],
+		label: "legal in",
+		phrase: true,
+		values: "format",
+	},
+	banned: {
+		aliases: ["banned"],
+		label: "banned in",
+		phrase: true,
+		values: "format",
+	},
+	restricted: {
+		aliases: ["restricted"],
+		label: "restricted in",
+		phrase: true,
+		values: "format",
+	},
+	is: {
+		aliases: ["is"],
+		label: "the card is",
+		phrase: true,
+		values: "enum",
+		options: IS_VALUES,
+	},
+	not: {
+		aliases: ["not"],
+		label: "the card is not",
+		phrase: true,
+		values: "enum",
+		options: IS_VALUES,
+	},
+	usd: {
+		aliases: ["usd"],
+		label: "USD price",
+		values: "number",
+		ordered: true,
+	},
+	eur: {
+		aliases: ["eur"],
+		label: "EUR price",
+		values: "number",
+		ordered: true,
+	},
+	tix: {
+		aliases: ["tix"],
+		label: "MTGO ticket price",
+		values: "number",
+		ordered: true,
+	},
+	cheapest: {
+		aliases: ["cheapest"],
+		label: "cheapest printing by",
+		phrase: true,
+		values: "any",
+	},
+	artist: { aliases: ["a", "artist"], label: "artist", values: "text" },
+	flavor: {
+		aliases: ["ft", "flavor"],
+		label: "flavor text",
+		values: "text",
+		regex: true,
+	},
+	watermark: {
+		aliases: ["wm", "watermark"],
+		label: "watermark",
+		values: "text",
+	},
+	has: { aliases: ["has"], label: "has a", phrase: true, values: "any" },
+	border: {
+		aliases: ["border"],
+		label: "border color",
+		values: "enum",
+		options: ["black", "white", "silver", "borderless", "gold", "yellow"],
+		strictOptions: true,
+	},
+	frame: { aliases: ["frame"], label: "frame", values: "any" },
+	stamp: {
+		aliases: ["stamp"],
+		label: "security stamp",
+		values: "enum",
+		options: ["oval", "acorn", "triangle", "arena", "heart", "circle"],
+		strictOptions: true,
+	},
+	game: {
+		aliases: ["game"],
+		label: "available in",
+		phrase: true,
+		values: "enum",
+		options: ["paper", "mtgo", "arena"],
+		strictOptions: true,
+	},
+	year: {
+		aliases: ["year"],
+		label: "release year",
+		values: "number",
+		ordered: true,
+	},
+	date: {
+		aliases: ["date"],
+		label: "release date",
+		values: "any",
+		ordered: true,
+	},
+	prints: {
+		aliases: ["prints"],
+		label: "number of printings",
+		values: "number",
+		ordered: true,
+	},
+	sets: {
+		aliases: ["sets"],
+		label: "number of sets",
+		values: "number",
+		ordered: true,
+	},
+	paperprints: {
+		aliases: ["paperprints"],
+		label: "number of paper printings",
+		values: "number",
+		ordered: true,
+	},
+	papersets: {
+		aliases: ["papersets"],
+		label: "number of paper sets",
+		values: "number",
+		ordered: true,
+	},
+	lang: { aliases: ["lang", "language"], label: "language", values: "any" },
+	unique: {
+		aliases: ["unique"],
+		label: "one result per",
+		phrase: true,
+		values: "enum",
+		options: ["cards", "prints", "art"],
+		strictOptions: true,
+	},
+	display: {
+		aliases: ["display"],
+		label: "display",
+		values: "enum",
+		options: ["grid", "checklist", "full", "text"],
+		strictOptions: true,
+	},
+	order: {
+		aliases: ["order"],
+		label: "sorted by",
+		phrase: true,
+		values: "enum",
+		options: [
+			"name",
+			"set",
+			"released",
+			"rarity",
+			"color",
+			"usd",
+			"tix",
+			"eur",
+			"cmc",
+			"power",
+			"toughness",
+			"edhrec",
+			"penny",
+			"artist",
+			"review",
+		],
+		strictOptions: true,
+	},
+	direction: {
+		aliases: ["direction"],
+		label: "sort direction",
+		values: "enum",
+		options: ["asc", "desc", "auto"],
+		strictOptions: true,
+	},
+	prefer: {
+		aliases: ["prefer"],
+		label: "preferring the printing that is",
+		phrase: true,
+		values: "enum",
+		options: [
+			"oldest",
+			"newest",
+			"usd-low",
+			"usd-high",
+			"eur-low",
+			"eur-high",
+			"tix-low",
+			"tix-high",
+			"promo",
+			"default",
+			"atypical",
+		],
+		strictOptions: true,
+	},
+};
+
+// Alias (e.g. "t") to canonical keyword (e.g. "type")
+const KEYWORD_ALIASES = new Map(
+	Object.entries(KEYWORDS).flatMap(([canonical, spec]) =>
+		spec.aliases.map((alias) => [alias, canonical] as const),
+	),
+);
+
+const STAT_ALIASES = ["pow", "power", "tou", "toughness", "loy", "loyalty"];
+
+export const COLOR_NAMES: Record<string, string> = {
+	w: "white",
+	u: "blue",
+	b: "black",
+	r: "red",
+	g: "green",
+};
+
+// Named color combinations, as color letters
+export const COLOR_GROUPS: Record<string, string> = {
+	white: "w",
+	blue: "u",
+	black: "b",
+	red: "r",
+	green: "g",
+	colorless: "c",
+	azorius: "wu",
+	dimir: "ub",
+	rakdos: "br",
+	gruul: "rg",
+	selesnya: "gw",
+	orzhov: "wb",
+	izzet: "ur",
+	golgari: "bg",
+	boros: "rw",
+	simic: "gu",
+	bant: "gwu",
+	esper: "wub",
+	grixis: "ubr",
+	jund: "brg",
+	naya: "rgw",
+	abzan: "wbg",
+	jeskai: "urw",
+	mardu: "rwb",
+	sultai: "bgu",
+	temur: "gur",
+};
+
+const OPERATOR_PATTERN = /^([a-z]+)(!=|<=|>=|:|=|<|>)/i;
+
+/**
+ * Levenshtein distance, used to suggest the keyword or value that was meant
+ */
+function editDistance(a: string, b: string): number {
+	const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+	for (let i = 1; i <= a.length; i++) {
+		let diagonal = previous[0];
+		previous[0] = i;
+		for (let j = 1; j <= b.length; j++) {
+			const above = previous[j];
+			previous[j] = Math.min(
+				previous[j] + 1,
+				previous[j - 1] + 1,
+				diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+			);
+			diagonal = above;
+		}
+	}
+
+	return previous[b.length];
+}
+
+/**
+ * The candidate closest to a misspelled value, if any is close enough
+ */
+export function closest(
+	value: string,
+	candidates: readonly string[],
+): string | undefined {
+	let best: string | undefined;
+	let bestDistance = Math.max(2, Math.floor(value.length / 3)) + 1;
+
+	for (const candidate of candidates) {
+		const distance = editDistance(value, candidate);
+		if (distance < bestDistance) {
+			best = candidate;
+			bestDistance = distance;
+		}
+	}
+
+	return best;
+}
+
+type Token =
+	| { kind: "lparen" | "rparen" | "or" | "and"; start: number; text: string }
+	| { kind: "negate"; start: number; text: string }
+	| {
+			kind: "term";
+			start: number;
+			text: string;
+			term: QueryTerm;
+			negated: boolean;
+	  };
+
+/**
+ * Read a term starting at the given offset
+ */
+function readTerm(query: string, start: number): Token {
+	let i = start;
+	let negated = false;
+
+	if (query[i] === "-") {
+		negated = true;
+		i++;
+	}
+
+	const exact = query[i] === "!";
+	if (exact) i++;
+
+	let keyword: string | undefined;
+	let alias: string | undefined;
+	let operator: QueryOperator = ":";
+
+	const match = exact ? null : OPERATOR_PATTERN.exec(query.slice(i));
+	if (match) {
+		alias = match[1].toLowerCase();
+		keyword = KEYWORD_ALIASES.get(alias) ?? alias;
+		operator = match[2] as QueryOperator;
+		i += match[0].length;
+	}
+
+	let value = "";
+	let valueKind: QueryValueKind = "word";
+
+	if (query[i] === '"') {
+		const close = query.indexOf('"', i + 1);
+		if (close === -1) {
+			throw new QuerySyntaxError(
+				"Unclosed quotation mark",
+				i,
+				query.slice(start),
+				`${query.slice(start)}"`,
+			);
+		}
+		value = query.slice(i + 1, close);
+		valueKind = "quoted";
+		i = close + 1;
+	} else if (query[i] === "/" && keyword) {
+		let close = i + 1;
+		while (close < query.length && query[close] !== "/") {
+			close += query[close] === "\\" ? 2 : 1;
+		}
+		if (close >= query.length) {
+			throw new QuerySyntaxError(
+				"Unclosed regular expression",
+				i,
+				query.slice(start),
+				`${query.slice(start)}/`,
+			);
+		}
+		value = query.slice(i + 1, close);
+		valueKind = "regex";
+		i = close + 1;
+	} else {
+		const from = i;
+		while (i < query.length && !/[\s()]/.test(query[i])) i++;
+		value = query.slice(from, i);
+	}
+
+	const text = query.slice(start, i);
+
+	if (!keyword && value === "" && valueKind === "word") {
+		throw new QuerySyntaxError(
+			`"${text}" must be followed by a search term`,
+			start,
+			text,
+			`Remove "${text}" or attach it to a term, e.g. ${exact ? '!"Lightning Bolt"' : "-t:creature"}`,
+		);
+	}
+
+	if (keyword && value === "" && valueKind === "word") {
+		throw new QuerySyntaxError(
+			`Missing value after "${alias}${operator}"`,
+			start,
+			text,
+			`Remove "${text}" or add a value right after it, with no space`,
+		);
+	}
+
+	return {
+		kind: "term",
+		start,
+		text,
+		negated,
+		term: {
+			type: "term",
+			keyword,
+			alias,
+			operator,
+			value,
+			valueKind,
+			exact,
+			start: negated ? start + 1 : start,
+			end: i,
+		},
+	};
+}
+
+/**
+ * Split a query into parentheses, boolean words and terms
+ */
+function tokenize(query: string): Token[] {
+	const tokens: Token[] = [];
+	let i = 0;
+
+	while (i < query.length) {
+		const char = query[i];
+
+		if (/\s/.test(char)) {
+			i++;
+		} else if (char === "(" || char === ")") {
+			tokens.push({
+				kind: char === "(" ? "lparen" : "rparen",
+				start: i,
+				text: char,
+			});
+			i++;
+		} else if (char === "-" && query[i + 1] === "(") {
+			tokens.push({ kind: "negate", start: i, text: "-" });
+			i++;
+		} else {
+			const token = readTerm(query, i);
+			const word = token.text.toLowerCase();
+			if (word === "or" || word === "and") {
+				tokens.push({ kind: word, start: i, text: token.text });
+			} else {
+				tokens.push(token);
+			}
+			i += token.text.length;
+		}
+	}
+
+	return tokens;
+}
+
+/**
+ * Parse a query into an AST
+ * Checks structure only (quotes, parentheses, boolean words); use
+ * validateQuery to also check keywords and values.
+ * @throws QuerySyntaxError pointing at the offending token
+ */
+export function parseQuery(query: string): QueryNode {
+	const tokens = tokenize(query);
+	let position = 0;
+
+	if (tokens.length === 0) {
+		return { type: "and", children: [] };
+	}
+
+	const flatten = (type: "and" | "or", children: QueryNode[]): QueryNode =>
+		children.length === 1 ? children[0] : { type, children };
+
+	const parseUnary = (): QueryNode => {
+		const token = tokens[position++];
+
+		if (token.kind === "negate" || token.kind === "lparen") {
+			const open = token.kind === "negate" ? tokens[position++] : token;
+			if (tokens[position]?.kind === "rparen") {
+				throw new QuerySyntaxError(
+					"Empty parentheses",
+					open.start,
+					"()",
+					"Put a search term inside the parentheses or remove them",
+				);
+			}
+			const group = parseOr();
+			if (tokens[position]?.kind !== "rparen") {
+				throw new QuerySyntaxError(
+					"Missing closing parenthesis for this group",
+					open.start,
+					"(",
+					`${query.trimEnd()})`,
+				);
+			}
+			position++;
+			return token.kind === "negate" ? { type: "not", child: group } : group;
+		}
+
+		if (token.kind === "term") {
+			return token.negated ? { type: "not", child: token.term } : token.term;
+		}
+
+		throw new QuerySyntaxError(
+			`"${token.text}" needs a search term before it`,
+			token.start,
+			token.text,
+			`Remove "${token.text}" or add a term before it`,
+		);
+	};
+
+	const parseAnd = (): QueryNode => {
+		const children: QueryNode[] = [];
+
+		while (position < tokens.length) {
+			const token = tokens[position];
+			if (token.kind === "rparen" || token.kind === "or") break;
+			if (token.kind === "and") {
+				if (children.length === 0) break;
+				position++;
+				continue;
+			}
+			children.push(parseUnary());
+		}
+
+		if (children.length === 0) {
+			const token = tokens[position] ?? tokens[position - 1];
+			throw new QuerySyntaxError(
+				`"${token.text}" needs a search term on both sides`,
+				token.start,
+				token.text,
+				`Remove "${token.text}" or add a term on each side of it`,
+			);
+		}
+
+		return flatten("and", children);
+	};
+
+	const parseOr = (): QueryNode => {
+		const children = [parseAnd()];
+		while (tokens[position]?.kind === "or") {
+			position++;
+			if (position >= tokens.length || tokens[position].kind === "rparen") {
+				const token = tokens[position - 1];
+				throw new QuerySyntaxError(
+					`"${token.text}" needs a search term on both sides`,
+					token.start,
+					token.text,
+					`Remove "${token.text}" or add a term after it`,
+				);
+			}
+			children.push(parseAnd());
+		}
+		return flatten("or", children);
+	};
+
+	const ast = parseOr();
+
+	if (position < tokens.length) {
+		const token = tokens[position];
+		throw new QuerySyntaxError(
+			"Unbalanced closing parenthesis",
+			token.start,
+			token.text,
+			"Remove it or add a matching ( earlier in the query",
+		);
+	}
+
+	return ast;
+}
+
+/**
+ * Parse a color value into letters, e.g. "azorius" → "wu"
+ * @returns Lowercase color letters, "c" for colorless, or undefined
+ */
+export function parseColorValue(value: string): string | undefined {
+	const lower = value.toLowerCase();
+	if (COLOR_GROUPS[lower] !== undefined) return COLOR_GROUPS[lower];
+	if (/^[wubrg]+$/.test(lower) || lower === "c") return lower;
+	return undefined;
+}
+
+/**
+ * Normalize a rarity value, e.g. "m" → "mythic"
+ */
+export function parseRarityValue(value: string): string | undefined {
+	const lower = value.toLowerCase();
+	if ((RARITIES as readonly string[]).includes(lower)) return lower;
+	return RARITY_ABBREVIATIONS[lower];
+}
+
+function issue(
+	term: QueryTerm,
+	message: string,
+	suggestion?: string,
+	severity: QueryIssue["severity"] = "error",
+): QueryIssue {
+	return {
+		severity,
+		message,
+		position: term.start,
+		token: term.exact ? `!${term.value}` : termText(term),
+		suggestion,
+	};
+}
+
+function termText(term: QueryTerm): string {
+	const value =
+		term.valueKind === "quoted"
+			? `"${term.value}"`
+			: term.valueKind === "regex"
+				? `/${term.value}/`
+				: term.value;
+	return term.alias ? `${term.alias}${term.operator}${value}` : value;
+}
+
+/**
+ * Check a term's keyword, operator and value
+ */
+function checkTerm(term: QueryTerm): QueryIssue[] {
+	if (!term.keyword) {
+		return [];
+	}
+
+	const spec = KEYWORDS[term.keyword];
+	const value = term.value.toLowerCase();
+	const rewrite = (replacement: string) =>
+		`${term.alias}${term.operator}${replacement}`;
+
+	if (!spec) {
+		const suggestion = closest(term.keyword, [...KEYWORD_ALIASES.keys()]);
+		return [
+			issue(
+				term,
+				`Unknown keyword "${term.alias}"`,
+				suggestion
+					? `${suggestion}${term.operator}${term.value}`
+					: `Search for the text itself with "${term.alias}${term.operator}${term.value}" in quotes, or see the search syntax reference`,
+			),
+		];
+	}
+
+	if (!spec.ordered && term.operator !== ":" && term.operator !== "=") {
+		return [
+			issue(
+				term,
+				`"${term.alias}" does not support the "${term.operator}" operator`,
+				`${term.alias}:${term.value}`,
+			),
+		];
+	}
+
+	if (term.valueKind === "regex" && !spec.regex) {
+		return [
+			issue(
+				term,
+				`"${term.alias}" does not accept regular expressions`,
+				`${term.alias}:"${term.value}"`,
+			),
+		];
+	}
+
+	switch (spec.values) {
+		case "number":
+		case "stat": {
+			const isNumber = value !== "" && !Number.isNaN(Number(value));
+			const isStat = spec.values === "stat" && STAT_ALIASES.includes(value);
+			const isParity =
+				term.keyword === "manavalue" && (value === "even" || value === "odd");
+			if (isNumber || isStat || isParity) return [];
+			return [
+				issue(
+					term,
+					spec.values !== "stat"
+						? `"${term.alias}" needs a number, got "${term.value}"`
+						: /^[xy*]$/.test(value)
+							? `"${term.alias}" needs a number or another stat (pow, tou, loy), got "${term.value}"; variable stats like X and * can't be compared`
+							: `"${term.alias}" needs a number or another stat (pow, tou, loy), got "${term.value}"`,
+					rewrite("3"),
+				),
+			];
+		}
+		case "color": {
+			if (/^\d+$/.test(value) || value === "m" || value === "multicolor") {
+				return [];
+			}
+			if (parseColorValue(value) !== undefined) return [];
+			const suggestion = closest(value, Object.keys(COLOR_GROUPS));
+			return [
+				issue(
+					term,
+					`"${term.value}" is not a color`,
+					suggestion
+						? rewrite(suggestion)
+						: `Use color letters (w, u, b, r, g, c) or a name, e.g. ${rewrite("rg")}`,
+				),
+			];
+		}
+		case "rarity": {
+			if (parseRarityValue(value)) return [];
+			const suggestion = closest(value, RARITIES);
+			return [
+				issue(
+					term,
+					`"${term.value}" is not a rarity`,
+					rewrite(suggestion ?? "rare"),
+				),
+			];
+		}
+		case "format": {
+			if ((FORMATS as readonly string[]).includes(value)) return [];
+			const suggestion = closest(value, FORMATS);
+			return [
+				issue(
+					term,
+					`"${term.value}" is not a format`,
+					rewrite(suggestion ?? "modern"),
+				),
+			];
+		}
+		case "enum": {
+			const options = spec.options ?? [];
+			if (options.includes(value)) return [];
+			const suggestion = closest(value, options);
+			return [
+				issue(
+					term,
+					`"${term.value}" is not a known value for "${term.alias}"`,
+					suggestion
+						? rewrite(suggestion)
+						: `Known values: ${options.join(", ")}`,
+					spec.strictOptions ? "error" : "warning",
+				),
+			];
+		}
+		default:
+			return [];
+	}
+}
+
+/**
+ * Collect every term in a query, in order
+ */
+export function collectTerms(
+	node: QueryNode,
+	terms: QueryTerm[] = [],
+): QueryTerm[] {
+	switch (node.type) {
+		case "term":
+			terms.push(node);
+			break;
+		case "not":
+			collectTerms(node.child, terms);
+			break;
+		default:
+			for (const child of node.children) collectTerms(child, terms);
+	}
+	return terms;
+}
+
+/**
+ * Check every term's keyword, operator and value
+ */
+export function checkQueryTerms(ast: QueryNode): QueryIssue[] {
+	return collectTerms(ast).flatMap(checkTerm);
+}
+
+/**
+ * Parse a query and check every term
+ * @returns The AST (when the structure is sound) and any errors or warnings
+ */
+export function validateQuery(query: string): QueryValidation {
+	let ast: QueryNode;
+
+	try {
+		ast = parseQuery(query);
+	} catch (error) {
+		if (error instanceof QuerySyntaxError) {
+			return {
+				valid: false,
+				issues: [
+					{
+						severity: "error",
+						message: error.message,
+						position: error.position,
+						token: error.token,
+						suggestion: error.suggestion,
+					},
+				],
+			};
+		}
+		throw error;
+	}
+
+	const issues = checkQueryTerms(ast);
+
+	if (query.trim() === "") {
+		issues.push({
+			severity: "error",
+			message: "The query is empty",
+			position: 0,
+			token: "",
+			suggestion: "t:creature",
+		});
+	}
+
+	return {
+		valid: issues.every((entry) => entry.severity !== "error"),
+		ast,
+		issues,
+	};
+}
+
+const OPERATOR_WORDS: Record<QueryOperator, string> = {
+	":": "is",
+	"=": "is",
+	"!=": "is not",
+	"<": "is less than",
+	"<=": "is at most",
+	">": "is greater than",
+	">=": "is at least",
+};
+
+function describeColors(letters: string): string {
+	if (letters === "c") return "colorless";
+	const names = [...letters].map((letter) => COLOR_NAMES[letter] ?? letter);
+	return names.length > 1
+		? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`
+		: names[0];
+}
+
+function explainColor(term: QueryTerm, label: string): string {
+	const value = term.value.toLowerCase();
+
+	if (/^\d+$/.test(value)) {
+		return `number of ${label} ${OPERATOR_WORDS[term.operator]} ${value}`;
+	}
+	// "colors" is plural, "color identity" singular
+	const plural = term.keyword === "color";
+	const include = plural ? "include" : "includes";
+	const are = plural ? "are" : "is";
+
+	if (value === "m" || value === "multicolor") {
+		return `${label} ${include} two or more colors`;
+	}
+
+	const letters = parseColorValue(value) ?? value;
+
+	if (letters === "c") {
+		// Every operator but ">" and "!=" narrows to colorless cards
+		const subject = plural ? "the card" : label;
+		switch (term.operator) {
+			case "!=":
+				return `${subject} is not colorless`;
+			case ">":
+				return `${subject} has one or more colors`;
+			case "<":
+				return `${subject} has fewer than zero colors, which no card has`;
+			default:
+				return `${subject} is colorless`;
+		}
+	}
+
+	const colors = describeColors(letters);
+	// For colors ":" means "includes"; for identity it means "fits within"
+	const operator =
+		term.operator === ":"
+			? term.keyword === "identity"
+				? "<="
+				: ">="
+			: term.operator;
+
+	switch (operator) {
+		case "=":
+			return `${label} ${are} exactly ${colors}`;
+		case "!=":
+			return `${label} ${are} not exactly ${colors}`;
+		case ">=":
+			return `${label} ${include} ${colors}`;
+		case ">":
+			return `${label} ${include} ${colors} and more`;
+		case "<=":
+			return `${label} ${plural ? "fit" : "fits"} within ${colors}`;
+		default:
+			return `${label} ${are} a strict subset of ${colors}`;
+	}
+}
+
+function explainTerm(term: QueryTerm): string {
+	const quoted = `"${term.value}"`;
+
+	if (!term.keyword) {
+		return term.exact ? `name is exactly ${quoted}` : `name contains ${quoted}`;
+	}
+
+	const spec = KEYWORDS[term.keyword];
+	if (!spec) {
+		return `unknown keyword ${term.alias} ${quoted}`;
+	}
+
+	if (term.valueKind === "regex") {
+		return `${spec.label} matches the pattern /${term.value}/`;
+	}
+
+	const value = term.value.toLowerCase();
+	if (spec.phrase) {
+		return `${spec.label} ${value}`;
+	}
+
+	switch (spec.values) {
+		case "text":
+			return spec.exact
+				? `${spec.label} is ${value}`
+				: `${spec.label} contains ${quoted}`;
+		case "color":
+			return explainColor(term, spec.label);
+		case "rarity":
+			return `rarity ${OPERATOR_WORDS[term.operator]} ${parseRarityValue(term.value) ?? term.value}`;
+		case "format":
+		case "enum":
+			return `${spec.label} is ${value}`;
+		case "stat": {
+			// pow>tou compares two stats, so name the other one too
+			const other = KEYWORDS[KEYWORD_ALIASES.get(value) ?? ""];
+			return `${spec.label} ${OPERATOR_WORDS[term.operator]} ${other?.label ?? term.value}`;
+		}
+		default:
+			return `${spec.label} ${OPERATOR_WORDS[term.operator]} ${term.value}`;
+	}
+}
+
+/**
+ * Describe what a parsed query matches in plain English
+ */
+export function explainQuery(node: QueryNode): string {
+	switch (node.type) {
+		case "term":
+			return explainTerm(node);
+		case "not":
+			return node.child.type === "term"
+				? `not (${explainTerm(node.child)})`
+				: `not (${explainQuery(node.child)})`;
+		case "and":
+			if (node.children.length === 0) return "any card";
+			return node.children
+				.map((child) =>
+					child.type === "or"
+						? `(${explainQuery(child)})`
+						: explainQuery(child),
+				)
+				.join(" and ");
+		case "or":
+			return node.children
+				.map((child) =>
+					child.type === "and" && child.children.length > 1
+						? `(${explainQuery(child)})`
+						: explainQuery(child),
+				)
+				.join(" or ");
+	}
+}
+
+/**
+ * Format a validation result for tool output
+ * Errors point at the offending token with a caret under the query.
+ */
+export function formatQueryValidation(
+	query: string,
+	validation: QueryValidation,
+): string {
+	const output: string[] = [];
+
+	output.push(validation.valid ? "✅ Valid query" : "❌ Invalid query");
+	output.push("");
+	output.push(`Query: \`${query}\``);
+
+	for (const entry of validation.issues) {
+		output.push("");
+		output.push(
+			`${entry.severity === "error" ? "Error" : "Warning"} at position ${entry.position + 1}: ${entry.message}`,
+		);
+		output.push("```");
+		output.push(query);
+		output.push(
+			`${" ".repeat(entry.position)}${"^".repeat(Math.max(entry.token.length, 1))}`,
+		);
+		output.push("```");
+		if (entry.suggestion) {
+			output.push(`Suggestion: ${entry.suggestion}`);
+		}
+	}
+
+	if (validation.valid && validation.ast) {
+		output.push("");
+		output.push(`Matches cards where ${explainQuery(validation.ast)}.`);
+	}
+
+	return output.join("\n");
+}
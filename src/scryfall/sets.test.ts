@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import {
+	filterSets,
+	formatSetDetails,
+	formatSets,
+	summarizeSetCards,
+} from "./sets.js";
+import { mockCard } from "./test-helpers.js";
+import type { ScryfallSet } from "./types.js";
+
+function mockSet(overrides: Partial<ScryfallSet>): ScryfallSet {
+	const code = overrides.code ?? "tst";
+	return {
+		object: "set",
+		id: `set-${code}`,
+		code,
+		name: "Test Set",
+		uri: `https://api.scryfall.com/sets/${code}`,
+		scryfall_uri: `https://scryfall.com/sets/${code}`,
+		search_uri: `https://api.scryfall.com/cards/search?q=e%3A${code}&unique=prints`,
+		released_at: "2020-01-01",
+		set_type: "expansion",
+		card_count: 250,
+		digital: false,
+		nonfoil_only: false,
+		foil_only: false,
+		icon_svg_uri: `https://svgs.scryfall.io/sets/${code}.svg`,
+		...overrides,
+	};
+}
+
+const sets = [
+	mockSet({
+		code: "lea",
+		name: "Limited Edition Alpha",
+		set_type: "core",
+		released_at: "1993-08-05",
+	}),
+	mockSet({
+		code: "mh3",
+		name: "Modern Horizons 3",
+		set_type: "draft_innovation",
+		released_at: "2024-06-14",
+	}),
+	mockSet({
+		code: "otj",
+		name: "Outlaws of Thunder Junction",
+		released_at: "2024-04-19",
+	}),
+	mockSet({
+		code: "y24",
+		name: "Alchemy: Outlaws of Thunder Junction",
+		set_type: "alchemy",
+		digital: true,
+		released_at: "2024-05-14",
+	}),
+	mockSet({ code: "fut", name: "Future Set", released_at: undefined }),
+];
+
+describe("filterSets", () => {
+	it("returns every set without filters", () => {
+		expect(filterSets(sets, {})).toHaveLength(5);
+	});
+
+	it("filters by set type", () => {
+		expect(filterSets(sets, { setType: "core" }).map((s) => s.code)).toEqual([
+			"lea",
+		]);
+	});
+
+	it("filters by inclusive release date range and skips undated sets", () => {
+		const result = filterSets(sets, {
+			releasedAfter: "2024-04-19",
+			releasedBefore: "2024-06-14",
+		});
+		expect(result.map((s) => s.code)).toEqual(["mh3", "otj", "y24"]);
+	});
+
+	it("filters by digital flag", () => {
+		expect(filterSets(sets, { digital: true }).map((s) => s.code)).toEqual([
+			"y24",
+		]);
+		expect(filterSets(sets, { digital: false })).toHaveLength(4);
+	});
+
+	it("matches name substrings case-insensitively and exact codes", () => {
+		expect(filterSets(sets, { name: "thunder" }).map((s) => s.code)).toEqual([
+			"otj",
+			"y24",
+		]);
+		expect(filterSets(sets, { name: "MH3" }).map((s) => s.code)).toEqual([
+			"mh3",
+		]);
+	});
+});
+
+describe("formatSets", () => {
+	it("lists code, name, type, release date and card count", () => {
+		const result = formatSets(sets.slice(0, 2));
+		expect(result).toContain("Showing 2 of 2 sets");
+		expect(result).toContain(
+			"- **lea** Limited Edition Alpha — core, released 1993-08-05, 250 cards",
+		);
+	});
+
+	it("marks digital and undated sets and respects the limit", () => {
+		const result = formatSets(sets, 4);
+		expect(result).toContain("alchemy, digital");
+		expect(result).toContain("... and 1 more sets");
+		expect(formatSets(sets)).toContain("released TBA");
+	});
+});
+
+describe("summarizeSetCards", () => {
+	it("counts cards by rarity", () => {
+		const summary = summarizeSetCards([
+			mockCard({ name: "A", rarity: "common" }),
+			mockCard({ name: "B", rarity: "common" }),
+			mockCard({ name: "C", rarity: "mythic" }),
+		]);
+		expect(summary).toEqual({
+			cardsCounted: 3,
+			rarities: { common: 2, mythic: 1 },
+			complete: true,
+		});
+	});
+});
+
+describe("formatSetDetails", () => {
+	it("includes metadata and rarities in rarity order", () => {
+		const result = formatSetDetails(sets[1], {
+			cardsCounted: 4,
+			rarities: { mythic: 1, common: 3 },
+			complete: true,
+		});
+		expect(result).toContain("# Modern Horizons 3 (mh3)");
+		expect(result).toContain("released_at: 2024-06-14");
+		expect(result).toContain("- common: 3\n- mythic: 1");
+		expect(result).toContain("Total printings counted: 4");
+	});
+
+	it("notes when the summary is incomplete", () => {
+		const result = formatSetDetails(sets[1], {
+			cardsCounted: 875,
+			rarities: { common: 875 },
+			complete: false,
+		});
+		expect(result).toContain("Counted the first 875 printings");
+	});
+
+	it("omits the summary when none is given", () => {
+		expect(formatSetDetails(sets[0])).not.toContain("Cards by Rarity");
+	});
+});
@@ -0,0 +1,156 @@
+/**
+ * Filtering and formatting for Scryfall sets
+ */
+
+import type { ScryfallCard, ScryfallSet } from "./types.js";
+
+export interface SetFilter {
+	setType?: string;
+	releasedAfter?: string; // YYYY-MM-DD, inclusive
+	releasedBefore?: string; // YYYY-MM-DD, inclusive
+	digital?: boolean;
+	name?: string; // Case-insensitive substring of the set name or code
+}
+
+export interface SetCardSummary {
+	cardsCounted: number;
+	rarities: Record<string, number>;
+	complete: boolean; // false when pagination stopped before the last page
+}
+
+const RARITY_ORDER = [
+	"common",
+	"uncommon",
+	"rare",
+	"mythic",
+	"special",
+	"bonus",
+];
+
+/**
+ * Filter sets by type, release date range, digital flag and name
+ * Sets without a release date never match a date range.
+ */
+export function filterSets(
+	sets: ScryfallSet[],
+	filter: SetFilter,
+): ScryfallSet[] {
+	const name = filter.name?.toLowerCase();
+
+	return sets.filter((set) => {
+		if (filter.setType && set.set_type !== filter.setType) return false;
+		if (filter.digital !== undefined && set.digital !== filter.digital) {
+			return false;
+		}
+		if (filter.releasedAfter || filter.releasedBefore) {
+			if (!set.released_at) return false;
+			if (filter.releasedAfter && set.released_at < filter.releasedAfter) {
+				return false;
+			}
+			if (filter.releasedBefore && set.released_at > filter.releasedBefore) {
+				return false;
+			}
+		}
+		if (
+			name &&
+			!set.name.toLowerCase().includes(name) &&
+			set.code.toLowerCase() !== name
+		) {
+			return false;
+		}
+		return true;
+	});
+}
+
+/**
+ * Format a list of sets as one line per set
+ * @param sets - Sets to format
+ * @param limit - Maximum number of sets to list
+ * @returns Formatted string with code, name, type, release date and card count
+ */
+export function formatSets(sets: ScryfallSet[], limit = 50): string {
+	const setsToShow = sets.slice(0, limit);
+	const output: string[] = [];
+
+	output.push(`Showing ${setsToShow.length} of ${sets.length} sets:\n`);
+
+	for (const set of setsToShow) {
+		const digital = set.digital ? ", digital" : "";
+		output.push(
+			`- **${set.code}** ${set.name} — ${set.set_type}${digital}, released ${set.released_at ?? "TBA"}, ${set.card_count} cards`,
+		);
+	}
+
+	if (sets.length > limit) {
+		output.push(`\n... and ${sets.length - limit} more sets`);
+	}
+
+	return output.join("\n");
+}
+
+/**
+ * Count cards in a set by rarity
+ * @param cards - Cards returned by the set's search_uri
+ * @param complete - Whether every page of the search was read
+ */
+export function summarizeSetCards(
+	cards: ScryfallCard[],
+	complete = true,
+): SetCardSummary {
+	const rarities: Record<string, number> = {};
+
+	for (const card of cards) {
+		rarities[card.rarity] = (rarities[card.rarity] ?? 0) + 1;
+	}
+
+	return { cardsCounted: cards.length, rarities, complete };
+}
+
+/**
+ * Format set metadata together with a card-count summary
+ * @param set - The set to describe
+ * @param summary - Rarity summary built from the set's cards, if available
+ * @returns Markdown description of the set
+ */
+export function formatSetDetails(
+	set: ScryfallSet,
+	summary?: SetCardSummary,
+): string {
+	const output: string[] = [];
+
+	output.push(`# ${set.name} (${set.code})`);
+	output.push("");
+	output.push(`set_type: ${set.set_type}`);
+	output.push(`released_at: ${set.released_at ?? "TBA"}`);
+	output.push(`card_count: ${set.card_count}`);
+	output.push(`digital: ${set.digital}`);
+	output.push(`foil_only: ${set.foil_only}`);
+	output.push(`nonfoil_only: ${set.nonfoil_only}`);
+	output.push(`scryfall_uri: ${set.scryfall_uri}`);
+	output.push(`icon_svg_uri: ${set.icon_svg_uri}`);
+
+	if (summary) {
+		output.push("");
+		output.push("## Cards by Rarity");
+		output.push("");
+
+		const rarities = Object.keys(summary.rarities).sort(
+			(a, b) => RARITY_ORDER.indexOf(a) - RARITY_ORDER.indexOf(b),
+		);
+		for (const rarity of rarities) {
+			output.push(`- ${rarity}: ${summary.rarities[rarity]}`);
+		}
+		if (rarities.length === 0) {
+			output.push("No cards found in this set.");
+		}
+
+		output.push("");
+		output.push(
+			summary.complete
+				? `Total printings counted: ${summary.cardsCounted}`
+				: `Counted the first ${summary.cardsCounted} printings; the set has more.`,
+		);
+	}
+
+	return output.join("\n");
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import {
+	effectTerms,
+	formatSimilarCards,
+	normalizeOracleText,
+	rankSimilarCards,
+	scoreSimilarity,
+	similarCardsQuery,
+} from "./similarity.js";
+import { mockCard } from "./test-helpers.js";
+
+const bolt = mockCard({
+	name: "Lightning Bolt",
+	mana_cost: "{R}",
+	cmc: 1,
+	type_line: "Instant",
+	oracle_text: "Lightning Bolt deals 3 damage to any target.",
+	colors: ["R"],
+});
+const chain = mockCard({
+	name: "Chain Lightning",
+	mana_cost: "{R}",
+	cmc: 1,
+	type_line: "Sorcery",
+	oracle_text:
+		"Chain Lightning deals 3 damage to any target. Then that player or that permanent's controller may pay {R}{R}. If the player does, they may copy this spell and may choose a new target for that copy.",
+	colors: ["R"],
+	prices: { usd: "4.10" },
+});
+const shock = mockCard({
+	name: "Shock",
+	mana_cost: "{R}",
+	cmc: 1,
+	type_line: "Instant",
+	oracle_text: "Shock deals 2 damage to any target.",
+	colors: ["R"],
+	prices: { usd: "0.25" },
+});
+const divination = mockCard({
+	name: "Divination",
+	mana_cost: "{2}{U}",
+	cmc: 3,
+	type_line: "Sorcery",
+	oracle_text: "Draw two cards.",
+	colors: ["U"],
+});
+const krenko = mockCard({
+	name: "Krenko, Mob Boss",
+	cmc: 4,
+	type_line: "Legendary Creature — Goblin Warrior",
+	oracle_text:
+		"{T}: Create X 1/1 red Goblin creature tokens, where X is the number of Goblins you control. (Krenko counts itself.)",
+	colors: ["R"],
+});
+
+describe("normalizeOracleText", () => {
+	it("should replace the card's own name and drop reminder text", () => {
+		expect(normalizeOracleText(bolt)).toBe("~ deals 3 damage to any target");
+		expect(normalizeOracleText(krenko)).toBe(
+			"{t} create x 1/1 red goblin creature tokens where x is the number of goblins you control",
+		);
+	});
+
+	it("should replace the short name of legendary cards", () => {
+		const card = mockCard({
+			name: "Krenko, Tin Street Kingpin",
+			oracle_text: "Whenever Krenko attacks, put a +1/+1 counter on it.",
+		});
+		expect(normalizeOracleText(card)).toBe(
+			"whenever ~ attacks put a +1/+1 counter on it",
+		);
+	});
+});
+
+describe("scoreSimilarity", () => {
+	it("should score cards with the same effect highest", () => {
+		const shockScore = scoreSimilarity(bolt, shock);
+		expect(shockScore.type).toBe(1);
+		expect(shockScore.manaValue).toBe(1);
+		expect(shockScore.color).toBe(1);
+		expect(shockScore.text).toBeGreaterThan(0.5);
+
+		expect(scoreSimilarity(bolt, bolt).score).toBeCloseTo(1);
+		expect(shockScore.score).toBeGreaterThan(
+			scoreSimilarity(bolt, divination).score,
+		);
+	});
+});
+
+describe("similarCardsQuery", () => {
+	it("should search for spells sharing an effect", () => {
+		expect(effectTerms(bolt)).toEqual(["o:damage"]);
+		expect(similarCardsQuery(bolt)).toBe("(t:instant or t:sorcery) o:damage");
+	});
+
+	it("should add the constraints", () => {
+		expect(
+			similarCardsQuery(krenko, {
+				format: "modern",
+				identity: "gruul",
+				maxUsd: 2,
+			}),
+		).toBe("t:creature o:create id<=rg f:modern usd<=2");
+	});
+
+	it("should fall back to nearby mana values without a known effect", () => {
+		const bear = mockCard({
+			name: "Grizzly Bears",
+			cmc: 2,
+			type_line: "Creature — Bear",
+		});
+		expect(similarCardsQuery(bear)).toBe("t:creature mv>=1 mv<=3");
+	});
+
+	it("should reject an unknown identity", () => {
+		expect(() => similarCardsQuery(bolt, { identity: "purple" })).toThrow(
+			/Unknown color/,
+		);
+	});
+});
+
+describe("rankSimilarCards", () => {
+	it("should rank best first and leave out the card itself", () => {
+		const similar = rankSimilarCards(
+			bolt,
+			[divination, bolt, chain, shock, { ...shock, id: "reprint" }],
+			2,
+		);
+		expect(similar.map(({ card }) => card.name)).toEqual([
+			"Shock",
+			"Chain Lightning",
+		]);
+	});
+
+	it("should format the ranking with score breakdowns", () => {
+		const text = formatSimilarCards(
+			bolt,
+			rankSimilarCards(bolt, [shock], 5),
+			"(t:instant or t:sorcery) o:damage",
+		);
+		expect(text).toContain("# Cards similar to Lightning Bolt");
+		expect(text).toContain("`(t:instant or t:sorcery) o:damage`");
+		expect(text).toContain("1. **Shock** {R} — Instant · $0.25");
+		expect(text).toMatch(/type 100%, mana value 100%, color 100%\)/);
+		expect(text).toContain("Shock deals 2 damage to any target.");
+
+		expect(formatSimilarCards(bolt, [], "o:damage")).toContain(
+			"No similar cards found.",
+		);
+	});
+});
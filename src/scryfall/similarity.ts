@@ -0,0 +1,303 @@
+/**
+ * Find cards with similar effects to a given card
+ * Candidates come from a Scryfall search built from the card's type and
+ * effects; they are then ranked locally on oracle text, type line, mana value
+ * and color.
+ */
+
+import { cardOracleText } from "./card-utils.js";
+import type { CardType } from "./deck-stats.js";
+import { cardTypes } from "./deck-stats.js";
+import { buildQuery } from "./query-builder.js";
+import type { ScryfallCard } from "./types.js";
+
+// How much each part of the comparison counts towards the overall score
+export const SIMILARITY_WEIGHTS = {
+	text: 0.6,
+	type: 0.2,
+	manaValue: 0.1,
+	color: 0.1,
+};
+
+// Optional limits on the cards suggested
+export interface SimilarityConstraints {
+	format?: string; // Legal in this format
+	identity?: string; // Fits in a deck of these colors
+	maxUsd?: number;
+}
+
+export interface SimilarityScore {
+	score: number;
+	text: number;
+	type: number;
+	manaValue: number;
+	color: number;
+}
+
+export interface SimilarCard {
+	card: ScryfallCard;
+	similarity: SimilarityScore;
+}
+
+// Oracle phrases worth searching for, and the Scryfall term that finds them
+const EFFECT_TERMS: [RegExp, string][] = [
+	[/\bdeals? (?:\d+|x) damage\b/, "o:damage"],
+	[/\bdestroy (?:target|all|each)\b/, "o:destroy"],
+	[/\bexile (?:target|all|each)\b/, "o:exile"],
+	[/\bcounter target\b/, 'o:"counter target"'],
+	[/\bdraws? (?:a|two|three|x|\d+) cards?\b/, "o:draw"],
+	[/\breturn target .* to (?:its|their) owner's hand\b/, 'o:"owner\'s hand"'],
+	[/\bcreate .* tokens?\b/, "o:create"],
+	[/\bsearch your library\b/, 'o:"search your library"'],
+	[/\+1\/\+1 counters?\b/, 'o:"+1/+1 counter"'],
+	[/\bgets? [+-]\d+\/[+-]\d+\b/, "o:gets"],
+	[/\bgain (?:\d+|x) life\b/, "o:gain"],
+	[/\bdiscards?\b/, "o:discard"],
+	[/\badd \{/, "o:add"],
+	[/\bsacrifices?\b/, "o:sacrifice"],
+	[/\bfrom (?:your|a) graveyard\b/, "o:graveyard"],
+	[/\btap target\b/, 'o:"tap target"'],
+	[/\bscry \d+\b/, "o:scry"],
+	[/\bmill\b/, "o:mill"],
+];
+
+// Instants and sorceries replace each other, so spells search for both
+const SPELL_TYPES: CardType[] = ["Instant", "Sorcery"];
+
+/**
+ * Names a card's text uses to refer to itself
+ * Includes each face and the short name of legendary cards, like "Krenko"
+ * for Krenko, Mob Boss.
+ */
+function selfNames(card: ScryfallCard): string[] {
+	const names = [
+		card.name,
+		...(card.card_faces ?? []).map((face) => face.name),
+	].flatMap((name) => [name, name.split(",")[0]]);
+
+	// Longest first, so a full name is replaced before its short form
+	return [...new Set(names)]
+		.filter((name) => name.trim().length > 0)
+		.sort((a, b) => b.length - a.length);
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Oracle text ready for comparison: the card's own name becomes "~",
+ * reminder text is dropped and everything is lowercased
+ */
+export function normalizeOracleText(card: ScryfallCard): string {
+	let text = cardOracleText(card).replace(/\([^)]*\)/g, "");
+	for (const name of selfNames(card)) {
+		text = text.replace(
+			new RegExp(`(?<!\\w)${escapeRegExp(name)}(?!\\w)`, "g"),
+			"~",
+		);
+	}
+	return text
+		.toLowerCase()
+		.replace(/[^\w~{}/+\-'\s]/g, " ")
+		.replace(/\s+/g, " ")
+		.trim();
+}
+
+/**
+ * Words and word pairs of normalized oracle text
+ * Pairs keep some word order, so "destroy target creature" and "target
+ * creature gets destroyed" don't look alike.
+ */
+function textFeatures(text: string): Set<string> {
+	const words = text.split(" ").filter(Boolean);
+	const features = new Set(words);
+	for (let i = 1; i < words.length; i++) {
+		features.add(`${words[i - 1]} ${words[i]}`);
+	}
+	return features;
+}
+
+function typeWords(card: ScryfallCard): Set<string> {
+	return new Set(
+		card.type_line
+			.toLowerCase()
+			.split(/[\s—/]+/)
+			.filter(Boolean),
+	);
+}
+
+function cardColors(card: ScryfallCard): Set<string> {
+	return new Set(
+		card.colors ?? (card.card_faces ?? []).flatMap((face) => face.colors ?? []),
+	);
+}
+
+/**
+ * Overlap of two sets (Jaccard index); 1 when both are empty
+ */
+function overlap(a: Set<string>, b: Set<string>): number {
+	if (a.size === 0 && b.size === 0) {
+		return 1;
+	}
+	let shared = 0;
+	for (const item of a) {
+		if (b.has(item)) shared++;
+	}
+	return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Score how alike two cards are, from 0 to 1
+ */
+export function scoreSimilarity(
+	card: ScryfallCard,
+	candidate: ScryfallCard,
+): SimilarityScore {
+	const text = overlap(
+		textFeatures(normalizeOracleText(card)),
+		textFeatures(normalizeOracleText(candidate)),
+	);
+	const type = overlap(typeWords(card), typeWords(candidate));
+	const manaValue = 1 / (1 + Math.abs(card.cmc - candidate.cmc));
+	const color = overlap(cardColors(card), cardColors(candidate));
+
+	return {
+		score:
+			text * SIMILARITY_WEIGHTS.text +
+			type * SIMILARITY_WEIGHTS.type +
+			manaValue * SIMILARITY_WEIGHTS.manaValue +
+			color * SIMILARITY_WEIGHTS.color,
+		text,
+		type,
+		manaValue,
+		color,
+	};
+}
+
+/**
+ * Scryfall terms for the effects in a card's oracle text
+ */
+export function effectTerms(card: ScryfallCard): string[] {
+	const text = normalizeOracleText(card);
+	return EFFECT_TERMS.filter(([pattern]) => pattern.test(text)).map(
+		([, term]) => term,
+	);
+}
+
+function anyOf(terms: string[]): string {
+	return terms.length === 1 ? terms[0] : `(${terms.join(" or ")})`;
+}
+
+/**
+ * Build the search for candidates: cards sharing the card's main type and at
+ * least one of its effects, or a nearby mana value when no effect is known
+ * @throws Error when the identity is not a color
+ */
+export function similarCardsQuery(
+	card: ScryfallCard,
+	constraints: SimilarityConstraints = {},
+): string {
+	const types = cardTypes(card);
+	const main = types.some((type) => SPELL_TYPES.includes(type))
+		? SPELL_TYPES
+		: types.slice(0, 1);
+	const terms: string[] = [];
+
+	if (main.length > 0) {
+		terms.push(anyOf(main.map((type) => `t:${type.toLowerCase()}`)));
+	}
+
+	const effects = effectTerms(card);
+	if (effects.length > 0) {
+		terms.push(anyOf(effects));
+	} else {
+		terms.push(
+			`mv>=${Math.max(Math.floor(card.cmc) - 1, 0)}`,
+			`mv<=${Math.ceil(card.cmc) + 1}`,
+		);
+	}
+
+	if (
+		constraints.format ||
+		constraints.identity ||
+		constraints.maxUsd !== undefined
+	) {
+		terms.push(
+			buildQuery({
+				formats: constraints.format ? [constraints.format] : undefined,
+				identity: constraints.identity ? [constraints.identity] : undefined,
+				maxUsd: constraints.maxUsd,
+			}),
+		);
+	}
+
+	return terms.join(" ");
+}
+
+/**
+ * Rank candidates by similarity, best first
+ * Drops the card itself and repeated printings of the same card.
+ */
+export function rankSimilarCards(
+	card: ScryfallCard,
+	candidates: ScryfallCard[],
+	limit: number,
+): SimilarCard[] {
+	const seen = new Set([card.oracle_id ?? card.name]);
+	const unique = candidates.filter((candidate) => {
+		const key = candidate.oracle_id ?? candidate.name;
+		if (seen.has(key) || candidate.name === card.name) return false;
+		seen.add(key);
+		return true;
+	});
+
+	return unique
+		.map((candidate) => ({
+			card: candidate,
+			similarity: scoreSimilarity(card, candidate),
+		}))
+		.sort((a, b) => b.similarity.score - a.similarity.score)
+		.slice(0, limit);
+}
+
+function percent(value: number): string {
+	return `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Format the ranked cards as compact markdown with each score's breakdown
+ */
+export function formatSimilarCards(
+	card: ScryfallCard,
+	similar: SimilarCard[],
+	query: string,
+): string {
+	const output: string[] = [];
+
+	output.push(`# Cards similar to ${card.name}`);
+	output.push(`Candidates: \`${query}\``);
+	output.push("");
+
+	if (similar.length === 0) {
+		output.push("No similar cards found.");
+		return output.join("\n");
+	}
+
+	similar.forEach(({ card: match, similarity }, index) => {
+		const cost = match.mana_cost ? ` ${match.mana_cost}` : "";
+		const price = match.prices?.usd ? ` · $${match.prices.usd}` : "";
+		output.push(
+			`${index + 1}. **${match.name}**${cost} — ${match.type_line}${price}`,
+		);
+		output.push(
+			`   ${percent(similarity.score)} similar (text ${percent(similarity.text)}, type ${percent(similarity.type)}, mana value ${percent(similarity.manaValue)}, color ${percent(similarity.color)})`,
+		);
+		const text = cardOracleText(match).replace(/\n/g, " ");
+		if (text) {
+			output.push(`   ${text}`);
+		}
+	});
+
+	return output.join("\n");
+}
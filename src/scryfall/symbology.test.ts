@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import {
+	classifySymbol,
+	formatParsedMana,
+	formatSymbology,
+	splitManaSymbols,
+} from "./symbology.js";
+import type { ScryfallSymbol } from "./types.js";
+
+function mockSymbol(overrides: Partial<ScryfallSymbol>): ScryfallSymbol {
+	return {
+		object: "card_symbol",
+		symbol: "{W}",
+		english: "one white mana",
+		transposable: false,
+		represents_mana: true,
+		appears_in_mana_costs: true,
+		mana_value: 1,
+		hybrid: false,
+		phyrexian: false,
+		funny: false,
+		colors: ["W"],
+		svg_uri: "https://svgs.scryfall.io/card-symbols/W.svg",
+		...overrides,
+	};
+}
+
+const white = mockSymbol({});
+const two = mockSymbol({
+	symbol: "{2}",
+	english: "two generic mana",
+	mana_value: 2,
+	colors: [],
+	svg_uri: "https://svgs.scryfall.io/card-symbols/2.svg",
+});
+const greenPhyrexian = mockSymbol({
+	symbol: "{G/P}",
+	english: "one green mana or two life",
+	phyrexian: true,
+	colors: ["G"],
+	svg_uri: "https://svgs.scryfall.io/card-symbols/GP.svg",
+});
+const hybrid = mockSymbol({
+	symbol: "{W/U}",
+	english: "one white or blue mana",
+	hybrid: true,
+	colors: ["W", "U"],
+});
+const snow = mockSymbol({
+	symbol: "{S}",
+	english: "one snow mana",
+	colors: [],
+});
+const halfWhite = mockSymbol({
+	symbol: "{HW}",
+	english: "one-half white mana",
+	mana_value: 0.5,
+	funny: true,
+});
+const tap = mockSymbol({
+	symbol: "{T}",
+	english: "tap this permanent",
+	represents_mana: false,
+	appears_in_mana_costs: false,
+	mana_value: 0,
+	colors: [],
+});
+
+describe("classifySymbol", () => {
+	it("labels hybrid, Phyrexian, snow and half mana symbols", () => {
+		expect(classifySymbol(hybrid)).toEqual(["hybrid"]);
+		expect(classifySymbol(greenPhyrexian)).toEqual(["Phyrexian"]);
+		expect(classifySymbol(snow)).toEqual(["snow"]);
+		expect(classifySymbol(halfWhite)).toEqual(["half mana", "Un-set"]);
+	});
+
+	it("labels generic and non-mana symbols", () => {
+		expect(classifySymbol(two)).toEqual(["generic"]);
+		expect(classifySymbol(tap)).toEqual(["non-mana"]);
+		expect(classifySymbol(white)).toEqual([]);
+	});
+});
+
+describe("splitManaSymbols", () => {
+	it("splits a normalized cost into symbols", () => {
+		expect(splitManaSymbols("{2}{W/U}{G/P}")).toEqual([
+			"{2}",
+			"{W/U}",
+			"{G/P}",
+		]);
+		expect(splitManaSymbols("")).toEqual([]);
+	});
+});
+
+describe("formatSymbology", () => {
+	it("groups mana and other symbols with explanations and SVG URIs", () => {
+		const result = formatSymbology([white, greenPhyrexian, tap]);
+		expect(result).toContain("## Mana Symbols");
+		expect(result).toContain(
+			"- `{G/P}`: one green mana or two life (Phyrexian; mana value 1) — SVG: https://svgs.scryfall.io/card-symbols/GP.svg",
+		);
+		expect(result).toMatch(
+			/## Other Symbols\n\n- `\{T\}`: tap this permanent \(non-mana\)/,
+		);
+	});
+});
+
+describe("formatParsedMana", () => {
+	it("shows normalized cost, mana value, colors and each symbol", () => {
+		const result = formatParsedMana(
+			{
+				object: "mana_cost",
+				cost: "{2}{W}{W}",
+				cmc: 4,
+				colors: ["W"],
+				colorless: false,
+				monocolored: true,
+				multicolored: false,
+			},
+			[white, two],
+		);
+		expect(result).toContain("cost: {2}{W}{W}");
+		expect(result).toContain("mana_value: 4");
+		expect(result).toContain("colors: white");
+		expect(result).toContain(
+			"- `{2}`: two generic mana (generic; mana value 2)",
+		);
+		expect(result.match(/one white mana/g)).toHaveLength(2);
+	});
+
+	it("reports colorless costs and unknown symbols", () => {
+		const result = formatParsedMana({
+			object: "mana_cost",
+			cost: "{C}",
+			cmc: 1,
+			colors: [],
+			colorless: true,
+			monocolored: false,
+			multicolored: false,
+		});
+		expect(result).toContain("colors: colorless");
+		expect(result).toContain("- `{C}`");
+	});
+});
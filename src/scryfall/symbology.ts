@@ -0,0 +1,125 @@
+/**
+ * Explanations for Scryfall card symbols and parsed mana costs
+ */
+
+import type { ScryfallManaCost, ScryfallSymbol } from "./types.js";
+
+// Spelled-out color codes for parsed mana cost output
+const COLOR_NAMES: Record<string, string> = {
+	W: "white",
+	U: "blue",
+	B: "black",
+	R: "red",
+	G: "green",
+};
+
+/**
+ * Classify a symbol as hybrid, Phyrexian, snow, half mana, etc.
+ * @param symbol - A symbol from the symbology endpoint
+ * @returns Labels describing the kind of symbol, most specific first
+ */
+export function classifySymbol(symbol: ScryfallSymbol): string[] {
+	const kinds: string[] = [];
+	const manaValue = symbol.mana_value ?? symbol.cmc;
+
+	if (symbol.phyrexian) kinds.push("Phyrexian");
+	if (symbol.hybrid) kinds.push("hybrid");
+	if (symbol.symbol === "{S}") kinds.push("snow");
+	if (manaValue === 0.5) kinds.push("half mana");
+	if (/^\{[XYZ]\}$/.test(symbol.symbol)) kinds.push("variable");
+	if (/^\{\d+\}$/.test(symbol.symbol)) kinds.push("generic");
+	if (symbol.funny) kinds.push("Un-set");
+	if (!symbol.represents_mana) kinds.push("non-mana");
+
+	return kinds;
+}
+
+/**
+ * Split a normalized mana cost such as "{2}{W}{W}" into its symbols
+ */
+export function splitManaSymbols(cost: string): string[] {
+	return cost.match(/\{[^}]+\}/g) ?? [];
+}
+
+function formatSymbol(symbol: ScryfallSymbol): string {
+	const kinds = classifySymbol(symbol);
+	const manaValue = symbol.mana_value ?? symbol.cmc;
+	const details: string[] = [];
+
+	if (kinds.length > 0) details.push(kinds.join(", "));
+	if (symbol.represents_mana && manaValue !== undefined) {
+		details.push(`mana value ${manaValue}`);
+	}
+
+	const suffix = details.length > 0 ? ` (${details.join("; ")})` : "";
+	const svg = symbol.svg_uri ? ` — SVG: ${symbol.svg_uri}` : "";
+	return `- \`${symbol.symbol}\`: ${symbol.english}${suffix}${svg}`;
+}
+
+/**
+ * Format every card symbol with an English explanation
+ * @param symbols - Symbols from the symbology endpoint
+ * @returns Markdown reference grouped into mana and other symbols
+ */
+export function formatSymbology(symbols: ScryfallSymbol[]): string {
+	const output: string[] = [];
+
+	output.push("# Card Symbols");
+	output.push("");
+	output.push(
+		"Every symbol that appears in mana costs or card text, with its meaning in English.",
+	);
+
+	const mana = symbols.filter((symbol) => symbol.represents_mana);
+	const other = symbols.filter((symbol) => !symbol.represents_mana);
+
+	output.push("");
+	output.push("## Mana Symbols");
+	output.push("");
+	for (const symbol of mana) {
+		output.push(formatSymbol(symbol));
+	}
+
+	output.push("");
+	output.push("## Other Symbols");
+	output.push("");
+	for (const symbol of other) {
+		output.push(formatSymbol(symbol));
+	}
+
+	return output.join("\n");
+}
+
+/**
+ * Format a parsed mana cost with an explanation of each symbol
+ * @param parsed - Result of the parse-mana endpoint
+ * @param symbols - Symbols from the symbology endpoint, used for explanations
+ * @returns Formatted string with normalized cost, mana value, colors and symbols
+ */
+export function formatParsedMana(
+	parsed: ScryfallManaCost,
+	symbols: ScryfallSymbol[] = [],
+): string {
+	const output: string[] = [];
+	const colors =
+		parsed.colors.length > 0
+			? parsed.colors.map((color) => COLOR_NAMES[color] ?? color).join(", ")
+			: "colorless";
+
+	output.push(`cost: ${parsed.cost}`);
+	output.push(`mana_value: ${parsed.cmc}`);
+	output.push(`colors: ${colors}`);
+
+	const bySymbol = new Map(symbols.map((symbol) => [symbol.symbol, symbol]));
+	const parts = splitManaSymbols(parsed.cost);
+	if (parts.length > 0) {
+		output.push("");
+		output.push("Symbols:");
+		for (const part of parts) {
+			const symbol = bySymbol.get(part);
+			output.push(symbol ? formatSymbol(symbol) : `- \`${part}\``);
+		}
+	}
+
+	return output.join("\n");
+}
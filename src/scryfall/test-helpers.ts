@@ -0,0 +1,71 @@
+/**
+ * Shared fixtures for unit tests
+ */
+
+import type { ScryfallCard, ScryfallList } from "./types.js";
+
+/**
+ * Build a card with sensible defaults; override only what a test cares about
+ */
+export function mockCard(overrides: Partial<ScryfallCard> = {}): ScryfallCard {
+	const name = overrides.name ?? "Test Card";
+	const id =
+		overrides.id ?? `id-${name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}`;
+
+	return {
+		object: "card",
+		id,
+		oracle_id: `oracle-${id}`,
+		name,
+		lang: "en",
+		released_at: "2020-01-01",
+		uri: `https://api.scryfall.com/cards/${id}`,
+		scryfall_uri: `https://scryfall.com/card/${id}`,
+		layout: "normal",
+		highres_image: true,
+		image_status: "highres_scan",
+		mana_cost: "",
+		cmc: 0,
+		type_line: "Artifact",
+		colors: [],
+		color_identity: [],
+		legalities: {},
+		reserved: false,
+		foil: true,
+		nonfoil: true,
+		set: "tst",
+		set_name: "Test Set",
+		set_type: "expansion",
+		set_uri: "https://api.scryfall.com/sets/tst",
+		set_search_uri: "https://api.scryfall.com/cards/search?q=e%3Atst",
+		scryfall_set_uri: "https://scryfall.com/sets/tst",
+		rulings_uri: `https://api.scryfall.com/cards/${id}/rulings`,
+		prints_search_uri: `https://api.scryfall.com/cards/search?q=oracleid%3A${id}&unique=prints`,
+		collector_number: "1",
+		digital: false,
+		rarity: "common",
+		finishes: ["nonfoil", "foil"],
+		promo: false,
+		border_color: "black",
+		frame: "2015",
+		full_art: false,
+		prices: {},
+		related_uris: {},
+		...overrides,
+	};
+}
+
+/**
+ * Wrap cards in a Scryfall list response
+ */
+export function mockList<T>(
+	data: T[],
+	extra: Partial<ScryfallList<T>> = {},
+): ScryfallList<T> {
+	return {
+		object: "list",
+		has_more: false,
+		data,
+		...extra,
+	};
+}
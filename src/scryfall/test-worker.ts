@@ -0,0 +1,14 @@
+import { DurableObject } from "cloudflare:workers";
+
+/**
+ * Bare SQLite-backed Durable Object for storage tests. MyMCP cannot be
+ * loaded in the workers pool (see src/index.test.ts), so tests that need
+ * Durable Object storage run inside this instead.
+ */
+export class TestStorageObject extends DurableObject {}
+
+export default {
+	fetch(): Response {
+		return new Response("Not found", { status: 404 });
+	},
+};
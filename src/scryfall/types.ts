@@ -36,6 +36,7 @@ export interface ScryfallCard {
 	oracle_text?: string;
 	colors?: string[];
 	color_identity: string[];
+	produced_mana?: string[]; // Colors of mana the card can produce
 
 	// Card stats
 	power?: string;
@@ -62,6 +63,9 @@ export interface ScryfallCard {
 	collector_number: string;
 	digital: boolean;
 	rarity: "common" | "uncommon" | "rare" | "mythic" | "special" | "bonus";
+	finishes: ("nonfoil" | "foil" | "etched" | "glossy")[];
+	promo: boolean;
+	promo_types?: string[]; // e.g. "prerelease", "buyabox", "serialized"
 
 	// Flavor
 	flavor_text?: string;
@@ -70,6 +74,8 @@ export interface ScryfallCard {
 	illustration_id?: string;
 	border_color: string;
 	frame: string;
+	frame_effects?: string[]; // e.g. "showcase", "extendedart", "inverted"
+	full_art: boolean;
 
 	// Prices
 	prices: {
@@ -166,7 +172,7 @@ export interface ScryfallSet {
 export interface ScryfallRuling {
 	object: "ruling";
 	oracle_id: string;
-	source: string;
+	source: "wotc" | "scryfall";
 	published_at: string;
 	comment: string;
 }
@@ -179,13 +185,52 @@ export interface ScryfallSymbol {
 	transposable: boolean;
 	represents_mana: boolean;
 	appears_in_mana_costs: boolean;
+	mana_value?: number;
 	cmc?: number;
+	hybrid: boolean;
+	phyrexian: boolean;
 	funny: boolean;
 	colors: string[];
 	gatherer_alternates?: string[];
 	svg_uri?: string;
 }
 
+/**
+ * Result of parsing a mana cost
+ * https://scryfall.com/docs/api/card-symbols/parse-mana
+ */
+export interface ScryfallManaCost {
+	object: "mana_cost";
+	cost: string;
+	cmc: number;
+	colors: string[];
+	colorless: boolean;
+	monocolored: boolean;
+	multicolored: boolean;
+}
+
+// Catalog types served by https://scryfall.com/docs/api/catalogs
+export const CATALOG_TYPES = [
+	"card-names",
+	"artist-names",
+	"word-bank",
+	"creature-types",
+	"planeswalker-types",
+	"land-types",
+	"artifact-types",
+	"enchantment-types",
+	"spell-types",
+	"powers",
+	"toughnesses",
+	"loyalties",
+	"watermarks",
+	"keyword-abilities",
+	"keyword-actions",
+	"ability-words",
+] as const;
+
+export type ScryfallCatalogType = (typeof CATALOG_TYPES)[number];
+
 export interface ScryfallCatalog {
 	object: "catalog";
 	uri: string;
@@ -193,6 +238,28 @@ export interface ScryfallCatalog {
 	data: string[];
 }
 
+export const BULK_DATA_TYPES = ["oracle_cards", "default_cards"] as const;
+
+export type ScryfallBulkDataType = (typeof BULK_DATA_TYPES)[number];
+
+/**
+ * A downloadable bulk data file
+ * https://scryfall.com/docs/api/bulk-data
+ */
+export interface ScryfallBulkData {
+	object: "bulk_data";
+	id: string;
+	type: string;
+	updated_at: string;
+	uri: string;
+	name: string;
+	description: string;
+	size: number; // bytes
+	download_uri: string;
+	content_type: string;
+	content_encoding: string;
+}
+
 export type ScryfallResponse<T> = T | ScryfallError;
 
 export function isScryfallError(response: unknown): response is ScryfallError {
@@ -208,21 +275,18 @@ export function isScryfallError(response: unknown): response is ScryfallError {
  * Field selection for card formatting
  */
 
-// All available card fields that can be selected
-export type CardField =
-	| keyof ScryfallCard
-	| "prices.usd"
-	| "prices.usd_foil"
-	| "prices.usd_etched"
-	| "prices.eur"
-	| "prices.eur_foil"
-	| "prices.tix"
-	| "image_uris.small"
-	| "image_uris.normal"
-	| "image_uris.large"
-	| "image_uris.png"
-	| "image_uris.art_crop"
-	| "image_uris.border_crop";
+// Objects and lists whose keys can be selected with dot notation
+export type NestedCardObject =
+	| "card_faces"
+	| "image_uris"
+	| "legalities"
+	| "prices"
+	| "related_uris"
+	| "purchase_uris";
+
+// All available card fields that can be selected; see fields.ts for the
+// registry of valid paths
+export type CardField = keyof ScryfallCard | `${NestedCardObject}.${string}`;
 
 // Predefined field groups for convenience
 export type CardFieldGroup =
@@ -263,6 +327,7 @@ export const FIELD_GROUP_MAPPINGS: Record<CardFieldGroup, CardField[]> = {
 		"oracle_text",
 		"colors",
 		"color_identity",
+		"produced_mana",
 		"power",
 		"toughness",
 		"loyalty",
@@ -276,6 +341,11 @@ export const FIELD_GROUP_MAPPINGS: Record<CardFieldGroup, CardField[]> = {
 		"flavor_text",
 		"artist",
 		"frame",
+		"frame_effects",
+		"full_art",
+		"finishes",
+		"promo",
+		"promo_types",
 		"prices",
 	],
 };
@@ -286,31 +356,7 @@ export const FIELD_GROUP_KEYS = Object.keys(FIELD_GROUP_MAPPINGS) as [
 	...CardFieldGroup[],
 ];
 
-// All valid field names - derived from the 'full' group for validation
-export const ALL_VALID_FIELDS = FIELD_GROUP_MAPPINGS.full;
+// Layouts for card lists: one block per card, a markdown table or CSV
+export const CARD_OUTPUT_FORMATS = ["text", "table", "csv"] as const;
 
-/**
- * Validate field names against the list of valid fields
- * @param fields - Array of field names to validate
- * @returns Object containing valid fields and warnings for invalid ones
- */
-export function validateFields(fields: string[]): {
-	valid: string[];
-	warnings: string[];
-} {
-	const valid: string[] = [];
-	const warnings: string[] = [];
-	const validFieldSet = new Set(ALL_VALID_FIELDS);
-
-	for (const field of fields) {
-		if (validFieldSet.has(field as CardField)) {
-			valid.push(field);
-		} else {
-			warnings.push(
-				`Field '${field}' is not a recognized field. See scryfall://fields/reference for available fields.`,
-			);
-		}
-	}
-
-	return { valid, warnings };
-}
+export type CardOutputFormat = (typeof CARD_OUTPUT_FORMATS)[number];
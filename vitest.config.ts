@@ -5,6 +5,12 @@ export default defineWorkersConfig({
 		poolOptions: {
 			workers: {
 				wrangler: { configPath: "./wrangler.jsonc" },
+				main: "./src/scryfall/test-worker.ts",
+				miniflare: {
+					durableObjects: {
+						TEST_STORAGE: { className: "TestStorageObject", useSQLite: true },
+					},
+				},
 			},
 		},
 		coverage: {